@@ -1,13 +1,55 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.hoisted(() => {
+  process.env.LYZR_API_KEY = 'test-api-key'
+  // Keep retry backoff short so failure tests stay fast
+  process.env.UPSTREAM_RETRY_BASE_MS = '1'
+})
+
 import { POST } from './route'
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { setAgentRegistry, type AgentDefinition } from '@/utils/agentRegistry'
+import { ANONYMOUS_ID_COOKIE, readAnonymousIdCookie } from '@/utils/identity'
+import { createMemoryIdempotencyStore, setIdempotencyStore } from '@/utils/idempotency'
+import { createMemoryRateLimitStore, setRateLimitStore } from '@/utils/rateLimit'
+import { resetCircuitBreakers } from '@/utils/resilience'
+import { readSSE } from '@/utils/sse'
 
 // Mock fetch globally
 global.fetch = vi.fn()
 
+// Agents the tests address; upstream IDs equal keys unless noted
+function testAgent(key: string, upstreamId = key): AgentDefinition {
+  return {
+    key,
+    upstreamId,
+    name: key,
+    title: key,
+    subtitle: key,
+    icon: 'message-circle',
+    welcomeMessage: `Welcome to ${key}`,
+    suggestions: [],
+    output: 'support',
+  }
+}
+
+const TEST_AGENTS = [
+  'test-agent',
+  'offline-agent',
+  'oa-agent',
+  'any-agent',
+  'support-agent',
+  'sales-agent',
+].map(key => testAgent(key))
+
 describe('POST /api/agent', () => {
   beforeEach(() => {
     // Reset mocks before each test
     vi.clearAllMocks()
+    setRateLimitStore(createMemoryRateLimitStore())
+    setIdempotencyStore(createMemoryIdempotencyStore())
+    resetCircuitBreakers()
+    setAgentRegistry([...TEST_AGENTS, testAgent('registry-agent', '65f0c0ffee0000000000beef')])
   })
 
   it('returns 400 when message is missing', async () => {
@@ -21,7 +63,8 @@ describe('POST /api/agent', () => {
     const data = await response.json()
 
     expect(response.status).toBe(400)
-    expect(data.error).toBe('Message and agent_id are required')
+    expect(data.code).toBe('INVALID_REQUEST')
+    expect(data.issues).toEqual({ message: ['message is required'] })
   })
 
   it('returns 400 when agent_id is missing', async () => {
@@ -35,7 +78,43 @@ describe('POST /api/agent', () => {
     const data = await response.json()
 
     expect(response.status).toBe(400)
-    expect(data.error).toBe('Message and agent_id are required')
+    expect(data.code).toBe('INVALID_REQUEST')
+    expect(data.issues).toEqual({ agent_id: ['agent_id is required'] })
+  })
+
+  it('returns 400 instead of 500 when the body is not valid JSON', async () => {
+    const request = new Request('http://localhost/api/agent', {
+      method: 'POST',
+      body: '{"message": "Hello",',
+      headers: { 'Content-Type': 'application/json' },
+    })
+
+    const response = await POST(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.code).toBe('INVALID_JSON')
+  })
+
+  it('lists every invalid field', async () => {
+    const request = new Request('http://localhost/api/agent', {
+      method: 'POST',
+      body: JSON.stringify({
+        message: 'x'.repeat(4001),
+        agent_id: '../../admin',
+        user_id: 42,
+      }),
+      headers: { 'Content-Type': 'application/json' },
+    })
+
+    const response = await POST(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(Object.keys(data.issues).sort()).toEqual(['agent_id', 'message', 'user_id'])
+    expect(data.issues.message[0]).toContain('at most 4000')
+    expect(data.issues.user_id).toEqual(['user_id must be a string'])
+    expect(global.fetch).not.toHaveBeenCalled()
   })
 
   it('successfully calls AI agent and returns parsed response', async () => {
@@ -60,6 +139,7 @@ describe('POST /api/agent', () => {
       body: JSON.stringify({
         message: 'Hello AI',
         agent_id: 'test-agent',
+        user_id: 'user-123',
       }),
       headers: { 'Content-Type': 'application/json' },
     })
@@ -72,7 +152,7 @@ describe('POST /api/agent', () => {
     expect(data.response).toEqual({ success: true, result: 'Test response' })
     expect(data.agent_id).toBe('test-agent')
     expect(data.user_id).toBe('user-123')
-    expect(data.session_id).toBe('session-456')
+    expect(data.session_id).toMatch(/^test-agent-/)
   })
 
   it('handles AI agent API errors gracefully', async () => {
@@ -81,6 +161,7 @@ describe('POST /api/agent', () => {
       ok: false,
       status: 500,
       statusText: 'Internal Server Error',
+      text: async () => 'Internal Server Error',
     })
 
     const request = new Request('http://localhost/api/agent', {
@@ -96,7 +177,7 @@ describe('POST /api/agent', () => {
     const data = await response.json()
 
     expect(response.status).toBe(500)
-    expect(data.error).toContain('AI Agent API error')
+    expect(data.error).toContain('API returned status 500')
   })
 
   it('handles malformed JSON from AI agent', async () => {
@@ -130,6 +211,71 @@ describe('POST /api/agent', () => {
     expect(data.response).toBe('This is not valid JSON {broken')
   })
 
+  it('reports how the reply was parsed', async () => {
+    ;(global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ response: "Sure! {answer: 'See https://amadeo.ai', done: True,}" }),
+    })
+
+    const response = await POST(
+      new Request('http://localhost/api/agent', {
+        method: 'POST',
+        body: JSON.stringify({ message: 'Hello AI', agent_id: 'test-agent' }),
+        headers: { 'Content-Type': 'application/json' },
+      })
+    )
+    const data = await response.json()
+
+    expect(data.response).toEqual({ answer: 'See https://amadeo.ai', done: true })
+    expect(data.parse.structured).toBe(true)
+    expect(data.parse.repairs).toEqual(
+      expect.arrayContaining(['ignored-surrounding-text', 'unquoted-keys', 'single-quotes', 'literals', 'trailing-commas'])
+    )
+  })
+
+  it('explains why a reply was kept as text', async () => {
+    ;(global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ response: 'Amadeo helps banks automate support.' }),
+    })
+
+    const response = await POST(
+      new Request('http://localhost/api/agent', {
+        method: 'POST',
+        body: JSON.stringify({ message: 'Hello AI', agent_id: 'test-agent' }),
+        headers: { 'Content-Type': 'application/json' },
+      })
+    )
+    const data = await response.json()
+
+    expect(data.response).toBe('Amadeo helps banks automate support.')
+    expect(data.parse).toMatchObject({ structured: false, error: 'No valid JSON found in the response' })
+  })
+
+  it('validates replies against the agent output schema', async () => {
+    ;(global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        response: 'Draft: {"note": "ignore me please"} Final: {"response": "Done", "confidence": "0.9"}',
+      }),
+    })
+
+    const response = await POST(
+      new Request('http://localhost/api/agent', {
+        method: 'POST',
+        body: JSON.stringify({ message: 'Hello AI', agent_id: 'test-agent' }),
+        headers: { 'Content-Type': 'application/json' },
+      })
+    )
+    const data = await response.json()
+
+    expect(data.response).toEqual({ response: 'Done', confidence: 0.9 })
+    expect(data.parse).toMatchObject({
+      validated: true,
+      coercions: [{ kind: 'string-to-number', path: 'confidence' }],
+    })
+  })
+
   it('passes optional parameters to AI agent', async () => {
     const mockResponse = {
       response: JSON.stringify({ result: 'ok' }),
@@ -149,7 +295,6 @@ describe('POST /api/agent', () => {
         message: 'Hello',
         agent_id: 'test-agent',
         user_id: 'custom-user',
-        session_id: 'custom-session',
       }),
       headers: { 'Content-Type': 'application/json' },
     })
@@ -165,4 +310,702 @@ describe('POST /api/agent', () => {
       })
     )
   })
+
+  describe('streaming (Accept: text/event-stream)', () => {
+    // Local stand-in for the upstream: emits the given chunks one read at a time
+    function chunkedUpstream(chunks: string[], contentType = 'text/event-stream') {
+      const encoder = new TextEncoder()
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          const chunk = chunks.shift()
+          if (chunk === undefined) controller.close()
+          else controller.enqueue(encoder.encode(chunk))
+        },
+      })
+      return new Response(body, { status: 200, headers: { 'Content-Type': contentType } })
+    }
+
+    function streamRequest(body: Record<string, unknown>) {
+      return new Request('http://localhost/api/agent', {
+        method: 'POST',
+        body: JSON.stringify(body),
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+      })
+    }
+
+    async function collectEvents(response: Response) {
+      const events: Array<{ event: string; data: any }> = []
+      for await (const message of readSSE(response.body!)) {
+        events.push({ event: message.event, data: JSON.parse(message.data) })
+      }
+      return events
+    }
+
+    it('forwards tokens as they arrive and ends with the parsed object', async () => {
+      ;(global.fetch as any).mockResolvedValueOnce(
+        chunkedUpstream([
+          'data: {"response": "Hel',
+          'lo", "suggested_',
+          'followups": ["Next?"]}\n\n',
+          'data: [DONE]\n\n',
+        ])
+      )
+
+      const response = await POST(streamRequest({ message: 'Hi', agent_id: 'test-agent' }))
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('content-type')).toContain('text/event-stream')
+
+      const events = await collectEvents(response)
+      const tokens = events.filter(e => e.event === 'token').map(e => e.data.delta)
+      const final = events[events.length - 1]
+
+      expect(tokens.join('')).toBe('{"response": "Hello", "suggested_followups": ["Next?"]}')
+      expect(final.event).toBe('final')
+      expect(final.data.success).toBe(true)
+      expect(final.data.response).toEqual({ response: 'Hello', suggested_followups: ['Next?'] })
+      expect(final.data.agent_id).toBe('test-agent')
+    })
+
+    it('splits events correctly when a chunk ends mid-line', async () => {
+      ;(global.fetch as any).mockResolvedValueOnce(
+        chunkedUpstream(['data: Plain ', 'text\n', '\ndata: reply\n\n'])
+      )
+
+      const events = await collectEvents(
+        await POST(streamRequest({ message: 'Hi', agent_id: 'test-agent' }))
+      )
+
+      expect(events.map(e => e.event)).toEqual(['token', 'token', 'final'])
+      expect(events[2].data.response).toBe('Plain textreply')
+    })
+
+    it('accepts raw chunked text from the upstream', async () => {
+      ;(global.fetch as any).mockResolvedValueOnce(
+        chunkedUpstream(['Streaming ', 'works'], 'text/plain')
+      )
+
+      const events = await collectEvents(
+        await POST(streamRequest({ message: 'Hi', agent_id: 'test-agent' }))
+      )
+
+      expect(events.filter(e => e.event === 'token')).toHaveLength(2)
+      expect(events[events.length - 1].data.raw_response).toBe('Streaming works')
+    })
+
+    it('returns a JSON error when the upstream rejects the stream', async () => {
+      ;(global.fetch as any).mockImplementation(
+        async () => new Response('Service Unavailable', { status: 503 })
+      )
+
+      const response = await POST(streamRequest({ message: 'Hi', agent_id: 'test-agent' }))
+      const data = await response.json()
+
+      expect(response.status).toBe(503)
+      expect(data.error).toContain('API returned status 503')
+    })
+
+    it('emits an error event when the upstream stream breaks', async () => {
+      const encoder = new TextEncoder()
+      let sent = false
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (sent) {
+            controller.error(new Error('socket hang up'))
+          } else {
+            sent = true
+            controller.enqueue(encoder.encode('data: partial\n\n'))
+          }
+        },
+      })
+      ;(global.fetch as any).mockResolvedValueOnce(
+        new Response(body, { headers: { 'Content-Type': 'text/event-stream' } })
+      )
+
+      const events = await collectEvents(
+        await POST(streamRequest({ message: 'Hi', agent_id: 'test-agent' }))
+      )
+
+      expect(events[0]).toEqual({ event: 'token', data: { delta: 'partial' } })
+      expect(events[1].event).toBe('error')
+      expect(events[1].data.details).toBe('socket hang up')
+    })
+
+    it('stops writing once the client has gone away', async () => {
+      const error = vi.spyOn(console, 'error')
+      ;(global.fetch as any).mockResolvedValueOnce(
+        chunkedUpstream(['data: Hello\n\n', 'data:  there\n\n', 'data: [DONE]\n\n'])
+      )
+      const response = await POST(streamRequest({ message: 'Hi', agent_id: 'test-agent' }))
+      const reader = response.body!.getReader()
+
+      await reader.read()
+      await reader.cancel()
+      // The route keeps reading the upstream reply
+      await new Promise(resolve => setTimeout(resolve, 20))
+
+      expect(error).not.toHaveBeenCalledWith('AI Agent stream error:', expect.anything())
+      error.mockRestore()
+    })
+  })
+
+  describe('providers', () => {
+    function jsonRequest(body: Record<string, unknown>) {
+      return new Request('http://localhost/api/agent', {
+        method: 'POST',
+        body: JSON.stringify(body),
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    afterEach(() => {
+      vi.unstubAllEnvs()
+    })
+
+    it('answers from the fixture provider without any network call', async () => {
+      vi.stubEnv('AGENT_PROVIDERS', JSON.stringify({ 'offline-agent': 'fixture' }))
+      vi.stubEnv('AGENT_FIXTURES', JSON.stringify({ 'offline-agent': { response: 'Canned answer' } }))
+
+      const response = await POST(jsonRequest({ message: 'Hi', agent_id: 'offline-agent' }))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.response).toEqual({ response: 'Canned answer' })
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('echoes the message when the fixture provider has no canned reply', async () => {
+      vi.stubEnv('AGENT_PROVIDER', 'fixture')
+
+      const data = await (await POST(jsonRequest({ message: 'Ping', agent_id: 'any-agent' }))).json()
+
+      expect(data.response).toBe('Echo: Ping')
+    })
+
+    it('calls an OpenAI-compatible chat completions API', async () => {
+      vi.stubEnv('AGENT_PROVIDERS', JSON.stringify({ 'oa-agent': { provider: 'openai', model: 'test-model' } }))
+      vi.stubEnv('OPENAI_API_KEY', 'sk-test')
+      vi.stubEnv('OPENAI_BASE_URL', 'http://localhost:9999/v1')
+      ;(global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: '{"response": "From OpenAI"}' } }] }),
+      })
+
+      const data = await (await POST(jsonRequest({ message: 'Hi', agent_id: 'oa-agent' }))).json()
+
+      expect(data.response).toEqual({ response: 'From OpenAI' })
+      const [url, init] = (global.fetch as any).mock.calls[0]
+      expect(url).toBe('http://localhost:9999/v1/chat/completions')
+      expect(init.headers.Authorization).toBe('Bearer sk-test')
+      expect(JSON.parse(init.body).model).toBe('test-model')
+    })
+
+    it('returns 500 when the configured provider is unknown', async () => {
+      vi.stubEnv('AGENT_PROVIDER', 'carrier-pigeon')
+
+      const response = await POST(jsonRequest({ message: 'Hi', agent_id: 'any-agent' }))
+      const data = await response.json()
+
+      expect(response.status).toBe(500)
+      expect(data.error).toContain('Unknown provider')
+    })
+  })
+
+  describe('sessions', () => {
+    function send(body: Record<string, unknown>) {
+      return POST(
+        new Request('http://localhost/api/agent', {
+          method: 'POST',
+          body: JSON.stringify(body),
+          headers: { 'Content-Type': 'application/json' },
+        })
+      ).then(response => response.json())
+    }
+
+    function upstreamSessionId(call: number) {
+      return JSON.parse((global.fetch as any).mock.calls[call][1].body).session_id
+    }
+
+    beforeEach(() => {
+      vi.stubEnv('SESSION_SECRET', 'test-secret')
+      ;(global.fetch as any).mockResolvedValue({ ok: true, json: async () => ({ response: 'ok' }) })
+    })
+
+    afterEach(() => {
+      vi.unstubAllEnvs()
+    })
+
+    it('issues a session and continues it when the token is sent back', async () => {
+      const first = await send({ message: 'Hi', agent_id: 'support-agent' })
+      const second = await send({ message: 'And?', agent_id: 'support-agent', session_token: first.session_token })
+
+      expect(first.session_id).toMatch(/^support-agent-/)
+      expect(first.session_token).toEqual(expect.any(String))
+      expect(second.session_id).toBe(first.session_id)
+      expect(upstreamSessionId(1)).toBe(first.session_id)
+    })
+
+    it('starts a new session for a token issued to another agent', async () => {
+      const support = await send({ message: 'Hi', agent_id: 'support-agent' })
+      const sales = await send({ message: 'Hi', agent_id: 'sales-agent', session_token: support.session_token })
+
+      expect(sales.session_id).not.toBe(support.session_id)
+      expect(sales.session_id).toMatch(/^sales-agent-/)
+    })
+
+    it('refuses a session_id, pointing to session_token', async () => {
+      const first = await send({ message: 'Hi', agent_id: 'support-agent' })
+      const second = await send({ message: 'Hi', agent_id: 'support-agent', session_id: first.session_id })
+
+      expect(second.code).toBe('INVALID_REQUEST')
+      expect(second.issues.session_id).toEqual([expect.stringContaining('session_token')])
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('rejects a tampered token', async () => {
+      const first = await send({ message: 'Hi', agent_id: 'support-agent' })
+      const [payload] = first.session_token.split('.')
+      const forged = `${payload}.${'A'.repeat(43)}`
+
+      const second = await send({ message: 'Hi', agent_id: 'support-agent', session_token: forged })
+
+      expect(second.session_id).not.toBe(first.session_id)
+    })
+  })
+
+  describe('visitors', () => {
+    function send(body: Record<string, unknown>, cookie?: string) {
+      return POST(
+        new Request('http://localhost/api/agent', {
+          method: 'POST',
+          body: JSON.stringify(body),
+          headers: { 'Content-Type': 'application/json', ...(cookie && { Cookie: cookie }) },
+        })
+      )
+    }
+
+    function upstreamUserId(call: number) {
+      return JSON.parse((global.fetch as any).mock.calls[call][1].body).user_id
+    }
+
+    beforeEach(() => {
+      ;(global.fetch as any).mockResolvedValue({ ok: true, json: async () => ({ response: 'ok' }) })
+    })
+
+    it('gives a visitor without a user_id an anonymous ID cookie and sends it upstream', async () => {
+      const response = await send({ message: 'Hi', agent_id: 'support-agent' })
+      const cookie = response.headers.get('set-cookie') || ''
+      const id = readAnonymousIdCookie(cookie)
+
+      expect(id).toEqual(expect.stringMatching(/^[0-9a-f-]{36}$/))
+      expect(upstreamUserId(0)).toBe(`anon-${id}`)
+    })
+
+    it('keeps the ID from the cookie', async () => {
+      const id = '3b241101-e2bb-4255-8caf-4136c566a962'
+      const response = await send({ message: 'Hi', agent_id: 'support-agent' }, `${ANONYMOUS_ID_COOKIE}=${id}`)
+
+      expect(response.headers.get('set-cookie')).toBeNull()
+      expect(upstreamUserId(0)).toBe(`anon-${id}`)
+    })
+
+    it('issues a new ID for a malformed cookie', async () => {
+      const response = await send({ message: 'Hi', agent_id: 'support-agent' }, `${ANONYMOUS_ID_COOKIE}=%E0%A4%A`)
+      const id = readAnonymousIdCookie(response.headers.get('set-cookie'))
+
+      expect(response.status).toBe(200)
+      expect(id).toEqual(expect.stringMatching(/^[0-9a-f-]{36}$/))
+      expect(upstreamUserId(0)).toBe(`anon-${id}`)
+    })
+
+    it('prefers the user_id sent with the message', async () => {
+      await send({ message: 'Hi', agent_id: 'support-agent', user_id: 'u_42' })
+
+      expect(upstreamUserId(0)).toBe('u_42')
+    })
+  })
+
+  describe('idempotency (Idempotency-Key header)', () => {
+    const VISITOR = `${ANONYMOUS_ID_COOKIE}=3b241101-e2bb-4255-8caf-4136c566a962`
+
+    function send(body: Record<string, unknown>, key: string, headers: Record<string, string> = {}) {
+      return POST(
+        new Request('http://localhost/api/agent', {
+          method: 'POST',
+          body: JSON.stringify(body),
+          headers: { 'Content-Type': 'application/json', 'Idempotency-Key': key, Cookie: VISITOR, ...headers },
+        })
+      )
+    }
+
+    const question = { message: 'Hi', agent_id: 'support-agent', user_id: 'u_42' }
+
+    it('answers a repeated key with the first result, without calling upstream again', async () => {
+      ;(global.fetch as any).mockResolvedValueOnce({ ok: true, json: async () => ({ response: 'Hello!' }) })
+
+      const first = await send(question, 'message-1')
+      const second = await send(question, 'message-1')
+
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(second.status).toBe(200)
+      expect(second.headers.get('Idempotent-Replayed')).toBe('true')
+      expect(first.headers.get('Idempotent-Replayed')).toBeNull()
+      expect(await second.json()).toEqual(await first.json())
+    })
+
+    it('never replays an answer to another visitor', async () => {
+      ;(global.fetch as any).mockResolvedValue({ ok: true, json: async () => ({ response: 'Hello!' }) })
+
+      const first = await send(question, 'message-1')
+      const other = await send(question, 'message-1', {
+        Cookie: `${ANONYMOUS_ID_COOKIE}=9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d`,
+      })
+      const cookieless = await send(question, 'message-1', { Cookie: '' })
+
+      expect(other.headers.get('Idempotent-Replayed')).toBeNull()
+      expect(cookieless.headers.get('Idempotent-Replayed')).toBeNull()
+      expect((await other.json()).session_token).not.toBe((await first.json()).session_token)
+      expect(global.fetch).toHaveBeenCalledTimes(3)
+    })
+
+    it('makes a repeat that arrives during the first call wait for it', async () => {
+      let answer!: () => void
+      ;(global.fetch as any).mockReturnValueOnce(
+        new Promise(resolve => {
+          answer = () => resolve({ ok: true, json: async () => ({ response: 'Hello!' }) })
+        })
+      )
+
+      const first = send(question, 'message-1')
+      const second = send(question, 'message-1')
+      await vi.waitFor(() => expect(global.fetch).toHaveBeenCalledTimes(1))
+      answer()
+
+      const [a, b] = await Promise.all([first, second])
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect((await b.json()).session_id).toBe((await a.json()).session_id)
+    })
+
+    it('runs the request again after a failure', async () => {
+      ;(global.fetch as any)
+        .mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Internal Server Error', text: async () => 'Oops' })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ response: 'Hello!' }) })
+
+      const first = await send(question, 'message-1')
+      const second = await send(question, 'message-1')
+
+      expect(first.status).toBe(500)
+      expect(second.status).toBe(200)
+      expect(global.fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('refuses a key reused for a different request', async () => {
+      ;(global.fetch as any).mockResolvedValue({ ok: true, json: async () => ({ response: 'Hello!' }) })
+
+      await send(question, 'message-1')
+      const response = await send({ ...question, message: 'Something else' }, 'message-1')
+
+      expect(response.status).toBe(422)
+      expect((await response.json()).code).toBe('IDEMPOTENCY_KEY_REUSED')
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('answers 503 when only running requests hold keys', async () => {
+      setIdempotencyStore(createMemoryIdempotencyStore({ maxKeys: 1 }))
+      let answer!: () => void
+      ;(global.fetch as any).mockReturnValueOnce(
+        new Promise(resolve => {
+          answer = () => resolve({ ok: true, json: async () => ({ response: 'Hello!' }) })
+        })
+      )
+
+      const first = send(question, 'message-1')
+      await vi.waitFor(() => expect(global.fetch).toHaveBeenCalledTimes(1))
+      const second = await send({ ...question, message: 'Pricing?' }, 'message-2')
+      answer()
+
+      expect(second.status).toBe(503)
+      expect(second.headers.get('Retry-After')).toBe('1')
+      expect((await second.json()).code).toBe('IDEMPOTENCY_UNAVAILABLE')
+      expect((await first).status).toBe(200)
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('rejects an invalid key', async () => {
+      const response = await send(question, 'x'.repeat(256))
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.issues['Idempotency-Key']).toEqual([expect.stringContaining('1-255')])
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('replays a streamed answer as its final body', async () => {
+      ;(global.fetch as any).mockResolvedValueOnce(
+        new Response('data: {"response": "Hello!"}\n\ndata: [DONE]\n\n', {
+          headers: { 'Content-Type': 'text/event-stream' },
+        })
+      )
+
+      const streamed = await send(question, 'message-1', { Accept: 'text/event-stream' })
+      const final = [] as any[]
+      for await (const message of readSSE(streamed.body!)) {
+        if (message.event === 'final') final.push(JSON.parse(message.data))
+      }
+      const replayed = await send(question, 'message-1', { Accept: 'text/event-stream' })
+
+      expect(replayed.headers.get('content-type')).toContain('application/json')
+      expect(await replayed.json()).toEqual(final[0])
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('rate limiting', () => {
+    function requestFrom(ip: string, body: Record<string, unknown>) {
+      return new Request('http://localhost/api/agent', {
+        method: 'POST',
+        body: JSON.stringify(body),
+        // As the proxy in front of the app appends it
+        headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': `10.0.0.1, ${ip}` },
+      })
+    }
+
+    beforeEach(() => {
+      ;(global.fetch as any).mockResolvedValue({ ok: true, json: async () => ({ response: 'ok' }) })
+    })
+
+    afterEach(() => {
+      vi.unstubAllEnvs()
+    })
+
+    it('returns 429 with Retry-After once an IP runs out of tokens', async () => {
+      vi.stubEnv('RATE_LIMIT_IP', '2/60')
+
+      const body = { message: 'Hi', agent_id: 'test-agent' }
+      expect((await POST(requestFrom('203.0.113.7', body))).status).toBe(200)
+      expect((await POST(requestFrom('203.0.113.7', body))).status).toBe(200)
+
+      const limited = await POST(requestFrom('203.0.113.7', body))
+      const data = await limited.json()
+
+      expect(limited.status).toBe(429)
+      expect(limited.headers.get('Retry-After')).toBe('30')
+      expect(data.code).toBe('RATE_LIMITED')
+      expect(data.retry_after).toBe(30)
+      expect(global.fetch).toHaveBeenCalledTimes(2)
+
+      // Other clients are unaffected
+      expect((await POST(requestFrom('198.51.100.2', body))).status).toBe(200)
+    })
+
+    it('ignores X-Forwarded-For entries the client added itself', async () => {
+      vi.stubEnv('RATE_LIMIT_IP', '2/60')
+
+      const body = { message: 'Hi', agent_id: 'test-agent' }
+      const statuses: number[] = []
+      for (let i = 0; i < 3; i++) statuses.push((await POST(requestFrom(`192.0.2.${i}, 203.0.113.7`, body))).status)
+
+      expect(statuses).toEqual([200, 200, 429])
+    })
+
+    it('limits a visitor across IPs, whatever user_id they send', async () => {
+      vi.stubEnv('RATE_LIMIT_USER', '1/10')
+      const visitor = `${ANONYMOUS_ID_COOKIE}=3b241101-e2bb-4255-8caf-4136c566a962`
+      const send = (ip: string, user_id: string) => {
+        const request = requestFrom(ip, { message: 'Hi', agent_id: 'test-agent', user_id })
+        request.headers.set('Cookie', visitor)
+        return POST(request)
+      }
+
+      expect((await send('203.0.113.7', 'user-1')).status).toBe(200)
+
+      const limited = await send('198.51.100.2', 'user-2')
+      expect(limited.status).toBe(429)
+      expect((await limited.json()).details).toContain('user')
+    })
+
+    it('limits callers without the cookie by their IP in the user scope', async () => {
+      vi.stubEnv('RATE_LIMIT_IP', 'off')
+      vi.stubEnv('RATE_LIMIT_USER', '1/10')
+
+      expect((await POST(requestFrom('203.0.113.7', { message: 'Hi', agent_id: 'test-agent' }))).status).toBe(200)
+
+      const limited = await POST(requestFrom('203.0.113.7', { message: 'Hi', agent_id: 'test-agent', user_id: 'new' }))
+      expect(limited.status).toBe(429)
+      expect((await limited.json()).details).toContain('user')
+    })
+
+    it('can be switched off per scope', async () => {
+      vi.stubEnv('RATE_LIMIT_IP', 'off')
+      vi.stubEnv('RATE_LIMIT_AGENT', 'off')
+
+      // Each a different visitor, all from one IP
+      for (let i = 0; i < 40; i++) {
+        const request = requestFrom('203.0.113.7', { message: 'Hi', agent_id: 'test-agent' })
+        request.headers.set('Cookie', `${ANONYMOUS_ID_COOKIE}=${crypto.randomUUID()}`)
+        expect((await POST(request)).status).toBe(200)
+      }
+    })
+  })
+
+  describe('upstream resilience', () => {
+    // Local fake upstream: replies from a script of statuses, then succeeds
+    function scriptedUpstream(script: Array<number | Error>) {
+      ;(global.fetch as any).mockImplementation(async () => {
+        const step = script.shift()
+        if (step instanceof Error) throw step
+        if (step !== undefined) return new Response(`status ${step}`, { status: step })
+        return new Response(JSON.stringify({ response: 'recovered' }), { status: 200 })
+      })
+    }
+
+    function send() {
+      return POST(
+        new Request('http://localhost/api/agent', {
+          method: 'POST',
+          body: JSON.stringify({ message: 'Hi', agent_id: 'test-agent' }),
+          headers: { 'Content-Type': 'application/json' },
+        })
+      )
+    }
+
+    afterEach(() => {
+      vi.unstubAllEnvs()
+    })
+
+    it('retries 502/503/504 and connection resets, then succeeds', async () => {
+      vi.stubEnv('UPSTREAM_RETRIES', '3')
+      const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })
+      scriptedUpstream([503, reset, 504])
+
+      const response = await send()
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.response).toBe('recovered')
+      expect(global.fetch).toHaveBeenCalledTimes(4)
+    })
+
+    it('does not retry client errors', async () => {
+      scriptedUpstream([400])
+
+      const response = await send()
+
+      expect(response.status).toBe(400)
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('gives up after the retry budget with the last upstream status', async () => {
+      vi.stubEnv('UPSTREAM_RETRIES', '1')
+      scriptedUpstream([502, 502, 502])
+
+      const response = await send()
+
+      expect(response.status).toBe(502)
+      expect((await response.json()).code).toBe('UPSTREAM_ERROR')
+      expect(global.fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('aborts a hanging upstream and returns 504', async () => {
+      vi.stubEnv('UPSTREAM_TIMEOUT_MS', '50')
+      let aborted = false
+      ;(global.fetch as any).mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_, reject) => {
+            init.signal?.addEventListener('abort', () => {
+              aborted = true
+              reject(new DOMException('This operation was aborted', 'AbortError'))
+            })
+          })
+      )
+
+      const response = await send()
+
+      expect(response.status).toBe(504)
+      expect((await response.json()).code).toBe('UPSTREAM_TIMEOUT')
+      expect(aborted).toBe(true)
+    })
+
+    it('opens the circuit after repeated failures and fails fast', async () => {
+      vi.stubEnv('UPSTREAM_RETRIES', '0')
+      vi.stubEnv('CIRCUIT_FAILURE_THRESHOLD', '2')
+      scriptedUpstream([503, 503])
+
+      expect((await send()).status).toBe(503)
+      expect((await send()).status).toBe(503)
+
+      const response = await send()
+      const data = await response.json()
+
+      expect(response.status).toBe(503)
+      expect(data.code).toBe('UPSTREAM_UNAVAILABLE')
+      expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0)
+      expect(global.fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('lets a trial request through once the reset timeout passes', async () => {
+      vi.stubEnv('UPSTREAM_RETRIES', '0')
+      vi.stubEnv('CIRCUIT_FAILURE_THRESHOLD', '1')
+      vi.stubEnv('CIRCUIT_RESET_MS', '20')
+      scriptedUpstream([503])
+
+      expect((await send()).status).toBe(503)
+      expect((await (await send()).json()).code).toBe('UPSTREAM_UNAVAILABLE')
+
+      await new Promise(resolve => setTimeout(resolve, 30))
+
+      expect((await send()).status).toBe(200)
+      expect((await send()).status).toBe(200)
+    })
+  })
+
+  describe('agent registry', () => {
+    function send(agent_id: string) {
+      return POST(
+        new Request('http://localhost/api/agent', {
+          method: 'POST',
+          body: JSON.stringify({ message: 'Hi', agent_id }),
+          headers: { 'Content-Type': 'application/json' },
+        })
+      )
+    }
+
+    beforeEach(() => {
+      ;(global.fetch as any).mockResolvedValue({ ok: true, json: async () => ({ response: 'ok' }) })
+    })
+
+    it('rejects agents that are not registered', async () => {
+      const response = await send('someone-elses-agent')
+      const data = await response.json()
+
+      expect(response.status).toBe(404)
+      expect(data.code).toBe('UNKNOWN_AGENT')
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+
+    it('maps a registry key to its upstream agent ID', async () => {
+      const data = await (await send('registry-agent')).json()
+
+      const upstreamBody = JSON.parse((global.fetch as any).mock.calls[0][1].body)
+      expect(upstreamBody.agent_id).toBe('65f0c0ffee0000000000beef')
+      expect(data.agent_id).toBe('registry-agent')
+    })
+
+    it('still accepts the upstream agent ID', async () => {
+      const response = await send('65f0c0ffee0000000000beef')
+
+      expect(response.status).toBe(200)
+      expect((await response.json()).agent_id).toBe('registry-agent')
+    })
+
+    it("reads replies with the agent's own pipeline stages", async () => {
+      setAgentRegistry([{ ...testAgent('strict-agent'), pipeline: ['direct'] }])
+      ;(global.fetch as any).mockResolvedValue({ ok: true, json: async () => ({ response: "{answer: 'yes'}" }) })
+
+      const data = await (await send('strict-agent')).json()
+
+      expect(data.response).toBe("{answer: 'yes'}")
+      expect(data.parse.structured).toBe(false)
+    })
+  })
 })
@@ -1,5 +1,34 @@
-import { NextRequest, NextResponse } from 'next/server'
-import parseLLMJson from '@/utils/jsonParser'
+import { NextResponse } from 'next/server'
+import type { z } from 'zod'
+import {
+  AIAgentRequestSchema, formatIssues, type AIAgentResponse, type AgentErrorCode, type ParseDiagnostics
+} from '@/utils/agentContract'
+import { AGENT_OUTPUTS } from '@/utils/agentOutput'
+import { findAgent } from '@/utils/agentRegistry'
+import { ProviderConfigError, UpstreamError, getProviderForAgent, type AgentProvider, type ProviderRequest } from '@/utils/providers'
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENCY_REPLAYED_HEADER,
+  createIdempotency,
+  fingerprintRequest,
+  getIdempotencyStore,
+  getIdempotencyTtlMs,
+  isIdempotencyKey,
+  type IdempotencyOutcome,
+} from '@/utils/idempotency'
+import { CircuitOpenError, TimeoutError } from '@/utils/resilience'
+import { createRateLimiter, getClientIp, getRateLimitRules, getRateLimitStore } from '@/utils/rateLimit'
+import { createResponsePipeline, type ResponsePipeline } from '@/utils/responsePipeline'
+import {
+  ANONYMOUS_ID_COOKIE,
+  ANONYMOUS_ID_MAX_AGE_SECONDS,
+  anonymousUserId,
+  createAnonymousId,
+  readAnonymousIdCookie,
+} from '@/utils/identity'
+import { resolveSession } from '@/utils/sessions'
+import { SSE_HEADERS, acceptsEventStream, encodeSSE } from '@/utils/sse'
+import type { StructuredFormat } from '@/utils/structuredParser'
 
 /**
  * POST /api/agent
@@ -9,18 +38,76 @@ import parseLLMJson from '@/utils/jsonParser'
  * - API keys stored server-side only (never exposed to client)
  * - Environment variable based configuration
  *
+ * VALIDATION:
+ * Bodies are checked against AIAgentRequestSchema (@/utils/agentContract).
+ * Invalid JSON or fields return 400 with a `code` and per-field `issues`.
+ *
+ * AGENTS:
+ * Only agents in the registry (@/utils/agentRegistry) are served, addressed
+ * by registry key ('support') or upstream ID. Others get 404 UNKNOWN_AGENT.
+ * Responses carry the registry key as agent_id.
+ *
+ * RATE LIMITING:
+ * Token buckets per IP, visitor (anonymous ID cookie, or the IP without one -
+ * the body's user_id is the client's to choose, so it isn't used) and agent_id
+ * (@/utils/rateLimit).
+ * Over the limit, the route answers 429 with a Retry-After header and
+ * `retry_after`.
+ *
+ * IDEMPOTENCY (Idempotency-Key header):
+ * A successful result is kept per key and replayed for repeats, with an
+ * Idempotent-Replayed header and without calling upstream or taking a rate
+ * limit token; a repeat that arrives while the first request runs waits for
+ * it. The same key with a different request gets 422 IDEMPOTENCY_KEY_REUSED.
+ * When the store has no room for another key (only running requests hold
+ * keys), the request gets 503 IDEMPOTENCY_UNAVAILABLE with Retry-After.
+ * Keys are scoped to the visitor's anonymous ID cookie: other callers, and
+ * callers without the cookie, never get a stored answer.
+ * See @/utils/idempotency.
+ *
+ * UPSTREAM RESILIENCE:
+ * Per-agent timeouts, jittered retries for 502/503/504 and connection
+ * errors, and a circuit breaker per provider (@/utils/resilience):
+ * - timeout → 504 UPSTREAM_TIMEOUT
+ * - circuit open → 503 UPSTREAM_UNAVAILABLE with Retry-After, without calling upstream
+ *
+ * SESSIONS:
+ * Every reply carries session_id and a freshly signed session_token. Sending
+ * the token back continues the same upstream session (conversation memory);
+ * omitting it or sending an invalid or expired one starts a new one. Requests can't
+ * name a session_id: one in the body gets 400 INVALID_REQUEST pointing to
+ * session_token - see @/utils/sessions.
+ *
+ * VISITORS:
+ * Requests without a user_id are sent upstream as `anon-<id>`, using the
+ * anonymous ID cookie; visitors without one get a new ID in a Set-Cookie
+ * header on the reply - see @/utils/identity.
+ *
+ * UPSTREAM:
+ * The reply comes from the provider configured for the agent (Lyzr by
+ * default, OpenAI-compatible or local fixtures) - see @/utils/providers.
+ *
  * PARSING STRATEGIES (Applied in order):
+ * Each is a stage of @/utils/responsePipeline; agents can pick their own
+ * list with `pipeline` in the registry.
  * 1. Preprocessing: Removes \n, \r, \t escapes and code block markers
- * 2. Direct parse: Fast JSON.parse for well-formed JSON
- * 3. Advanced parse: parseLLMJson with automatic fixes for:
+ *    Agents that declare a non-JSON `format` (YAML, tagged sections, a
+ *    markdown table) are read with parseLLMStructured right after unescaping
+ * 2. Schema-guided parse: the first JSON value that matches the agent's output
+ *    schema (@/utils/agentOutput), after coercing near-misses such as "42"
+ *    for a number - reported as `validated` with the `coercions` applied
+ * 3. Direct parse: Fast JSON.parse for well-formed JSON
+ * 4. Advanced parse: parseLLMJsonDetailed - extraction from mixed text plus a
+ *    lenient parser for:
  *    - Trailing commas
  *    - Unquoted keys
- *    - Single quotes to double quotes
+ *    - Single quotes
  *    - Python values (True/False/None)
  *    - Single-line and multi-line comments
  *    - BOM characters
- * 4. Extraction: Finds and parses JSON from mixed text
- * 5. Last resort: Aggressive parsing with all fixes enabled
+ *
+ * Every reply carries `parse` diagnostics: whether it was structured, which
+ * strategy found the JSON, the repairs applied and any warnings.
  *
  * HANDLES EDGE CASES:
  * - Response wrapped in markdown code blocks
@@ -38,164 +125,303 @@ import parseLLMJson from '@/utils/jsonParser'
  * ✅ {response: "stringified json"}
  * ✅ Plain text without JSON
  *
- * @returns {success, response, raw_response, agent_id, user_id, session_id, timestamp}
+ * STREAMING (Accept: text/event-stream):
+ * Forwards the upstream reply as it is generated, as Server-Sent Events:
+ * - event: token  → {delta} for each chunk of text
+ * - event: final  → the same body the JSON mode returns, with the parsed response
+ * - event: error  → {success: false, error, details} if the stream breaks
+ * Failures before the first byte (validation, upstream status) stay plain JSON.
+ *
+ * @returns {success, response, parse, raw_response, agent_id, user_id, session_id, session_token, timestamp}
  */
 
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
-
-// API key from environment variable only - NO hardcoded fallback!
-const LYZR_API_KEY = process.env.LYZR_API_KEY
-
-export async function POST(request: NextRequest) {
-  try {
-    // Check API key is configured
-    if (!LYZR_API_KEY) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'LYZR_API_KEY not configured in .env.local',
-        },
-        { status: 500 }
-      )
-    }
-
-    const body = await request.json()
-    const { message, agent_id, user_id, session_id } = body
+/**
+ * How to read an agent's replies, and what they are supposed to contain
+ */
+interface ReplyHandling {
+  pipeline: ResponsePipeline
+  schema?: z.ZodType
+  /** Declared reply format, when not JSON */
+  format?: StructuredFormat
+}
 
-    // Validate required fields
-    if (!message || !agent_id) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Missing required fields: message and agent_id are required',
-        },
-        { status: 400 }
-      )
-    }
+/**
+ * BULLETPROOF JSON PARSING with multiple strategies
+ * Runs the agent's reply pipeline (@/utils/responsePipeline); how the reply
+ * was (or wasn't) structured goes back to the client as `parse`.
+ */
+function parseAgentResponse(raw: unknown, reply: ReplyHandling): { response: unknown; parse: ParseDiagnostics } {
+  const { response, parse } = reply.pipeline.run(raw, { schema: reply.schema, format: reply.format })
+  return { response, parse }
+}
 
-    // Call Lyzr API with server-side API key (secure!)
-    const response = await fetch(LYZR_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
-      body: JSON.stringify({
-        user_id: user_id || `user-${Date.now()}`,
-        agent_id,
-        session_id: session_id || `session-${Date.now()}`,
-        message,
-      }),
+/**
+ * Remember a newly created anonymous ID in the visitor's cookie (@/utils/identity)
+ */
+function withAnonymousId(response: NextResponse, request: Request, visitor: { id: string; isNew: boolean }) {
+  if (visitor.isNew) {
+    response.cookies.set(ANONYMOUS_ID_COOKIE, visitor.id, {
+      path: '/',
+      maxAge: ANONYMOUS_ID_MAX_AGE_SECONDS,
+      sameSite: 'lax',
+      secure: new URL(request.url).protocol === 'https:',
     })
+  }
+  return response
+}
 
-    if (response.ok) {
-      const data = await response.json()
+type IdempotentClaim = Extract<IdempotencyOutcome, { kind: 'claimed' }>
 
-      // BULLETPROOF JSON PARSING with multiple strategies
-      let parsedResponse = data.response
+// Running requests free their keys within seconds, usually
+const IDEMPOTENCY_RETRY_AFTER_SECONDS = 1
 
-      if (typeof data.response === 'string') {
-        try {
-          // STRATEGY 1: Clean up common LLM response issues
-          let cleaned = data.response
+function errorResponse(
+  status: number,
+  code: AgentErrorCode,
+  error: string,
+  extra: Pick<AIAgentResponse, 'details' | 'issues' | 'retry_after'> = {},
+  headers?: Record<string, string>
+) {
+  const body: AIAgentResponse = { success: false, error, code, ...extra }
+  return NextResponse.json(body, { status, headers })
+}
 
-          // Remove literal \n, \r, \t escape sequences (not actual newlines!)
-          cleaned = cleaned.replace(/\\n/g, '\n')
-          cleaned = cleaned.replace(/\\r/g, '\r')
-          cleaned = cleaned.replace(/\\t/g, '\t')
+/**
+ * Streaming mode: forward upstream tokens as SSE, then send the parsed
+ * result as a final event once the reply is complete.
+ */
+async function streamAgentResponse(
+  provider: AgentProvider,
+  upstreamRequest: ProviderRequest,
+  ids: { agent_id: string; user_id?: string; session_id: string; session_token: string },
+  reply: ReplyHandling,
+  signal: AbortSignal,
+  claim?: IdempotentClaim
+) {
+  const chunks = await provider.stream(upstreamRequest, { signal })
 
-          // Remove markdown code blocks (```json, ```, etc.)
-          cleaned = cleaned.replace(/^```(?:json|JSON)?\s*\n?/gm, '')
-          cleaned = cleaned.replace(/\n?```\s*$/gm, '')
+  const encoder = new TextEncoder()
+  // Set once the client goes away; the controller throws on anything after that
+  let closed = false
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed || signal.aborted) return
+        try {
+          controller.enqueue(encoder.encode(encodeSSE(event, data)))
+        } catch {
+          closed = true
+        }
+      }
 
-          // Trim whitespace
-          cleaned = cleaned.trim()
+      let fullText = ''
+      try {
+        for await (const delta of chunks) {
+          fullText += delta
+          send('token', { delta })
+          // A long reply mustn't outlive its claim, or a repeat would call upstream again
+          await claim?.renew()
+        }
 
-          // STRATEGY 2: Try direct JSON.parse first (fastest)
+        const body: AIAgentResponse = {
+          success: true,
+          ...parseAgentResponse(fullText, reply),
+          raw_response: fullText,
+          ...ids,
+          timestamp: new Date().toISOString(),
+        }
+        send('final', body)
+        await claim?.complete({ status: 200, body })
+      } catch (error) {
+        await claim?.release()
+        console.error('AI Agent stream error:', error)
+        const body: AIAgentResponse = {
+          success: false,
+          error: 'Upstream stream interrupted',
+          code: 'STREAM_INTERRUPTED',
+          details: error instanceof Error ? error.message : String(error),
+        }
+        send('error', body)
+      } finally {
+        if (!closed) {
+          closed = true
           try {
-            const directParse = JSON.parse(cleaned)
-            if (directParse && typeof directParse === 'object') {
-              parsedResponse = directParse
-              console.log('✅ Direct JSON.parse succeeded')
-            }
-          } catch (directError) {
-            // STRATEGY 3: Use advanced parseLLMJson for complex cases
-            console.log('⚙️ Trying advanced parseLLMJson...')
-            const parsed = parseLLMJson(cleaned, {
-              attemptFix: true,
-              maxBlocks: 5,
-              preferFirst: true,
-              allowPartial: false
-            })
-
-            if (parsed && typeof parsed === 'object') {
-              parsedResponse = parsed
-              console.log('✅ parseLLMJson succeeded')
-            } else {
-              // STRATEGY 4: Try extracting JSON from anywhere in the string
-              const jsonMatch = cleaned.match(/\{[\s\S]*\}|\[[\s\S]*\]/)
-              if (jsonMatch) {
-                try {
-                  const extracted = JSON.parse(jsonMatch[0])
-                  if (extracted && typeof extracted === 'object') {
-                    parsedResponse = extracted
-                    console.log('✅ JSON extraction succeeded')
-                  }
-                } catch (extractError) {
-                  // STRATEGY 5: Last resort - use parseLLMJson on extracted portion
-                  const lastResort = parseLLMJson(jsonMatch[0], { attemptFix: true })
-                  if (lastResort && typeof lastResort === 'object') {
-                    parsedResponse = lastResort
-                    console.log('✅ Last resort parsing succeeded')
-                  } else {
-                    console.log('ℹ️ All parsing strategies failed, keeping original response')
-                  }
-                }
-              } else {
-                console.log('ℹ️ No JSON found in response, keeping as-is')
-              }
-            }
+            controller.close()
+          } catch {
+            // Cancelled by the client in the meantime
           }
-        } catch (e) {
-          console.error('Error during JSON parsing:', e)
-          // Keep original response on any error
         }
-      } else if (typeof data.response === 'object' && data.response !== null) {
-        // Already an object, use as-is
-        parsedResponse = data.response
-        console.log('✅ Response already an object')
       }
+    },
+    cancel() {
+      closed = true
+    },
+  })
+
+  return new NextResponse(stream, { headers: SSE_HEADERS })
+}
+
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return errorResponse(400, 'INVALID_JSON', 'Request body must be valid JSON')
+  }
+
+  // Validate fields against the shared contract
+  const parsed = AIAgentRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    return errorResponse(400, 'INVALID_REQUEST', 'Invalid request body', {
+      issues: formatIssues(parsed.error),
+    })
+  }
+
+  const idempotencyKey = request.headers.get(IDEMPOTENCY_KEY_HEADER)
+  if (idempotencyKey !== null && !isIdempotencyKey(idempotencyKey)) {
+    return errorResponse(400, 'INVALID_REQUEST', 'Invalid request headers', {
+      issues: { [IDEMPOTENCY_KEY_HEADER]: [`${IDEMPOTENCY_KEY_HEADER} must be 1-255 visible ASCII characters`] },
+    })
+  }
+
+  // Held while this request answers for its Idempotency-Key; released if it fails
+  let claim: IdempotentClaim | undefined
+
+  try {
+    const { message, user_id } = parsed.data
+
+    // Allowlist: only registered agents
+    const agent = findAgent(parsed.data.agent_id)
+    if (!agent) {
+      return errorResponse(404, 'UNKNOWN_AGENT', `Unknown agent: ${parsed.data.agent_id}`)
+    }
+    const agent_id = agent.key
+    const reply: ReplyHandling = {
+      pipeline: createResponsePipeline(agent.pipeline),
+      schema: AGENT_OUTPUTS[agent.output].schema,
+      format: agent.format,
+    }
+
+    // Callers without a user_id are known by their anonymous ID cookie, so
+    // upstream sees one visitor across messages
+    const cookieId = readAnonymousIdCookie(request.headers.get('cookie'))
+    const visitor = { id: cookieId || createAnonymousId(), isNew: !cookieId }
+
+    // Repeats of an answered request are replayed before they cost anything.
+    // Keys belong to the visitor who sent them, so nobody else can replay an answer
+    if (idempotencyKey !== null) {
+      const idempotency = createIdempotency({ store: getIdempotencyStore(), ttlMs: getIdempotencyTtlMs() })
+      const outcome = await idempotency.begin(
+        `${visitor.id}:${idempotencyKey}`,
+        fingerprintRequest({ ...parsed.data, agent_id }),
+        request.signal
+      )
+      if (outcome.kind === 'replay') {
+        const { status, body } = outcome.response
+        return withAnonymousId(
+          NextResponse.json(body, { status, headers: { [IDEMPOTENCY_REPLAYED_HEADER]: 'true' } }),
+          request,
+          visitor
+        )
+      }
+      if (outcome.kind === 'conflict') {
+        return errorResponse(
+          422,
+          'IDEMPOTENCY_KEY_REUSED',
+          `${IDEMPOTENCY_KEY_HEADER} was already used for a different request`
+        )
+      }
+      if (outcome.kind === 'in-progress') {
+        return errorResponse(409, 'IDEMPOTENCY_IN_PROGRESS', 'A request with this key is still in progress')
+      }
+      if (outcome.kind === 'unavailable') {
+        return errorResponse(
+          503,
+          'IDEMPOTENCY_UNAVAILABLE',
+          'Too many requests are in progress to take another Idempotency-Key',
+          { retry_after: IDEMPOTENCY_RETRY_AFTER_SECONDS },
+          { 'Retry-After': String(IDEMPOTENCY_RETRY_AFTER_SECONDS) }
+        )
+      }
+      claim = outcome
+    }
 
-      return NextResponse.json({
-        success: true,
-        response: parsedResponse, // ✅ Bulletproof parsed response!
-        raw_response: data.response, // Keep original for debugging
-        agent_id,
-        user_id,
-        session_id,
-        timestamp: new Date().toISOString(),
-      })
-    } else {
-      const errorText = await response.text()
-      return NextResponse.json(
-        {
-          success: false,
-          error: `API returned status ${response.status}`,
-          details: errorText,
-        },
-        { status: response.status }
+    // Throttle before spending upstream quota
+    const rateLimiter = createRateLimiter({ rules: getRateLimitRules(), store: getRateLimitStore() })
+    const limit = await rateLimiter.check({ ip: getClientIp(request), visitor_id: cookieId, agent_id })
+    if (!limit.allowed) {
+      await claim?.release()
+      return errorResponse(
+        429,
+        'RATE_LIMITED',
+        'Too many requests',
+        { details: `Rate limit exceeded (${limit.scope})`, retry_after: limit.retryAfterSeconds },
+        { 'Retry-After': String(limit.retryAfterSeconds) }
       )
     }
+
+    // Provider configured for this agent (API keys stay on the server)
+    const provider = getProviderForAgent(agent.upstreamId, process.env, agent.provider)
+
+    // Continue the caller's conversation, or start a new one
+    const session = resolveSession({ agent_id, session_token: parsed.data.session_token })
+
+    const upstreamRequest: ProviderRequest = {
+      message,
+      agent_id: agent.upstreamId,
+      user_id: user_id || anonymousUserId(visitor.id),
+      session_id: session.session_id,
+    }
+
+    if (acceptsEventStream(request)) {
+      const ids = { agent_id, user_id, ...session }
+      const stream = await streamAgentResponse(provider, upstreamRequest, ids, reply, request.signal, claim)
+      return withAnonymousId(stream, request, visitor)
+    }
+
+    const rawResponse = await provider.complete(upstreamRequest, { signal: request.signal })
+    const { response, parse } = parseAgentResponse(rawResponse, reply)
+
+    const result: AIAgentResponse = {
+      success: true,
+      response, // ✅ Bulletproof parsed response!
+      parse, // How it was (or wasn't) structured
+      raw_response: rawResponse, // Keep original for debugging
+      agent_id,
+      user_id,
+      ...session,
+      timestamp: new Date().toISOString(),
+    }
+    await claim?.complete({ status: 200, body: result })
+    return withAnonymousId(NextResponse.json(result), request, visitor)
   } catch (error) {
+    await claim?.release()
+    if (error instanceof ProviderConfigError) {
+      return errorResponse(500, 'PROVIDER_NOT_CONFIGURED', error.message)
+    }
+    if (error instanceof CircuitOpenError) {
+      const retryAfter = Math.max(1, Math.ceil(error.retryAfterMs / 1000))
+      return errorResponse(
+        503,
+        'UPSTREAM_UNAVAILABLE',
+        'The AI agent is temporarily unavailable',
+        { details: error.message, retry_after: retryAfter },
+        { 'Retry-After': String(retryAfter) }
+      )
+    }
+    if (error instanceof TimeoutError) {
+      return errorResponse(504, 'UPSTREAM_TIMEOUT', 'The AI agent took too long to respond', {
+        details: error.message,
+      })
+    }
+    if (error instanceof UpstreamError) {
+      return errorResponse(error.status, 'UPSTREAM_ERROR', error.message, { details: error.details })
+    }
+
     console.error('AI Agent API error:', error)
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Internal server error',
-        details: error instanceof Error ? error.message : String(error),
-      },
-      { status: 500 }
-    )
+    return errorResponse(500, 'INTERNAL_ERROR', 'Internal server error', {
+      details: error instanceof Error ? error.message : String(error),
+    })
   }
 }
 
@@ -206,7 +432,7 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': `Content-Type, Accept, ${IDEMPOTENCY_KEY_HEADER}`,
     },
   })
 }
@@ -0,0 +1,17 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { GET } from './route'
+
+describe('/api/agents', () => {
+  it('lists registered agents without upstream details', async () => {
+    const response = await GET()
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.success).toBe(true)
+    expect(data.agents.map((agent: any) => agent.key)).toEqual(['support', 'sales'])
+    expect(data.agents[0]).toMatchObject({ title: 'Amadeo Support', output: 'support' })
+    expect(JSON.stringify(data)).not.toContain('693050ee2bb6b2ddb363e3cb')
+    expect(data.agents[0]).not.toHaveProperty('upstreamId')
+  })
+})
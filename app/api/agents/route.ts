@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { getAgentRegistry, toPublicAgent } from '@/utils/agentRegistry'
+
+/**
+ * GET /api/agents
+ * Lists the agents the widget can talk to, in display order.
+ * Only display fields are exposed - upstream IDs and provider settings stay
+ * on the server.
+ *
+ * @returns {success, agents: [{key, name, title, subtitle, icon, welcomeMessage, suggestions, output}]}
+ */
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    agents: getAgentRegistry().map(toPublicAgent),
+  })
+}
@@ -1,76 +1,158 @@
 'use client'
 
-import { useState, useRef, useEffect } from 'react'
-import { MessageCircle, Send, X, Minus, ThumbsUp, ThumbsDown, Loader2, HelpCircle, TrendingUp } from 'lucide-react'
+import { useState, useRef, useEffect, useMemo } from 'react'
+import {
+  MessageCircle, Send, X, Minus, ThumbsUp, ThumbsDown, Square,
+  HelpCircle, TrendingUp, UserPlus, ShieldCheck, Handshake, type LucideIcon
+} from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
-
-interface Message {
-  id: string
-  text: string
-  sender: 'user' | 'agent'
-  timestamp: Date
-  feedback?: 'up' | 'down' | null
+import { useAgentConversation } from '@/hooks/use-agent-conversation'
+import { createAgentClient, type AgentFailure } from '@/utils/agentClient'
+import { MAX_MESSAGE_LENGTH } from '@/utils/agentContract'
+import { AGENT_OUTPUTS, isAgentOutputName, type KnownAgentOutput } from '@/utils/agentOutput'
+import type { AgentIconName, PublicAgent } from '@/utils/agentRegistry'
+import { createChatHistory, getChatHistoryStore, type ChatConversation, type ChatHistory } from '@/utils/chatHistory'
+
+type Conversation = ChatConversation
+
+// More agents than this are picked from a dropdown instead of tabs
+const MAX_AGENT_TABS = 3
+
+// Icons for the names agents use in the registry
+const AGENT_ICONS: Record<AgentIconName, LucideIcon> = {
+  'help-circle': HelpCircle,
+  'trending-up': TrendingUp,
+  'user-plus': UserPlus,
+  'shield-check': ShieldCheck,
+  handshake: Handshake,
+  'message-circle': MessageCircle,
 }
 
-interface AgentResponse {
-  response: string
-  status: string
-  confidence: number
-  suggested_followups?: string[]
-  metadata?: {
-    topic: string
-    sources_used: string[]
-    timestamp: string
+const WELCOME_MESSAGE_ID = 'welcome'
+
+function startConversation(agent: PublicAgent): Conversation {
+  return {
+    messages: [{ id: WELCOME_MESSAGE_ID, text: agent.welcomeMessage, sender: 'agent', timestamp: new Date() }],
+    suggestions: agent.suggestions,
   }
 }
 
-const SUPPORT_AGENT_CONFIG = {
-  id: '693050ee2bb6b2ddb363e3cb',
-  name: 'Support',
-  title: 'Amadeo Support',
-  subtitle: 'Customer Support',
-  icon: HelpCircle,
-  welcomeMessage: 'Hi there! I\'m Amadeo Support Assistant. I\'m here to answer any questions about Amadeo Banking AI Agent. You can ask me about features, capabilities, integrations, pricing, or use cases. What would you like to know?',
-  suggestions: [
-    'What is Amadeo?',
-    'What are the key features?',
-    'How does integration work?',
-    'What use cases are supported?'
-  ]
+/**
+ * Nothing has happened in the conversation beyond the welcome message
+ */
+function isUntouched(conversation: Conversation): boolean {
+  return conversation.messages.every(message => message.id === WELCOME_MESSAGE_ID)
 }
 
-const SALES_AGENT_CONFIG = {
-  id: '693053006faee4d469e8a424',
-  name: 'Sales',
-  title: 'Amadeo Sales Copilot',
-  subtitle: 'Sales Development',
-  icon: TrendingUp,
-  welcomeMessage: 'Welcome! I\'m your Amadeo Sales Copilot. I\'m here to help you close more deals by providing sales strategies, objection handling, competitive positioning, and pitch preparation. How can I assist with your sales efforts today?',
-  suggestions: [
-    'How do I pitch Amadeo to a prospect?',
-    'How do I handle common objections?',
-    'What\'s Amadeo\'s competitive advantage?',
-    'Can you help me prepare a sales deck?'
-  ]
+/**
+ * Shown under a user message that couldn't be answered
+ */
+function describeFailure(error: AgentFailure | undefined): string {
+  switch (error?.code) {
+    case 'ABORTED':
+      return 'Cancelled'
+    case 'NETWORK_ERROR':
+      return 'Couldn\'t connect'
+    case 'RATE_LIMITED':
+      return `You're sending messages a little quickly. Please wait ${error.retryAfter || 30} seconds and then ask again.`
+    case 'SCHEMA_MISMATCH':
+      return 'Reply came in an unexpected format'
+    default:
+      return 'Couldn\'t get an answer'
+  }
 }
 
 export default function ChatWidget() {
   const [isOpen, setIsOpen] = useState(false)
-  const [activeAgent, setActiveAgent] = useState<'support' | 'sales'>('support')
-  const [supportMessages, setSupportMessages] = useState<Message[]>([])
-  const [salesMessages, setSalesMessages] = useState<Message[]>([])
+  // Agents come from the server-owned registry (GET /api/agents)
+  const [agents, setAgents] = useState<PublicAgent[]>([])
+  const [activeAgent, setActiveAgent] = useState<string>('')
+  // Conversations by agent key, started when an agent is first shown
+  const [conversations, setConversations] = useState<Record<string, Conversation>>({})
+  // Last ended conversation per agent, offered for restore
+  const [endedConversations, setEndedConversations] = useState<Record<string, Conversation>>({})
+  const historyRef = useRef<ChatHistory | null>(null)
+  const savedRef = useRef<Record<string, Conversation> | null>(null)
   const [inputValue, setInputValue] = useState('')
-  const [isLoading, setIsLoading] = useState(false)
-  const [suggestedQuestions, setSuggestedQuestions] = useState<string[]>(SUPPORT_AGENT_CONFIG.suggestions)
+  // Set when /api/agent rate-limits us - sending is paused until then
+  const [cooldownUntil, setCooldownUntil] = useState<number | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const [unreadCount, setUnreadCount] = useState(0)
 
   // Get current messages and config based on active agent
-  const currentConfig = activeAgent === 'support' ? SUPPORT_AGENT_CONFIG : SALES_AGENT_CONFIG
-  const messages = activeAgent === 'support' ? supportMessages : salesMessages
-  const setMessages = activeAgent === 'support' ? setSupportMessages : setSalesMessages
+  const currentConfig = agents.find(agent => agent.key === activeAgent)
+  const conversation = conversations[activeAgent]
+  const messages = useMemo(() => conversation?.messages || [], [conversation])
+  const suggestedQuestions = conversation?.suggestions || []
+  const AgentIcon = currentConfig ? AGENT_ICONS[currentConfig.icon] : MessageCircle
+  // Reads replies against each agent's declared output schema
+  const agentClient = useMemo(() => {
+    const outputs: Record<string, KnownAgentOutput> = {}
+    for (const agent of agents) outputs[agent.key] = AGENT_OUTPUTS[agent.output]
+    return createAgentClient({ agents: outputs })
+  }, [agents])
+
+  // Load the agent list once
+  useEffect(() => {
+    fetch('/api/agents')
+      .then(response => response.json())
+      .then(data => {
+        if (!data.success) return
+        // Without a known output spec, replies couldn't be read: leave the agent out
+        const known = (data.agents as PublicAgent[]).filter(agent => {
+          if (isAgentOutputName(agent.output)) return true
+          console.error(`Agent "${agent.key}" has an unknown output spec "${agent.output}"; it is not shown`)
+          return false
+        })
+        if (known.length > 0) {
+          setAgents(known)
+          setActiveAgent(known[0].key)
+        }
+      })
+      .catch(error => console.error('Error loading agents:', error))
+  }, [])
+
+  // Restore saved conversations once, before anything is saved
+  useEffect(() => {
+    const history = createChatHistory(getChatHistoryStore())
+    history
+      .load()
+      .then(({ active, ended }) => {
+        historyRef.current = history
+        // A conversation started while loading wins only once it has more than the welcome
+        setConversations(prev => {
+          const restored = { ...prev }
+          for (const [agentKey, saved] of Object.entries(active)) {
+            if (!prev[agentKey] || isUntouched(prev[agentKey])) restored[agentKey] = saved
+          }
+          return restored
+        })
+        setEndedConversations(ended)
+      })
+      .catch(error => {
+        historyRef.current = history
+        console.error('Error loading chat history:', error)
+      })
+  }, [])
+
+  // Save conversations that changed since the last save. One waiting for its
+  // reply changes with every streamed token; it is saved once the reply settles
+  useEffect(() => {
+    const history = historyRef.current
+    if (!history) return
+
+    const saved = savedRef.current || {}
+    for (const [agentKey, conversation] of Object.entries(conversations)) {
+      const settled = !conversation.messages.some(message => message.status === 'pending')
+      if (settled && saved[agentKey] !== conversation) {
+        history.save(agentKey, conversation).catch(error => console.error('Error saving chat history:', error))
+      }
+    }
+    savedRef.current = conversations
+  }, [conversations])
 
   // Auto-scroll to latest message
   useEffect(() => {
@@ -79,39 +161,62 @@ export default function ChatWidget() {
 
   // Initialize with welcome message when opening or switching agents
   useEffect(() => {
-    if (isOpen && messages.length === 0) {
-      setMessages([
-        {
-          id: '1',
-          text: currentConfig.welcomeMessage,
-          sender: 'agent',
-          timestamp: new Date()
-        }
-      ])
-      setSuggestedQuestions(currentConfig.suggestions)
+    if (isOpen && currentConfig && !conversations[currentConfig.key]) {
+      setConversations(prev => ({ ...prev, [currentConfig.key]: startConversation(currentConfig) }))
     }
-  }, [isOpen, activeAgent])
+  }, [isOpen, currentConfig, conversations])
+
+  // Update one agent's conversation (replies land in the conversation that asked)
+  const updateConversation = (agentKey: string, update: (conversation: Conversation) => Conversation) => {
+    setConversations(prev => {
+      const current = prev[agentKey] || { messages: [], suggestions: [] }
+      return { ...prev, [agentKey]: update(current) }
+    })
+  }
+
+  // Messages, session and requests of the active agent's conversation
+  const chat = useAgentConversation({
+    agent: currentConfig ? agentClient[currentConfig.key] : undefined,
+    conversation,
+    onConversationChange: updateConversation,
+    createConversation: agentKey => {
+      const agent = agents.find(candidate => candidate.key === agentKey)
+      return agent ? startConversation(agent) : { messages: [], suggestions: [] }
+    },
+    onError: error => {
+      // Friendly cooldown instead of an error
+      if (error.code === 'RATE_LIMITED') setCooldownUntil(Date.now() + (error.retryAfter || 30) * 1000)
+    },
+  })
+  const { isLoading, isStreaming } = chat
 
   // Handle agent switching
-  const handleAgentSwitch = (agent: 'support' | 'sales') => {
-    setActiveAgent(agent)
-    const targetMessages = agent === 'support' ? supportMessages : salesMessages
-    const config = agent === 'support' ? SUPPORT_AGENT_CONFIG : SALES_AGENT_CONFIG
-
-    // Initialize welcome message if no messages in target agent
-    if (targetMessages.length === 0) {
-      setMessages([
-        {
-          id: '1',
-          text: config.welcomeMessage,
-          sender: 'agent',
-          timestamp: new Date()
-        }
-      ])
+  const handleAgentSwitch = (agent: string) => {
+    if (agents.some(candidate => candidate.key === agent)) {
+      setActiveAgent(agent)
     }
-    setSuggestedQuestions(config.suggestions)
   }
 
+  // Bring back the last ended conversation with this agent
+  const restorableConversation = !conversation?.sessionId ? endedConversations[activeAgent] : undefined
+  const handleRestore = () => {
+    if (!restorableConversation) return
+    historyRef.current
+      ?.resume(activeAgent, restorableConversation)
+      .catch(error => console.error('Error saving chat history:', error))
+    setConversations(prev => ({ ...prev, [activeAgent]: restorableConversation }))
+    setEndedConversations(({ [activeAgent]: _restored, ...rest }) => rest)
+  }
+
+  // Lift the rate-limit cooldown once it has passed
+  useEffect(() => {
+    if (cooldownUntil === null) return
+    const timer = setTimeout(() => setCooldownUntil(null), Math.max(0, cooldownUntil - Date.now()))
+    return () => clearTimeout(timer)
+  }, [cooldownUntil])
+
+  const isCoolingDown = cooldownUntil !== null
+
   // Reset unread count when opening
   useEffect(() => {
     if (isOpen) {
@@ -119,123 +224,21 @@ export default function ChatWidget() {
     }
   }, [isOpen])
 
-  const handleSendMessage = async (messageText: string = inputValue) => {
-    if (!messageText.trim()) return
-
-    // Add user message
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      text: messageText,
-      sender: 'user',
-      timestamp: new Date()
-    }
-
-    setMessages(prev => [...prev, userMessage])
+  const handleSendMessage = (messageText: string = inputValue) => {
+    if (!messageText.trim() || isCoolingDown || !currentConfig) return
     setInputValue('')
-    setIsLoading(true)
-    setSuggestedQuestions([])
-
-    try {
-      // Call the appropriate agent API based on active agent
-      const response = await fetch('/api/agent', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          message: messageText,
-          agent_id: currentConfig.id
-        })
-      })
-
-      const data = await response.json()
-
-      // Add agent response with robust parsing for different agent formats
-      if (data.success) {
-        let responseText = ''
-        let followups: string[] = []
-
-        // Handle different response formats
-        if (typeof data.response === 'string') {
-          responseText = data.response
-        } else if (data.response && typeof data.response === 'object') {
-          // Support Agent format: data.response.response
-          responseText = data.response.response
-
-          // Sales Agent format: data.response.sales_guidance.main_response
-          if (!responseText && data.response.sales_guidance?.main_response) {
-            responseText = data.response.sales_guidance.main_response
-          }
-
-          // Fallback: data.response.message or data.response.text
-          if (!responseText) {
-            responseText = data.response.message
-              ?? data.response.text
-              ?? (typeof data.response === 'string' ? data.response : '')
-          }
-
-          // Extract suggested follow-ups - Support Agent format
-          if (data.response.suggested_followups && Array.isArray(data.response.suggested_followups)) {
-            followups = data.response.suggested_followups.filter((q: string) => q && q.trim().length > 0)
-          }
-
-          // Extract suggested follow-ups - Sales Agent format
-          if (!followups.length && data.response.sales_guidance?.suggested_questions && Array.isArray(data.response.sales_guidance.suggested_questions)) {
-            followups = data.response.sales_guidance.suggested_questions.filter((q: string) => q && q.trim().length > 0)
-          }
-        }
-
-        // Fallback if we couldn't extract text
-        if (!responseText || responseText.trim().length === 0) {
-          responseText = "I understood your question. Please feel free to ask follow-up questions if you need more information."
-        }
-
-        const agentMessage: Message = {
-          id: (Date.now() + 1).toString(),
-          text: responseText.trim(),
-          sender: 'agent',
-          timestamp: new Date(),
-          feedback: null
-        }
-
-        setMessages(prev => [...prev, agentMessage])
-
-        // Set suggested follow-ups if available
-        if (followups.length > 0) {
-          setSuggestedQuestions(followups)
-        }
-      } else {
-        // Handle error response
-        const errorMessage: Message = {
-          id: (Date.now() + 1).toString(),
-          text: "I'm having trouble processing your question. Please try again.",
-          sender: 'agent',
-          timestamp: new Date(),
-          feedback: null
-        }
-        setMessages(prev => [...prev, errorMessage])
-      }
-    } catch (error) {
-      console.error('Error calling agent:', error)
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        text: "I'm having trouble connecting. Please try again later.",
-        sender: 'agent',
-        timestamp: new Date(),
-        feedback: null
-      }
-      setMessages(prev => [...prev, errorMessage])
-    } finally {
-      setIsLoading(false)
-    }
+    chat.send(messageText)
   }
 
   const handleFeedback = (messageId: string, feedback: 'up' | 'down') => {
-    setMessages(prev =>
-      prev.map(msg =>
+    updateConversation(activeAgent, conversation => ({
+      ...conversation,
+      messages: conversation.messages.map(msg =>
         msg.id === messageId
           ? { ...msg, feedback: msg.feedback === feedback ? null : feedback }
           : msg
-      )
-    )
+      ),
+    }))
   }
 
   const handleQuickReply = (question: string) => {
@@ -277,11 +280,11 @@ export default function ChatWidget() {
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
             <div className="w-10 h-10 bg-white bg-opacity-20 rounded-full flex items-center justify-center">
-              {currentConfig.icon && <currentConfig.icon size={20} />}
+              <AgentIcon size={20} />
             </div>
             <div>
-              <h2 className="font-semibold text-white">{currentConfig.title}</h2>
-              <p className="text-xs text-blue-100">{currentConfig.subtitle}</p>
+              <h2 className="font-semibold text-white">{currentConfig?.title || 'Amadeo'}</h2>
+              <p className="text-xs text-blue-100">{currentConfig?.subtitle || 'Connecting...'}</p>
             </div>
           </div>
           <div className="flex items-center gap-2">
@@ -294,9 +297,16 @@ export default function ChatWidget() {
             </button>
             <button
               onClick={() => {
+                // Ending the conversation also ends its sessions; history keeps them for restore.
+                // Stop their requests first, so a late reply can't bring an ended session back
+                Object.keys(conversations).forEach(agentKey => chat.reset(agentKey))
+                const ended = Object.entries(conversations).filter(([, conversation]) => conversation.sessionId)
+                ended.forEach(([agentKey, conversation]) => {
+                  historyRef.current?.end(agentKey, conversation).catch(error => console.error('Error saving chat history:', error))
+                })
                 setIsOpen(false)
-                setSupportMessages([])
-                setSalesMessages([])
+                setEndedConversations(prev => ({ ...prev, ...Object.fromEntries(ended) }))
+                setConversations({})
               }}
               className="hover:bg-blue-500 p-1.5 rounded transition"
               aria-label="Close chat"
@@ -306,17 +316,41 @@ export default function ChatWidget() {
           </div>
         </div>
 
-        {/* Agent Tabs */}
-        <Tabs value={activeAgent} onValueChange={(value) => handleAgentSwitch(value as 'support' | 'sales')} className="w-full">
-          <TabsList className="w-full bg-blue-500 bg-opacity-40 border-0">
-            <TabsTrigger value="support" className="flex-1 text-xs data-[state=active]:bg-blue-400 data-[state=active]:text-white text-blue-100">
-              Support
-            </TabsTrigger>
-            <TabsTrigger value="sales" className="flex-1 text-xs data-[state=active]:bg-blue-400 data-[state=active]:text-white text-blue-100">
-              Sales Copilot
-            </TabsTrigger>
-          </TabsList>
-        </Tabs>
+        {/* Agent picker: tabs for a few agents, a dropdown beyond that */}
+        {agents.length > MAX_AGENT_TABS ? (
+          <Select value={activeAgent} onValueChange={handleAgentSwitch}>
+            <SelectTrigger className="w-full h-8 text-xs bg-blue-500 bg-opacity-40 border-0 text-white" aria-label="Choose agent">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {agents.map(agent => {
+                const Icon = AGENT_ICONS[agent.icon]
+                return (
+                  <SelectItem key={agent.key} value={agent.key} className="text-xs">
+                    <span className="flex items-center gap-2">
+                      <Icon size={14} />
+                      {agent.name}
+                    </span>
+                  </SelectItem>
+                )
+              })}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Tabs value={activeAgent} onValueChange={handleAgentSwitch} className="w-full">
+            <TabsList className="w-full bg-blue-500 bg-opacity-40 border-0">
+              {agents.map(agent => (
+                <TabsTrigger
+                  key={agent.key}
+                  value={agent.key}
+                  className="flex-1 text-xs data-[state=active]:bg-blue-400 data-[state=active]:text-white text-blue-100"
+                >
+                  {agent.name}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        )}
       </div>
 
       {/* Messages Area */}
@@ -335,6 +369,11 @@ export default function ChatWidget() {
                 }`}
               >
                 <p className="text-sm leading-relaxed break-words">{message.text}</p>
+                {message.sources && message.sources.length > 0 && (
+                  <p className="text-xs mt-1.5 text-gray-500">
+                    Sources: {message.sources.join(', ')}
+                  </p>
+                )}
                 <p
                   className={`text-xs mt-1.5 ${
                     message.sender === 'user'
@@ -346,8 +385,24 @@ export default function ChatWidget() {
                     hour: '2-digit',
                     minute: '2-digit'
                   })}
+                  {message.status === 'pending' && ' · Sending...'}
+                  {message.status === 'queued' && ' · Waiting to send'}
                 </p>
 
+                {/* Failed questions can be sent again in place */}
+                {message.status === 'failed' && (
+                  <p className="text-xs mt-1 text-red-100">
+                    {describeFailure(chat.errors[message.id])} ·{' '}
+                    <button
+                      onClick={() => chat.retry(message)}
+                      disabled={isLoading || isCoolingDown}
+                      className="underline hover:text-white disabled:opacity-60"
+                    >
+                      Retry
+                    </button>
+                  </p>
+                )}
+
                 {/* Feedback buttons for agent messages */}
                 {message.sender === 'agent' && (
                   <div className="flex items-center gap-2 mt-2 pt-2 border-t border-gray-300">
@@ -379,8 +434,8 @@ export default function ChatWidget() {
             </div>
           ))}
 
-          {/* Typing indicator */}
-          {isLoading && (
+          {/* Typing indicator (until streamed text starts to show) */}
+          {isLoading && !isStreaming && (
             <div className="flex justify-start">
               <div className="bg-gray-200 text-gray-900 px-4 py-2.5 rounded-lg rounded-bl-none">
                 <div className="flex gap-1">
@@ -392,15 +447,26 @@ export default function ChatWidget() {
             </div>
           )}
 
-          {/* Quick reply suggestions */}
-          {suggestedQuestions.length > 0 && !isLoading && (
+          {/* Restore the previous conversation after it was closed */}
+          {restorableConversation && !isLoading && (
+            <button
+              onClick={handleRestore}
+              className="w-full text-xs text-blue-600 hover:text-blue-700 hover:underline"
+            >
+              Restore previous conversation
+            </button>
+          )}
+
+          {/* Quick reply suggestions (shown as soon as a streamed list completes) */}
+          {suggestedQuestions.length > 0 && (!isLoading || isStreaming) && (
             <div className="flex flex-col gap-2 mt-4">
               <p className="text-xs text-gray-600 font-medium">Suggested questions:</p>
               {suggestedQuestions.map((question, index) => (
                 <button
                   key={index}
                   onClick={() => handleQuickReply(question)}
-                  className="text-left px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-blue-50 hover:border-blue-400 transition"
+                  disabled={isLoading}
+                  className="text-left disabled:opacity-60 px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-blue-50 hover:border-blue-400 transition"
                 >
                   {question}
                 </button>
@@ -416,25 +482,34 @@ export default function ChatWidget() {
         <div className="flex gap-2">
           <Input
             type="text"
-            placeholder="Ask about Amadeo..."
+            placeholder={isCoolingDown ? 'Please wait a moment...' : 'Ask about Amadeo...'}
             value={inputValue}
             onChange={(e) => setInputValue(e.target.value)}
             onKeyDown={handleKeyDown}
+            maxLength={MAX_MESSAGE_LENGTH}
             disabled={isLoading}
             className="flex-1 text-sm"
           />
-          <Button
-            onClick={() => handleSendMessage()}
-            disabled={isLoading || !inputValue.trim()}
-            size="sm"
-            className="bg-blue-600 hover:bg-blue-700 text-white"
-          >
-            {isLoading ? (
-              <Loader2 size={18} className="animate-spin" />
-            ) : (
+          {isLoading ? (
+            <Button
+              onClick={() => chat.cancel()}
+              size="sm"
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+              aria-label="Stop"
+            >
+              <Square size={18} />
+            </Button>
+          ) : (
+            <Button
+              onClick={() => handleSendMessage()}
+              disabled={isCoolingDown || !currentConfig || !inputValue.trim()}
+              size="sm"
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+              aria-label="Send"
+            >
               <Send size={18} />
-            )}
-          </Button>
+            </Button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,312 @@
+import { describe, it, expect, vi } from 'vitest'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { useAgentConversation } from './use-agent-conversation'
+import { createAgentClient } from '@/utils/agentClient'
+import { SUPPORT_OUTPUT } from '@/utils/agentOutput'
+import { encodeSSE } from '@/utils/sse'
+
+const agent = createAgentClient({ agents: { support: SUPPORT_OUTPUT } }).support
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+const reply = (text: string) => ({
+  success: true,
+  response: { response: text, suggested_followups: ['Pricing?'] },
+  session_id: 'support-1',
+  session_token: 'token-1',
+})
+
+// A fetch that only settles when the request is aborted
+const hangingFetch = () =>
+  vi.fn(
+    (_url: string, init: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+      })
+  )
+
+describe('useAgentConversation', () => {
+  it('adds the question and reply, marking the question sent', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse(reply('Amadeo automates KYC.')))
+    const { result } = renderHook(() => useAgentConversation({ agent, fetch }))
+
+    await act(() => result.current.send('What is Amadeo?'))
+
+    expect(result.current.messages.map(({ sender, text, status }) => ({ sender, text, status }))).toEqual([
+      { sender: 'user', text: 'What is Amadeo?', status: 'sent' },
+      { sender: 'agent', text: 'Amadeo automates KYC.', status: undefined },
+    ])
+    expect(result.current.sessionId).toBe('support-1')
+    expect(result.current.suggestions).toEqual(['Pricing?'])
+
+    // The session continues with the next question
+    fetch.mockResolvedValue(jsonResponse(reply('It costs less than you think.')))
+    await act(() => result.current.send('Pricing?'))
+    expect(JSON.parse(fetch.mock.calls[1][1].body).session_token).toBe('token-1')
+  })
+
+  it('shows the message as pending while its request runs', async () => {
+    const { result } = renderHook(() => useAgentConversation({ agent, fetch: hangingFetch() }))
+
+    act(() => {
+      result.current.send('Hello?')
+    })
+
+    expect(result.current.isLoading).toBe(true)
+    expect(result.current.messages[0].status).toBe('pending')
+  })
+
+  it('marks failed messages and retries them in place', async () => {
+    const onError = vi.fn()
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ success: false, error: 'Too many requests', code: 'RATE_LIMITED', retry_after: 5 }, 429))
+      .mockResolvedValueOnce(jsonResponse(reply('Here you go.')))
+    const { result } = renderHook(() => useAgentConversation({ agent, fetch, onError }))
+
+    await act(() => result.current.send('Hello?'))
+
+    const [failed] = result.current.messages
+    expect(failed.status).toBe('failed')
+    expect(result.current.errors[failed.id]).toMatchObject({ code: 'RATE_LIMITED', retryAfter: 5 })
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'RATE_LIMITED' }), expect.objectContaining({ id: failed.id }))
+
+    await act(() => result.current.retry(failed))
+
+    expect(result.current.messages.map(message => message.status)).toEqual(['sent', undefined])
+    expect(result.current.messages[0].id).toBe(failed.id)
+    expect(result.current.errors).toEqual({})
+  })
+
+  it('keeps questions asked offline and sends them in order once back online', async () => {
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(reply('First answer')))
+      .mockResolvedValueOnce(jsonResponse(reply('Second answer')))
+    const { result, unmount } = renderHook(() => useAgentConversation({ agent, fetch }))
+
+    try {
+      await act(() => result.current.send('First?'))
+      await act(() => result.current.send('Second?'))
+
+      expect(fetch).not.toHaveBeenCalled()
+      expect(result.current.messages.map(message => message.status)).toEqual(['queued', 'queued'])
+      expect(result.current.isQueued).toBe(true)
+      expect(result.current.isLoading).toBe(false)
+
+      onLine.mockReturnValue(true)
+      act(() => {
+        window.dispatchEvent(new Event('online'))
+      })
+
+      await waitFor(() => expect(result.current.messages).toHaveLength(4))
+      expect(fetch.mock.calls.map(([, init]) => JSON.parse(init.body).message)).toEqual(['First?', 'Second?'])
+      // The second question continues the session the first one started
+      expect(JSON.parse(fetch.mock.calls[1][1].body).session_token).toBe('token-1')
+      expect(result.current.messages.map(({ text, status }) => ({ text, status }))).toEqual([
+        { text: 'First?', status: 'sent' },
+        { text: 'First answer', status: undefined },
+        { text: 'Second?', status: 'sent' },
+        { text: 'Second answer', status: undefined },
+      ])
+    } finally {
+      unmount()
+      onLine.mockRestore()
+    }
+  })
+
+  it('waits to resend a question whose request found no network', async () => {
+    const onError = vi.fn()
+    const fetch = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(jsonResponse(reply('Here you go.')))
+    const { result, unmount } = renderHook(() => useAgentConversation({ agent, fetch, onError }))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    try {
+      await act(() => result.current.send('Hello?'))
+
+      const [queued] = result.current.messages
+      expect(queued.status).toBe('queued')
+      expect(onError).not.toHaveBeenCalled()
+
+      // Asking again while it waits doesn't send it twice
+      await act(() => result.current.retry(queued))
+      act(() => {
+        window.dispatchEvent(new Event('online'))
+      })
+
+      await waitFor(() => expect(result.current.messages[0].status).toBe('sent'))
+      expect(fetch).toHaveBeenCalledTimes(2)
+      // Both attempts carry the message id, so the route answers it once if the first one arrived
+      expect(fetch.mock.calls.map(([, init]) => init.headers['Idempotency-Key'])).toEqual([queued.id, queued.id])
+      expect(result.current.messages.map(message => message.text)).toEqual(['Hello?', 'Here you go.'])
+    } finally {
+      unmount()
+      vi.mocked(console.error).mockRestore()
+    }
+  })
+
+  it('streams the reply and previews structured replies as they arrive', async () => {
+    const events = [
+      encodeSSE('token', { delta: '{"response": "Amadeo ' }),
+      encodeSSE('token', { delta: 'helps banks", "suggested_followups": ["Pricing?"]' }),
+      encodeSSE('final', reply('Amadeo helps banks')),
+    ]
+    let emit!: () => void
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const encoder = new TextEncoder()
+        controller.enqueue(encoder.encode(events[0]))
+        emit = () => {
+          controller.enqueue(encoder.encode(events[1] + events[2]))
+          controller.close()
+        }
+      },
+    })
+    const fetch = vi.fn().mockResolvedValue(new Response(body, { headers: { 'Content-Type': 'text/event-stream' } }))
+    const { result } = renderHook(() => useAgentConversation({ agent, fetch }))
+
+    let sent!: Promise<void>
+    act(() => {
+      sent = result.current.send('What is Amadeo?')
+    })
+
+    await waitFor(() => expect(result.current.messages[1]?.text).toBe('Amadeo'))
+    expect(result.current.isStreaming).toBe(true)
+
+    await act(async () => {
+      emit()
+      await sent
+    })
+    expect(result.current.messages[1].text).toBe('Amadeo helps banks')
+    expect(result.current.isStreaming).toBe(false)
+  })
+
+  it('cancels the request, leaving the message to retry', async () => {
+    const onError = vi.fn()
+    const { result } = renderHook(() => useAgentConversation({ agent, fetch: hangingFetch(), onError }))
+
+    let sent!: Promise<void>
+    act(() => {
+      sent = result.current.send('Hello?')
+    })
+    await act(async () => {
+      result.current.cancel()
+      await sent
+    })
+
+    const [message] = result.current.messages
+    expect(message.status).toBe('failed')
+    expect(result.current.errors[message.id].code).toBe('ABORTED')
+    expect(onError).not.toHaveBeenCalled()
+  })
+
+  it('aborts in-flight requests on unmount', () => {
+    const fetch = hangingFetch()
+    const { result, unmount } = renderHook(() => useAgentConversation({ agent, fetch }))
+
+    act(() => {
+      result.current.send('Hello?')
+    })
+    unmount()
+
+    expect(fetch.mock.calls[0][1].signal?.aborted).toBe(true)
+  })
+
+  it('resets to a fresh conversation', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse(reply('Hi!')))
+    const welcome = { messages: [{ id: 'welcome', text: 'Welcome', sender: 'agent' as const, timestamp: new Date() }], suggestions: [] }
+    const { result } = renderHook(() => useAgentConversation({ agent, fetch, createConversation: () => welcome }))
+
+    await act(() => result.current.send('Hello?'))
+    act(() => result.current.reset())
+
+    expect(result.current.messages.map(message => message.id)).toEqual(['welcome'])
+    expect(result.current.sessionId).toBeUndefined()
+  })
+
+  it('keeps the errors of other agents when one is reset', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse({ success: false, error: 'Too many requests', code: 'RATE_LIMITED' }, 429))
+    const { result } = renderHook(() => useAgentConversation({ agent, fetch }))
+
+    await act(() => result.current.send('Hello?'))
+    const [failed] = result.current.messages
+    act(() => result.current.reset('sales'))
+
+    expect(result.current.errors[failed.id]).toMatchObject({ code: 'RATE_LIMITED' })
+
+    act(() => result.current.reset())
+    expect(result.current.errors).toEqual({})
+  })
+
+  it('fails the message when showing the reply throws', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const broken = createAgentClient({
+      agents: {
+        support: {
+          ...SUPPORT_OUTPUT,
+          toPartialMessage: () => {
+            throw new TypeError('Cannot read properties of null')
+          },
+        },
+      },
+    }).support
+    const body = encodeSSE('token', { delta: '{"response": "Hi' }) + encodeSSE('final', reply('Hi'))
+    const fetch = vi.fn().mockResolvedValue(new Response(body, { headers: { 'Content-Type': 'text/event-stream' } }))
+    const { result } = renderHook(() => useAgentConversation({ agent: broken, fetch }))
+
+    try {
+      await act(() => result.current.send('Hello?'))
+
+      const [question] = result.current.messages
+      expect(result.current.messages).toHaveLength(1)
+      expect(question.status).toBe('failed')
+      expect(result.current.errors[question.id]).toMatchObject({ code: 'INVALID_RESPONSE' })
+      expect(result.current.isLoading).toBe(false)
+    } finally {
+      vi.mocked(console.error).mockRestore()
+    }
+  })
+
+  it('drops a reply that arrives after the conversation was reset', async () => {
+    let answer!: (response: Response) => void
+    const fetch = vi.fn((_url: string, _init: RequestInit) => new Promise<Response>(resolve => (answer = resolve)))
+    const onConversationChange = vi.fn()
+    const { result } = renderHook(() =>
+      useAgentConversation({ agent, fetch, conversation: { messages: [], suggestions: [] }, onConversationChange })
+    )
+
+    let sent!: Promise<void>
+    act(() => {
+      sent = result.current.send('Hello?')
+    })
+    // Another agent is showing; the chat is closed for every agent
+    act(() => result.current.reset('support'))
+    const changes = onConversationChange.mock.calls.length
+    await act(async () => {
+      answer(jsonResponse(reply('Too late.')))
+      await sent
+    })
+
+    expect(fetch.mock.calls[0][1].signal?.aborted).toBe(true)
+    expect(onConversationChange).toHaveBeenCalledTimes(changes)
+  })
+
+  it('writes to a conversation the caller owns', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse(reply('Hi!')))
+    const onConversationChange = vi.fn()
+    const conversation = { messages: [], suggestions: [] }
+    const { result } = renderHook(() => useAgentConversation({ agent, fetch, conversation, onConversationChange }))
+
+    await act(() => result.current.send('Hello?'))
+
+    expect(onConversationChange).toHaveBeenCalled()
+    expect(onConversationChange.mock.calls.every(([agentKey]) => agentKey === 'support')).toBe(true)
+    const final = onConversationChange.mock.calls.reduce((current, [, update]) => update(current), conversation)
+    expect(final.messages.map((message: { text: string }) => message.text)).toEqual(['Hello?', 'Hi!'])
+  })
+})
@@ -0,0 +1,390 @@
+/**
+ * Chat conversation with an agent
+ *
+ * Holds the message list and session of a conversation and talks to
+ * /api/agent for it through streamAIAgent: replies show as they are written
+ * (text as-is, structured replies through the agent's partial preview), and
+ * each user message carries a delivery status - pending while its request
+ * runs, then sent or failed. Failed messages can be retried in place.
+ *
+ * Messages go out through an outbox (@/utils/outbox): while the browser is
+ * offline, or when a request can't reach the network, they stay `queued`
+ * ("waiting to send") and are sent in order once the connection is back.
+ * A message is never sent again after it got its reply, and its id goes with
+ * every request as the Idempotency-Key, so the route answers it once even
+ * when a request that seemed lost had arrived.
+ *
+ * Requests are cancelled through an AbortController by cancel(), reset() and
+ * when the component unmounts; nothing is updated after that. cancel() and
+ * reset() also take the agent's queued messages out of the outbox. Both act on
+ * the current agent unless given another agent's key, and a reply that
+ * arrives after reset() is dropped rather than written to the new
+ * conversation.
+ *
+ * The conversation lives in the hook unless the caller owns it (e.g. one per
+ * agent, as the chat widget does): pass `conversation` and
+ * `onConversationChange`, and replies are written to the conversation that
+ * asked even if the caller has since switched agents.
+ *
+ * @example
+ * ```tsx
+ * const agent = createAgentClient({ agents: { support: SUPPORT_OUTPUT } }).support
+ * const { messages, send, retry, cancel, isLoading } = useAgentConversation({ agent })
+ *
+ * messages.map(message =>
+ *   message.status === 'failed' ? <button onClick={() => retry(message)}>Retry</button> : <p>{message.text}</p>
+ * )
+ * ```
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type { AgentFailure, AgentHandle, AgentResult } from '@/utils/agentClient'
+import { streamAIAgent } from '@/utils/aiAgent'
+import type { ChatConversation, ChatMessage, MessageStatus } from '@/utils/chatHistory'
+import { createOutbox, type Outbox, type OutboxDelivery } from '@/utils/outbox'
+
+type ConversationUpdate = (conversation: ChatConversation) => ChatConversation
+
+export interface UseAgentConversationOptions {
+  /** Agent to talk to (a handle from createAgentClient); nothing is sent without one */
+  agent?: AgentHandle<any>
+  /** The conversation, when the caller holds it */
+  conversation?: ChatConversation
+  /** Apply a change to an agent's conversation; makes the caller the owner */
+  onConversationChange?: (agentKey: string, update: ConversationUpdate) => void
+  /** What reset() starts over with (default: no messages) */
+  createConversation?: (agentKey: string) => ChatConversation
+  /** A message failed (not called for cancelled ones), e.g. to start a rate-limit cooldown */
+  onError?: (error: AgentFailure, message: ChatMessage) => void
+  /** Agent route URL (default '/api/agent') */
+  endpoint?: string
+  fetch?: typeof fetch
+}
+
+interface OutboundMessage {
+  agent: AgentHandle<any>
+  message: ChatMessage
+  /** Idempotency-Key for the request: resends of a message get its first answer */
+  key: string
+}
+
+const EMPTY_CONVERSATION: ChatConversation = { messages: [], suggestions: [] }
+
+function newMessageId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID()
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+/**
+ * Streamed text is shown as it arrives unless it is turning into a
+ * structured (JSON) reply, which only makes sense once parsed
+ */
+function isDisplayableStreamText(text: string): boolean {
+  const trimmed = text.trimStart()
+  return trimmed.length > 0 && !/^(\{|\[|```)/.test(trimmed)
+}
+
+function withStatus(messages: ChatMessage[], id: string, status: MessageStatus): ChatMessage[] {
+  return messages.map(message => (message.id === id ? { ...message, status } : message))
+}
+
+/**
+ * Update a message by id, or insert it after the message it answers (queued
+ * questions are followed by the next question before they get their reply)
+ */
+function upsertMessage(messages: ChatMessage[], message: ChatMessage, answers: string): ChatMessage[] {
+  if (messages.some(existing => existing.id === message.id)) {
+    return messages.map(existing => (existing.id === message.id ? { ...existing, ...message } : existing))
+  }
+  const question = messages.findIndex(existing => existing.id === answers)
+  return question === -1
+    ? [...messages, message]
+    : [...messages.slice(0, question + 1), message, ...messages.slice(question + 1)]
+}
+
+export function useAgentConversation(options: UseAgentConversationOptions = {}) {
+  const { agent, onConversationChange } = options
+  const [ownConversations, setOwnConversations] = useState<Record<string, ChatConversation>>({})
+  // Why each failed message failed, by agent key and message id
+  const [agentErrors, setAgentErrors] = useState<Record<string, Record<string, AgentFailure>>>({})
+  // Agents whose reply is showing as it streams
+  const [streaming, setStreaming] = useState<Record<string, boolean>>({})
+  // In-flight requests by user message id
+  const requests = useRef(new Map<string, { agentKey: string; controller: AbortController }>())
+  const outbox = useRef<Outbox<OutboundMessage> | null>(null)
+  // Latest session token by agent key; queued messages are sent with the one current at the time
+  const sessionTokens = useRef<Record<string, string | undefined>>({})
+  // Bumped by reset(), by agent key; requests started before then no longer update anything
+  const generations = useRef<Record<string, number>>({})
+  const mounted = useRef(true)
+  // Latest options, for requests that outlive the render that started them
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  const conversation =
+    (onConversationChange ? options.conversation : agent && ownConversations[agent.key]) || EMPTY_CONVERSATION
+  if (agent) sessionTokens.current[agent.key] = conversation.sessionToken
+
+  useEffect(() => {
+    mounted.current = true
+    const inFlight = requests.current
+    return () => {
+      mounted.current = false
+      outbox.current?.dispose()
+      outbox.current = null
+      inFlight.forEach(({ controller }) => controller.abort())
+      inFlight.clear()
+    }
+  }, [])
+
+  // Callers look errors up by message id, whichever agent it went to
+  const errors = useMemo(
+    (): Record<string, AgentFailure> => Object.assign({}, ...Object.values(agentErrors)),
+    [agentErrors]
+  )
+
+  const setErrors = useCallback(
+    (agentKey: string, change: (errors: Record<string, AgentFailure>) => Record<string, AgentFailure>) =>
+      setAgentErrors(prev => ({ ...prev, [agentKey]: change(prev[agentKey] || {}) })),
+    []
+  )
+
+  const update = useCallback((agentKey: string, change: ConversationUpdate) => {
+    if (!mounted.current) return
+    const external = optionsRef.current.onConversationChange
+    if (external) external(agentKey, change)
+    else setOwnConversations(prev => ({ ...prev, [agentKey]: change(prev[agentKey] || EMPTY_CONVERSATION) }))
+  }, [])
+
+  const deliver = useCallback(
+    async ({ agent: handle, message, key }: OutboundMessage): Promise<OutboxDelivery> => {
+      const agentKey = handle.key
+      const replyId = `${message.id}-reply`
+      const controller = new AbortController()
+      const generation = generations.current[agentKey]
+      // Still mounted, and the conversation wasn't reset since this request started
+      const live = () => mounted.current && generations.current[agentKey] === generation
+      const apply = (change: ConversationUpdate) => {
+        if (live()) update(agentKey, change)
+      }
+      requests.current.set(message.id, { agentKey, controller })
+      update(agentKey, current => ({ ...current, messages: withStatus(current.messages, message.id, 'pending') }))
+
+      const showReply = (details: Partial<ChatMessage> & { text: string }) =>
+        apply(current => ({
+          ...current,
+          messages: upsertMessage(
+            current.messages,
+            { id: replyId, sender: 'agent', timestamp: new Date(), feedback: null, ...details },
+            message.id
+          ),
+        }))
+
+      let result: AgentResult<unknown> | undefined
+      try {
+        const { endpoint, fetch } = optionsRef.current
+        const events = streamAIAgent(message.text, agentKey, {
+          session_token: sessionTokens.current[agentKey],
+          idempotency_key: key,
+          signal: controller.signal,
+          endpoint,
+          fetch,
+        })
+        const { toPartialMessage } = handle.output
+        let streamedText = ''
+
+        for await (const event of events) {
+          let preview: { text?: string; followups?: string[] } = {}
+
+          if (event.type === 'token') {
+            streamedText = event.text
+            if (isDisplayableStreamText(streamedText)) preview = { text: streamedText }
+          } else if (event.type === 'partial') {
+            // Structured replies are previewed from the partial JSON as it streams
+            if (!isDisplayableStreamText(streamedText) && toPartialMessage) {
+              preview = toPartialMessage(event.value, path => event.completedPaths.includes(path))
+            }
+          } else if (event.type === 'final') {
+            result = handle.read(event.response)
+          } else {
+            if (event.code === 'NETWORK_ERROR') console.error('Error calling agent:', event.details)
+            result = {
+              ok: false,
+              error: {
+                code: event.code ?? 'INVALID_RESPONSE',
+                message: event.error,
+                details: event.details,
+                issues: event.issues,
+                retryAfter: event.response?.retry_after,
+              },
+              response: event.response,
+            }
+          }
+
+          const text = preview.text?.trim()
+          if (text && live()) {
+            setStreaming(prev => ({ ...prev, [agentKey]: true }))
+            showReply({ text })
+          }
+          const followups = preview.followups
+          if (followups && followups.length > 0) {
+            apply(current => ({ ...current, suggestions: followups }))
+          }
+        }
+      } catch (error) {
+        // Showing the reply went wrong: fail the message so it can be retried
+        // instead of leaving it pending
+        const aborted = controller.signal.aborted
+        if (!aborted) console.error('Error showing agent reply:', error)
+        controller.abort()
+        result = {
+          ok: false,
+          error: {
+            code: aborted ? 'ABORTED' : 'INVALID_RESPONSE',
+            message: aborted ? 'Request was cancelled' : 'Could not show the reply',
+            details: error instanceof Error ? error.message : String(error),
+          },
+        }
+      } finally {
+        requests.current.delete(message.id)
+      }
+
+      // streamAIAgent always ends with a final or error event
+      if (!result || !live()) return 'failed'
+      setStreaming(prev => ({ ...prev, [agentKey]: false }))
+
+      if (result.ok) {
+        const { session } = result
+        const { text, followups, confidence, topic, sources } = result.message
+        if (session.session_token) sessionTokens.current[agentKey] = session.session_token
+        showReply({ text, confidence, topic, sources })
+        apply(current => ({
+          ...current,
+          messages: withStatus(current.messages, message.id, 'sent'),
+          suggestions: followups.length > 0 ? followups : current.suggestions,
+          ...(session.session_token && { sessionId: session.session_id, sessionToken: session.session_token }),
+        }))
+        return 'sent'
+      }
+
+      const { error } = result
+      if (error.code === 'NETWORK_ERROR') {
+        // Waits in the outbox for the connection to come back
+        apply(current => ({
+          ...current,
+          messages: withStatus(current.messages, message.id, 'queued').filter(existing => existing.id !== replyId),
+        }))
+        return 'offline'
+      }
+      if (error.code === 'SCHEMA_MISMATCH') {
+        console.warn(`Agent response did not match the "${handle.output.name}" schema:`, error.issues, result.response?.parse)
+      }
+      setErrors(agentKey, prev => ({ ...prev, [message.id]: error }))
+      // Drop whatever streamed before the failure
+      apply(current => ({
+        ...current,
+        messages: withStatus(current.messages, message.id, 'failed').filter(existing => existing.id !== replyId),
+      }))
+      if (error.code !== 'ABORTED') optionsRef.current.onError?.(error, message)
+      return 'failed'
+    },
+    [setErrors, update]
+  )
+
+  const getOutbox = useCallback(() => {
+    if (!outbox.current) outbox.current = createOutbox<OutboundMessage>({ deliver: entry => deliver(entry.payload) })
+    return outbox.current
+  }, [deliver])
+
+  /**
+   * Send a new message to the agent
+   */
+  const send = useCallback(
+    async (text: string) => {
+      if (!agent || !text.trim()) return
+      const message: ChatMessage = { id: newMessageId(), text, sender: 'user', timestamp: new Date(), status: 'queued' }
+
+      // Queued until the outbox delivers it, which is right away when online
+      update(agent.key, current => ({ ...current, messages: [...current.messages, message], suggestions: [] }))
+      await getOutbox().send(message.id, { agent, message, key: message.id })
+    },
+    [agent, getOutbox, update]
+  )
+
+  /**
+   * Send a failed message again, in place
+   */
+  const retry = useCallback(
+    async (message: ChatMessage) => {
+      const outbound = getOutbox()
+      if (!agent || message.sender !== 'user' || outbound.has(message.id)) return
+
+      // The route answered but the reply didn't fit; replaying that answer wouldn't help
+      const key = errors[message.id]?.code === 'SCHEMA_MISMATCH' ? `${message.id}-${newMessageId()}` : message.id
+      setErrors(agent.key, ({ [message.id]: _retried, ...rest }) => rest)
+      update(agent.key, current => ({ ...current, messages: withStatus(current.messages, message.id, 'queued') }))
+      await outbound.send(message.id, { agent, message: { ...message, status: 'queued' }, key })
+    },
+    [agent, errors, getOutbox, setErrors, update]
+  )
+
+  /**
+   * Abort an agent's requests (default: the current agent) and stop waiting to
+   * send its queued messages; they are marked failed and can be retried
+   */
+  const cancel = useCallback(
+    (agentKey = agent?.key) => {
+      if (!agentKey) return
+      requests.current.forEach(request => {
+        if (request.agentKey === agentKey) request.controller.abort()
+      })
+
+      const queued = (outbox.current?.entries() || []).filter(entry => entry.payload.agent.key === agentKey)
+      if (queued.length === 0) return
+      const cancelled: AgentFailure = { code: 'ABORTED', message: 'Request was cancelled' }
+      const ids = new Set(queued.map(entry => entry.id))
+      ids.forEach(id => outbox.current?.remove(id))
+      setErrors(agentKey, prev => ({ ...prev, ...Object.fromEntries([...ids].map(id => [id, cancelled])) }))
+      update(agentKey, current => ({
+        ...current,
+        messages: current.messages.map(message => (ids.has(message.id) ? { ...message, status: 'failed' } : message)),
+      }))
+    },
+    [agent, setErrors, update]
+  )
+
+  /**
+   * Cancel, then start an agent's conversation over (default: the current
+   * agent); replies to the old conversation are dropped
+   */
+  const reset = useCallback(
+    (agentKey = agent?.key) => {
+      if (!agentKey) return
+      generations.current[agentKey] = (generations.current[agentKey] ?? 0) + 1
+      cancel(agentKey)
+      setAgentErrors(({ [agentKey]: _reset, ...rest }) => rest)
+      setStreaming(prev => ({ ...prev, [agentKey]: false }))
+      const start = optionsRef.current.createConversation
+      sessionTokens.current[agentKey] = undefined
+      update(agentKey, () => (start ? start(agentKey) : EMPTY_CONVERSATION))
+    },
+    [agent, cancel, update]
+  )
+
+  return {
+    messages: conversation.messages,
+    suggestions: conversation.suggestions,
+    sessionId: conversation.sessionId,
+    /** A message to this agent is waiting for its reply */
+    isLoading: conversation.messages.some(message => message.status === 'pending'),
+    /** Messages to this agent are waiting for the connection */
+    isQueued: conversation.messages.some(message => message.status === 'queued'),
+    /** The reply is showing as it streams */
+    isStreaming: Boolean(agent && streaming[agent.key]),
+    /** Why each failed message failed, by message id (this page view only) */
+    errors,
+    send,
+    retry,
+    cancel,
+    reset,
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Corpus of LLM replies as agents actually send them, with the value
+ * parseLLMJson should get out of each. Add a case whenever a reply in the
+ * wild parses wrongly.
+ */
+import type { JsonRepair, JsonStrategy, ParseLLMJsonOptions } from '../jsonParser'
+
+export interface LLMReplyFixture {
+  name: string
+  reply: string
+  /** undefined when the reply should not parse */
+  expected: unknown
+  options?: ParseLLMJsonOptions
+  strategy?: JsonStrategy
+  /** Repairs that must be reported (others may be too) */
+  repairs?: JsonRepair[]
+}
+
+export const FENCED: LLMReplyFixture[] = [
+  {
+    name: 'json fence',
+    reply: '```json\n{\n  "response": "Amadeo automates KYC checks.",\n  "confidence": 0.92\n}\n```',
+    expected: { response: 'Amadeo automates KYC checks.', confidence: 0.92 },
+    strategy: 'markdown-json',
+  },
+  {
+    name: 'uppercase fence with prose around it',
+    reply: 'Sure! Here is the answer:\n\n```JSON\n{"status": "ok", "items": [1, 2, 3]}\n```\n\nLet me know if you need more.',
+    expected: { status: 'ok', items: [1, 2, 3] },
+  },
+  {
+    name: 'unlabelled fence',
+    reply: 'Result:\n```\n{"sales_guidance": {"main_response": "Lead with ROI."}}\n```',
+    expected: { sales_guidance: { main_response: 'Lead with ROI.' } },
+  },
+  {
+    name: 'fence with a broken block before a good one',
+    reply: '```json\n{"draft": \n```\nCorrected:\n```json\n{"final": true}\n```',
+    expected: { final: true },
+  },
+  {
+    name: 'inline code',
+    reply: 'The config is `{"retries": 3, "timeout": 30}` as requested.',
+    expected: { retries: 3, timeout: 30 },
+  },
+]
+
+export const PROSE_WRAPPED: LLMReplyFixture[] = [
+  {
+    name: 'object after an introduction',
+    reply: 'Here is your poem:\n{"result": "Roses are red", "lines": 1}',
+    expected: { result: 'Roses are red', lines: 1 },
+    repairs: ['ignored-surrounding-text'],
+  },
+  {
+    name: 'object between sentences',
+    reply: 'I analysed the deal. {"stage": "negotiation", "risk": "low"} Hope this helps!',
+    expected: { stage: 'negotiation', risk: 'low' },
+  },
+  {
+    name: 'citations before the JSON',
+    reply: 'According to [1] and [2, 3], the answer is {"answer": "yes", "sources": ["doc-1"]}.',
+    expected: { answer: 'yes', sources: ['doc-1'] },
+  },
+  {
+    name: 'apostrophes in the prose',
+    reply: "Here's what I'd send: {'subject': 'Follow-up', 'tone': 'friendly'} - don't forget to personalise it.",
+    expected: { subject: 'Follow-up', tone: 'friendly' },
+    repairs: ['single-quotes'],
+  },
+  {
+    name: 'plain text',
+    reply: 'Amadeo helps banks automate customer support with AI agents.',
+    expected: undefined,
+  },
+]
+
+export const TRUNCATED: LLMReplyFixture[] = [
+  {
+    name: 'cut off inside a string',
+    reply: '{"response": "Amadeo integrates with core banking sys',
+    expected: { response: 'Amadeo integrates with core banking sys' },
+    options: { allowPartial: true },
+    repairs: ['closed-partial'],
+  },
+  {
+    name: 'cut off inside a list',
+    reply: '```json\n{"suggested_followups": ["Pricing?", "Integrations?"',
+    expected: { suggested_followups: ['Pricing?', 'Integrations?'] },
+    options: { allowPartial: true },
+  },
+  {
+    name: 'cut off without allowPartial',
+    reply: '{"response": "Amadeo integrates with',
+    expected: undefined,
+  },
+]
+
+export const PYTHON_STYLE: LLMReplyFixture[] = [
+  {
+    name: 'Python dict repr',
+    reply: "{'response': 'Done', 'escalate': False, 'ticket': None, 'urgent': True}",
+    expected: { response: 'Done', escalate: false, ticket: null, urgent: true },
+    repairs: ['single-quotes', 'literals'],
+  },
+  {
+    name: 'comments and trailing commas',
+    reply: '{\n  // the answer\n  "answer": 42, # checked\n  "tags": ["a", "b",],\n}',
+    expected: { answer: 42, tags: ['a', 'b'] },
+    repairs: ['comments', 'trailing-commas'],
+  },
+  {
+    name: 'unquoted keys',
+    reply: '{response: "Hi", confidence: .8}',
+    expected: { response: 'Hi', confidence: 0.8 },
+    repairs: ['unquoted-keys', 'relaxed-numbers'],
+  },
+]
+
+export const DOUBLE_ENCODED: LLMReplyFixture[] = [
+  {
+    name: 'stringified JSON in a response field',
+    reply: '{"response": "{\\"answer\\": \\"yes\\", \\"score\\": 3}"}',
+    expected: { answer: 'yes', score: 3 },
+    repairs: ['unwrapped-response'],
+  },
+  {
+    name: 'the whole reply is a JSON string',
+    reply: '"{\\"answer\\": \\"yes\\"}"',
+    expected: { answer: 'yes' },
+    repairs: ['double-encoded'],
+  },
+  {
+    name: 'nested response objects',
+    reply: '{"response": {"response": {"text": "deep"}}}',
+    expected: { text: 'deep' },
+  },
+]
+
+export const TRICKY_STRINGS: LLMReplyFixture[] = [
+  {
+    name: 'URLs',
+    reply: "{'docs': 'https://amadeo.ai/docs#setup', 'api': 'http://localhost:3333/api//agent'}",
+    expected: { docs: 'https://amadeo.ai/docs#setup', api: 'http://localhost:3333/api//agent' },
+  },
+  {
+    name: 'ellipses in text and as elision',
+    reply: "{text: 'Wait... what? And so on…', items: [1, 2, ...], }",
+    expected: { text: 'Wait... what? And so on…', items: [1, 2] },
+    repairs: ['ellipsis'],
+  },
+  {
+    name: 'brackets and quotes inside strings',
+    reply: 'Answer: {"formula": "a[0] = {b}", "quote": "She said \\"hi\\""}',
+    expected: { formula: 'a[0] = {b}', quote: 'She said "hi"' },
+  },
+  {
+    name: 'Python words inside text',
+    reply: "{note: 'None of this is True or False', done: True}",
+    expected: { note: 'None of this is True or False', done: true },
+  },
+  {
+    name: 'comment markers inside strings',
+    reply: "{'path': '/* not a comment */', 'hash': '# not a comment', 'url': '//cdn.amadeo.ai'}",
+    expected: { path: '/* not a comment */', hash: '# not a comment', url: '//cdn.amadeo.ai' },
+  },
+]
+
+export const LLM_REPLY_CORPUS: Record<string, LLMReplyFixture[]> = {
+  fenced: FENCED,
+  'prose-wrapped': PROSE_WRAPPED,
+  truncated: TRUNCATED,
+  'python-style': PYTHON_STYLE,
+  'double-encoded': DOUBLE_ENCODED,
+  'tricky strings': TRICKY_STRINGS,
+}
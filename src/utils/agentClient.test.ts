@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createAgentClient, readAgentResponse } from './agentClient'
+import { SALES_OUTPUT, SUPPORT_OUTPUT } from './agentOutput'
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+const salesReply = {
+  success: true,
+  response: {
+    sales_guidance: { main_response: 'Lead with compliance savings.', suggested_questions: ['Pricing?'] },
+    confidence: 0.8,
+  },
+  session_id: 'sales-1',
+  session_token: 'token-1',
+}
+
+describe('createAgentClient', () => {
+  it('returns typed data and the normalized message', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse(salesReply))
+    const client = createAgentClient({ agents: { sales: SALES_OUTPUT }, user_id: 'user-1', fetch })
+
+    const result = await client.sales.ask('How do I pitch Amadeo?')
+
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.data?.sales_guidance.suggested_questions).toEqual(['Pricing?'])
+    expect(result.message).toMatchObject({ text: 'Lead with compliance savings.', followups: ['Pricing?'], confidence: 0.8 })
+    expect(result.session).toEqual({ session_id: 'sales-1', session_token: 'token-1' })
+    expect(JSON.parse(fetch.mock.calls[0][1].body)).toEqual({ message: 'How do I pitch Amadeo?', agent_id: 'sales', user_id: 'user-1' })
+  })
+
+  it('gives plain-text replies a message but no data', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse({ success: true, response: 'Happy to help.' }))
+    const result = await createAgentClient({ agents: { support: SUPPORT_OUTPUT }, fetch }).support.ask('Hi')
+
+    expect(result).toMatchObject({ ok: true, data: null, message: { text: 'Happy to help.' } })
+  })
+
+  it('reports route errors with their code', async () => {
+    const fetch = vi.fn().mockResolvedValue(
+      jsonResponse({ success: false, error: 'Too many requests', code: 'RATE_LIMITED', retry_after: 12 }, 429)
+    )
+    const result = await createAgentClient({ agents: { sales: SALES_OUTPUT }, fetch }).sales.ask('Hi')
+
+    expect(result).toMatchObject({
+      ok: false,
+      error: { code: 'RATE_LIMITED', message: 'Too many requests', retryAfter: 12, status: 429 },
+    })
+  })
+
+  it('reports client-side failures with their own codes', async () => {
+    const client = (fetch: typeof globalThis.fetch) => createAgentClient({ agents: { sales: SALES_OUTPUT }, fetch }).sales
+
+    const invalid = await client(vi.fn()).ask('   ')
+    expect(invalid).toMatchObject({ ok: false, error: { code: 'INVALID_REQUEST', issues: { message: ['message cannot be empty'] } } })
+
+    const offline = await client(vi.fn().mockRejectedValue(new TypeError('Failed to fetch'))).ask('Hi')
+    expect(offline).toMatchObject({ ok: false, error: { code: 'NETWORK_ERROR', details: 'Failed to fetch' } })
+
+    const controller = new AbortController()
+    controller.abort()
+    const aborted = await client(vi.fn().mockRejectedValue(new DOMException('Aborted', 'AbortError'))).ask('Hi', {
+      signal: controller.signal,
+    })
+    expect(aborted).toMatchObject({ ok: false, error: { code: 'ABORTED' } })
+
+    const html = await client(vi.fn().mockResolvedValue(new Response('<html>Bad gateway</html>', { status: 502 }))).ask('Hi')
+    expect(html).toMatchObject({ ok: false, error: { code: 'HTTP_ERROR', status: 502 } })
+  })
+
+  it('rejects replies that do not match the output schema', () => {
+    const result = readAgentResponse(SALES_OUTPUT, { success: true, response: { response: 'Wrong agent shape' } })
+
+    expect(result).toMatchObject({ ok: false, error: { code: 'SCHEMA_MISMATCH' } })
+    if (!result.ok) expect(result.error.issues).toHaveProperty('sales_guidance')
+  })
+})
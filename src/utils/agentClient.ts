@@ -0,0 +1,249 @@
+/**
+ * Typed /api/agent client
+ *
+ * callAIAgent() returns the wire format, with `response?: any`. An agent
+ * client instead knows each agent's output spec (@/utils/agentOutput), so
+ * `ask()` validates the reply against it and returns a discriminated result:
+ * typed `data` plus the normalized message on success, a typed error `code`
+ * on failure. Nothing is thrown, including for network errors and aborts.
+ *
+ * @example
+ * ```ts
+ * const client = createAgentClient({ agents: { support: SUPPORT_OUTPUT, sales: SALES_OUTPUT } })
+ *
+ * const result = await client.sales.ask('How do I pitch Amadeo?')
+ * if (result.ok) {
+ *   result.data?.sales_guidance.suggested_questions // string[] | undefined (data is null for plain-text replies)
+ *   next = await client.sales.ask('Tell me more', { session_token: result.session.session_token })
+ * } else if (result.error.code === 'RATE_LIMITED') {
+ *   wait(result.error.retryAfter)
+ * }
+ *
+ * // Node scripts point it at a deployment
+ * createAgentClient({ agents: { sales: SALES_OUTPUT }, endpoint: 'https://chat.amadeo.ai/api/agent' })
+ * ```
+ */
+import {
+  AIAgentRequestSchema,
+  AIAgentResponseSchema,
+  IDEMPOTENCY_KEY_HEADER,
+  formatIssues,
+  type AgentErrorCode,
+  type AIAgentResponse,
+  type ParseDiagnostics,
+} from '@/utils/agentContract'
+import { normalizeAgentResponse, type AgentOutputSpec, type NormalizedAgentMessage } from '@/utils/agentOutput'
+import { getIdentity } from '@/utils/identity'
+
+/**
+ * Failures detected on the client side, in addition to the route's AGENT_ERROR_CODES
+ * - NETWORK_ERROR: the request never got an answer
+ * - ABORTED: the caller's signal aborted the request
+ * - HTTP_ERROR: a failed status without an error body
+ * - INVALID_RESPONSE: the body is not an /api/agent response
+ * - SCHEMA_MISMATCH: the reply doesn't match the agent's output schema
+ */
+export const AGENT_CLIENT_ERROR_CODES = [
+  'NETWORK_ERROR',
+  'ABORTED',
+  'HTTP_ERROR',
+  'INVALID_RESPONSE',
+  'SCHEMA_MISMATCH',
+] as const
+
+export type AgentClientErrorCode = AgentErrorCode | (typeof AGENT_CLIENT_ERROR_CODES)[number]
+
+export interface AgentFailure {
+  code: AgentClientErrorCode
+  message: string
+  details?: string
+  /** Validation problems, by field path (INVALID_REQUEST, SCHEMA_MISMATCH) */
+  issues?: Record<string, string[]>
+  /** Seconds to wait before retrying (RATE_LIMITED, IDEMPOTENCY_UNAVAILABLE, UPSTREAM_UNAVAILABLE) */
+  retryAfter?: number
+  /** HTTP status, when the route answered */
+  status?: number
+}
+
+/**
+ * The session a reply belongs to; send its session_token back with the next
+ * question to stay in it
+ */
+export interface AgentSession {
+  session_id?: string
+  session_token?: string
+}
+
+export type AgentResult<T> =
+  | {
+      ok: true
+      /** The validated structured reply; null when the agent replied in plain text */
+      data: T | null
+      message: NormalizedAgentMessage
+      parse?: ParseDiagnostics
+      session: AgentSession
+      /** The body as received */
+      response: AIAgentResponse
+    }
+  | {
+      ok: false
+      error: AgentFailure
+      response?: AIAgentResponse
+    }
+
+export interface AskOptions extends Pick<AgentSession, 'session_token'> {
+  user_id?: string
+  /** Sent as the Idempotency-Key header: asking again with the same key gets the first answer */
+  idempotency_key?: string
+  signal?: AbortSignal
+}
+
+export interface AgentHandle<T> {
+  key: string
+  output: AgentOutputSpec<T>
+  ask(message: string, options?: AskOptions): Promise<AgentResult<T>>
+  /**
+   * Turn an /api/agent body received some other way (e.g. the `final` event
+   * of a stream) into a result
+   */
+  read(body: unknown, status?: number): AgentResult<T>
+}
+
+export type AgentOutputMap = Record<string, AgentOutputSpec<any>>
+
+export type AgentOutputData<S> = S extends AgentOutputSpec<infer T> ? T : never
+
+export type AgentClient<A extends AgentOutputMap> = { [K in keyof A & string]: AgentHandle<AgentOutputData<A[K]>> }
+
+export interface AgentClientConfig<A extends AgentOutputMap> {
+  /** Output spec of each agent, by registry key */
+  agents: A
+  /** Agent route URL (default '/api/agent'); scripts outside the browser need an absolute one */
+  endpoint?: string
+  /** Sent with every question unless `ask()` overrides it (default: the visitor's, see @/utils/identity) */
+  user_id?: string
+  fetch?: typeof fetch
+}
+
+const DEFAULT_ENDPOINT = '/api/agent'
+
+function isAbort(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError'
+}
+
+/**
+ * Map an /api/agent body onto a result for one agent's output spec
+ */
+export function readAgentResponse<T>(output: AgentOutputSpec<T>, body: unknown, status?: number): AgentResult<T> {
+  const failed = status !== undefined && status >= 400
+  const parsed = AIAgentResponseSchema.safeParse(body)
+
+  if (!parsed.success) {
+    return {
+      ok: false,
+      error: {
+        code: failed ? 'HTTP_ERROR' : 'INVALID_RESPONSE',
+        message: failed ? `API returned status ${status}` : 'Unexpected response from agent API',
+        details: JSON.stringify(formatIssues(parsed.error)),
+        status,
+      },
+    }
+  }
+
+  const response = parsed.data
+  if (!response.success || failed) {
+    return {
+      ok: false,
+      error: {
+        code: response.code ?? (failed ? 'HTTP_ERROR' : 'INVALID_RESPONSE'),
+        message: response.error || (failed ? `API returned status ${status}` : 'Agent call failed'),
+        details: response.details,
+        issues: response.issues,
+        retryAfter: response.retry_after,
+        status,
+      },
+      response,
+    }
+  }
+
+  const normalized = normalizeAgentResponse(output, response.response)
+  if (!normalized.ok) {
+    return {
+      ok: false,
+      error: {
+        code: 'SCHEMA_MISMATCH',
+        message: `Reply does not match the "${output.name}" output schema`,
+        issues: normalized.violation.issues,
+        status,
+      },
+      response,
+    }
+  }
+
+  return {
+    ok: true,
+    data: typeof response.response === 'string' ? null : output.schema.parse(response.response),
+    message: normalized.message,
+    parse: response.parse,
+    session: { session_id: response.session_id, session_token: response.session_token },
+    response,
+  }
+}
+
+/**
+ * Build a client with a typed handle per agent key
+ */
+export function createAgentClient<A extends AgentOutputMap>(config: AgentClientConfig<A>): AgentClient<A> {
+  const endpoint = config.endpoint || DEFAULT_ENDPOINT
+
+  const handle = <T>(key: string, output: AgentOutputSpec<T>): AgentHandle<T> => ({
+    key,
+    output,
+
+    read: (body, status) => readAgentResponse(output, body, status),
+
+    async ask(message, options = {}) {
+      const request = AIAgentRequestSchema.safeParse({
+        message,
+        agent_id: key,
+        user_id: options.user_id || config.user_id || getIdentity().userId(),
+        session_token: options.session_token,
+      })
+      if (!request.success) {
+        return {
+          ok: false,
+          error: { code: 'INVALID_REQUEST', message: 'Invalid request', issues: formatIssues(request.error) },
+        }
+      }
+
+      try {
+        const fetchImpl = config.fetch || fetch
+        const response = await fetchImpl(endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(options.idempotency_key && { [IDEMPOTENCY_KEY_HEADER]: options.idempotency_key }),
+          },
+          body: JSON.stringify(request.data),
+          signal: options.signal,
+        })
+        const body = await response.json().catch(() => null)
+        return readAgentResponse(output, body, response.status)
+      } catch (error) {
+        const aborted = isAbort(error) || options.signal?.aborted
+        return {
+          ok: false,
+          error: {
+            code: aborted ? 'ABORTED' : 'NETWORK_ERROR',
+            message: aborted ? 'Request was cancelled' : 'Failed to call AI agent',
+            details: error instanceof Error ? error.message : String(error),
+          },
+        }
+      }
+    },
+  })
+
+  const client: Record<string, AgentHandle<any>> = {}
+  for (const [key, output] of Object.entries(config.agents)) client[key] = handle(key, output)
+  return client as AgentClient<A>
+}
@@ -0,0 +1,134 @@
+/**
+ * /api/agent request and response contract
+ *
+ * Shared zod schemas for both sides of the agent route: the route validates
+ * incoming bodies with them, and the client (aiAgent.ts) validates what it
+ * sends and receives. Types are inferred from the schemas so they can't drift.
+ *
+ * @example
+ * ```ts
+ * const parsed = AIAgentRequestSchema.safeParse(body)
+ * if (!parsed.success) return { issues: formatIssues(parsed.error) }
+ * ```
+ */
+import { z } from 'zod'
+
+export const MAX_MESSAGE_LENGTH = 4000
+
+/**
+ * Request header that makes a question idempotent: repeats with the same key
+ * get the first answer (see @/utils/idempotency)
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key'
+
+const AGENT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+// Allows emails and prefixed IDs such as "user-<uuid>"
+const USER_ID_PATTERN = /^[\w.@+:-]{1,128}$/
+
+/**
+ * Error codes returned in the `code` field of failed responses
+ */
+export const AGENT_ERROR_CODES = [
+  'INVALID_JSON',
+  'INVALID_REQUEST',
+  'UNKNOWN_AGENT',
+  'RATE_LIMITED',
+  'IDEMPOTENCY_KEY_REUSED',
+  'IDEMPOTENCY_IN_PROGRESS',
+  'IDEMPOTENCY_UNAVAILABLE',
+  'PROVIDER_NOT_CONFIGURED',
+  'UPSTREAM_ERROR',
+  'UPSTREAM_TIMEOUT',
+  'UPSTREAM_UNAVAILABLE',
+  'STREAM_INTERRUPTED',
+  'INTERNAL_ERROR',
+] as const
+
+export type AgentErrorCode = (typeof AGENT_ERROR_CODES)[number]
+
+const requiredString = (field: string) =>
+  z.string({
+    error: issue => (issue.input === undefined ? `${field} is required` : `${field} must be a string`),
+  })
+
+export const AIAgentRequestSchema = z.object({
+  message: requiredString('message')
+    .trim()
+    .min(1, 'message cannot be empty')
+    .max(MAX_MESSAGE_LENGTH, `message must be at most ${MAX_MESSAGE_LENGTH} characters`),
+  agent_id: requiredString('agent_id').regex(
+    AGENT_ID_PATTERN,
+    'agent_id must be 1-64 letters, digits, "-" or "_"'
+  ),
+  user_id: requiredString('user_id')
+    .regex(USER_ID_PATTERN, 'user_id must be 1-128 letters, digits or ._@+:- characters')
+    .optional(),
+  // Sessions continue through their signed token only; a bare session_id is refused
+  // rather than ignored, so callers don't think they are continuing one
+  session_id: z
+    .never({ error: 'session_id is not accepted - send the session_token of an earlier response to continue its session' })
+    .optional(),
+  session_token: requiredString('session_token').max(1024, 'session_token is too long').optional(),
+})
+
+export type AIAgentRequest = z.infer<typeof AIAgentRequestSchema>
+
+/**
+ * How the route turned the upstream reply into `response`
+ */
+export const ParseDiagnosticsSchema = z.object({
+  /** false when the reply is kept as plain text */
+  structured: z.boolean(),
+  /** Where the JSON was found (e.g. 'direct', 'markdown-json', 'embedded') */
+  strategy: z.string().optional(),
+  /** Non-JSON format the reply was read as (e.g. 'yaml', 'table') */
+  format: z.string().optional(),
+  /** Syntax repairs that were needed (e.g. 'trailing-commas', 'single-quotes') */
+  repairs: z.array(z.string()),
+  warnings: z.array(z.string()),
+  /** Why no structured value was found */
+  error: z.string().optional(),
+  /** true when the reply matched the agent's output schema */
+  validated: z.boolean().optional(),
+  /** Near-misses fixed to match the schema (e.g. a numeric string for a number) */
+  coercions: z
+    .array(z.object({ kind: z.string(), path: z.string(), from: z.string().optional() }))
+    .optional(),
+})
+
+export type ParseDiagnostics = z.infer<typeof ParseDiagnosticsSchema>
+
+export const AIAgentResponseSchema = z.object({
+  success: z.boolean(),
+  response: z.any().optional(),
+  parse: ParseDiagnosticsSchema.optional(),
+  raw_response: z.any().optional(),
+  agent_id: z.string().optional(),
+  user_id: z.string().optional(),
+  session_id: z.string().optional(),
+  /** Send back with the next message to stay in the same session */
+  session_token: z.string().optional(),
+  timestamp: z.string().optional(),
+  error: z.string().optional(),
+  code: z.enum(AGENT_ERROR_CODES).optional(),
+  details: z.string().optional(),
+  /** Validation problems, by field name */
+  issues: z.record(z.string(), z.array(z.string())).optional(),
+  /** Seconds to wait before retrying (RATE_LIMITED, IDEMPOTENCY_UNAVAILABLE, UPSTREAM_UNAVAILABLE) */
+  retry_after: z.number().optional(),
+})
+
+export type AIAgentResponse = z.infer<typeof AIAgentResponseSchema>
+
+/**
+ * Group validation problems by field, e.g. { message: ['message is required'] }
+ * Problems not tied to a field are listed under "_".
+ */
+export function formatIssues(error: z.ZodError): Record<string, string[]> {
+  const issues: Record<string, string[]> = {}
+  for (const issue of error.issues) {
+    const field = issue.path.length > 0 ? issue.path.join('.') : '_'
+    ;(issues[field] ||= []).push(issue.message)
+  }
+  return issues
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { SALES_OUTPUT, SUPPORT_OUTPUT, isAgentOutputName, normalizeAgentResponse } from './agentOutput'
+
+describe('normalizeAgentResponse', () => {
+  it('maps a support reply into the normalized model', () => {
+    const result = normalizeAgentResponse(SUPPORT_OUTPUT, {
+      response: ' Amadeo is a banking AI agent. ',
+      status: 'answered',
+      confidence: 0.92,
+      suggested_followups: ['What does it cost?', '  '],
+      metadata: { topic: 'overview', sources_used: ['product-faq'], timestamp: '2026-01-01' },
+    })
+
+    expect(result).toEqual({
+      ok: true,
+      message: {
+        text: 'Amadeo is a banking AI agent.',
+        followups: ['What does it cost?'],
+        confidence: 0.92,
+        topic: 'overview',
+        sources: ['product-faq'],
+      },
+    })
+  })
+
+  it('maps a sales reply using its own fields', () => {
+    const result = normalizeAgentResponse(SALES_OUTPUT, {
+      sales_guidance: {
+        main_response: 'Lead with compliance savings.',
+        suggested_questions: ['How do I handle pricing pushback?'],
+      },
+    })
+
+    expect(result.ok && result.message.text).toBe('Lead with compliance savings.')
+    expect(result.ok && result.message.followups).toEqual(['How do I handle pricing pushback?'])
+  })
+
+  it('accepts plain-text replies', () => {
+    const result = normalizeAgentResponse(SALES_OUTPUT, 'Happy to help with that.')
+
+    expect(result).toEqual({
+      ok: true,
+      message: { text: 'Happy to help with that.', followups: [], sources: [] },
+    })
+  })
+
+  it('reports a schema violation instead of guessing', () => {
+    const received = { response: 'Support-shaped reply' }
+    const result = normalizeAgentResponse(SALES_OUTPUT, received)
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.violation.output).toBe('sales')
+      expect(result.violation.issues).toHaveProperty('sales_guidance')
+      expect(result.violation.received).toBe(received)
+    }
+  })
+
+  it('treats an empty reply as a violation', () => {
+    expect(normalizeAgentResponse(SUPPORT_OUTPUT, { response: '   ' }).ok).toBe(false)
+    expect(normalizeAgentResponse(SUPPORT_OUTPUT, '').ok).toBe(false)
+  })
+})
+
+describe('toPartialMessage', () => {
+  it('previews streamed text and only finished follow-up lists', () => {
+    const done = new Set(['sales_guidance.main_response'])
+    const isComplete = (path: string) => done.has(path)
+    const partial = { sales_guidance: { main_response: 'Lead with', suggested_questions: ['How do I'] } }
+
+    expect(SALES_OUTPUT.toPartialMessage?.(partial, isComplete)).toEqual({ text: 'Lead with', followups: undefined })
+
+    done.add('sales_guidance.suggested_questions')
+    expect(SALES_OUTPUT.toPartialMessage?.(partial, isComplete)?.followups).toEqual(['How do I'])
+    expect(SUPPORT_OUTPUT.toPartialMessage?.({}, isComplete)).toEqual({ text: undefined, followups: undefined })
+  })
+
+  it('skips whatever is not a string in a streamed list', () => {
+    const isComplete = () => true
+
+    expect(
+      SUPPORT_OUTPUT.toPartialMessage?.({ response: 'Hi', suggested_followups: [1, null, ' Pricing? '] }, isComplete)
+    ).toEqual({ text: 'Hi', followups: ['Pricing?'] })
+    expect(SUPPORT_OUTPUT.toPartialMessage?.({ suggested_followups: 'Pricing?' }, isComplete)?.followups).toEqual([])
+    expect(SALES_OUTPUT.toPartialMessage?.({ sales_guidance: null }, isComplete)?.followups).toEqual([])
+  })
+})
+
+describe('isAgentOutputName', () => {
+  it('knows only the declared output specs', () => {
+    expect(isAgentOutputName('sales')).toBe(true)
+    expect(isAgentOutputName('billing')).toBe(false)
+    expect(isAgentOutputName('toString')).toBe(false)
+  })
+})
@@ -0,0 +1,168 @@
+/**
+ * Agent output schemas and normalization
+ *
+ * Each agent declares the shape of its structured reply (a zod schema) and
+ * how to map it into one normalized message model. Replies that don't match
+ * are reported as schema violations instead of being guessed at.
+ *
+ * @example
+ * ```ts
+ * const result = normalizeAgentResponse(SALES_OUTPUT, data.response)
+ * if (result.ok) show(result.message.text)
+ * else console.warn(result.violation.issues)
+ * ```
+ */
+import { z } from 'zod'
+import { formatIssues } from '@/utils/agentContract'
+
+/**
+ * What the widget renders for any agent reply
+ */
+export interface NormalizedAgentMessage {
+  text: string
+  followups: string[]
+  confidence?: number
+  topic?: string
+  sources: string[]
+}
+
+export interface AgentOutputSpec<T = unknown> {
+  /** Name agent configs refer to (e.g. 'support') */
+  name: string
+  /** Shape of the structured (JSON) reply */
+  schema: z.ZodType<T>
+  /** Map a validated reply into the normalized message model */
+  toMessage: (data: T) => NormalizedAgentMessage
+  /**
+   * Map a reply that is still streaming (a best-effort partial object from
+   * @/utils/streamingJson) into what can be shown so far.
+   * `isComplete(path)` tells finished values from ones still arriving.
+   */
+  toPartialMessage?: (partial: any, isComplete: (path: string) => boolean) => Partial<NormalizedAgentMessage>
+}
+
+export interface SchemaViolation {
+  output: string
+  /** Validation problems, by field path */
+  issues: Record<string, string[]>
+  received: unknown
+}
+
+export type NormalizeResult =
+  | { ok: true; message: NormalizedAgentMessage }
+  | { ok: false; violation: SchemaViolation }
+
+export function defineAgentOutput<T>(spec: AgentOutputSpec<T>): AgentOutputSpec<T> {
+  return spec
+}
+
+/**
+ * Trimmed, non-empty strings of an optional list. Partial replies are not
+ * validated, so anything else in (or instead of) the list is skipped.
+ */
+function cleanList(values: unknown): string[] {
+  if (!Array.isArray(values)) return []
+  return values
+    .filter((value): value is string => typeof value === 'string')
+    .map(value => value.trim())
+    .filter(value => value.length > 0)
+}
+
+/**
+ * Validate a parsed /api/agent `response` against an agent's output schema
+ * and map it into the normalized message model.
+ * Plain-text replies are accepted as-is (text only).
+ */
+export function normalizeAgentResponse<T>(spec: AgentOutputSpec<T>, response: unknown): NormalizeResult {
+  if (typeof response === 'string' && response.trim().length > 0) {
+    return { ok: true, message: { text: response.trim(), followups: [], sources: [] } }
+  }
+
+  const parsed = spec.schema.safeParse(response)
+  if (!parsed.success) {
+    return {
+      ok: false,
+      violation: { output: spec.name, issues: formatIssues(parsed.error), received: response },
+    }
+  }
+
+  const message = spec.toMessage(parsed.data)
+  return { ok: true, message: { ...message, text: message.text.trim() } }
+}
+
+/**
+ * Agent output specs
+ */
+
+const metadataSchema = z.object({
+  topic: z.string().optional(),
+  sources_used: z.array(z.string()).optional(),
+  timestamp: z.string().optional(),
+})
+
+export const SUPPORT_OUTPUT = defineAgentOutput({
+  name: 'support',
+  schema: z.object({
+    response: z.string().trim().min(1),
+    status: z.string().optional(),
+    confidence: z.number().optional(),
+    suggested_followups: z.array(z.string()).optional(),
+    metadata: metadataSchema.optional(),
+  }),
+  toMessage: data => ({
+    text: data.response,
+    followups: cleanList(data.suggested_followups),
+    confidence: data.confidence,
+    topic: data.metadata?.topic,
+    sources: cleanList(data.metadata?.sources_used),
+  }),
+  toPartialMessage: (partial, isComplete) => ({
+    text: typeof partial?.response === 'string' ? partial.response : undefined,
+    followups: isComplete('suggested_followups') ? cleanList(partial.suggested_followups) : undefined,
+  }),
+})
+
+export const SALES_OUTPUT = defineAgentOutput({
+  name: 'sales',
+  schema: z.object({
+    sales_guidance: z.object({
+      main_response: z.string().trim().min(1),
+      suggested_questions: z.array(z.string()).optional(),
+    }),
+    confidence: z.number().optional(),
+    metadata: metadataSchema.optional(),
+  }),
+  toMessage: data => ({
+    text: data.sales_guidance.main_response,
+    followups: cleanList(data.sales_guidance.suggested_questions),
+    confidence: data.confidence,
+    topic: data.metadata?.topic,
+    sources: cleanList(data.metadata?.sources_used),
+  }),
+  toPartialMessage: (partial, isComplete) => ({
+    text: typeof partial?.sales_guidance?.main_response === 'string' ? partial.sales_guidance.main_response : undefined,
+    followups: isComplete('sales_guidance.suggested_questions')
+      ? cleanList(partial.sales_guidance?.suggested_questions)
+      : undefined,
+  }),
+})
+
+/**
+ * Output specs by name, for configs that reference them as strings
+ */
+export const AGENT_OUTPUTS = {
+  support: SUPPORT_OUTPUT,
+  sales: SALES_OUTPUT,
+} as const satisfies Record<string, AgentOutputSpec<unknown>>
+
+export type AgentOutputName = keyof typeof AGENT_OUTPUTS
+
+/** Any of the declared output specs */
+export type KnownAgentOutput = (typeof AGENT_OUTPUTS)[AgentOutputName]
+
+/**
+ * Whether a name (e.g. from GET /api/agents) is one of AGENT_OUTPUTS
+ */
+export function isAgentOutputName(name: string): name is AgentOutputName {
+  return Object.prototype.hasOwnProperty.call(AGENT_OUTPUTS, name)
+}
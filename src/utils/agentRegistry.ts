@@ -0,0 +1,114 @@
+/**
+ * Agent registry (server-owned)
+ *
+ * The single list of agents /api/agent will talk to. Callers address an
+ * agent by its registry key (e.g. 'support') or its upstream ID; anything
+ * else is rejected. GET /api/agents publishes the display fields so the
+ * widget can render its tabs from here.
+ *
+ * @example
+ * ```ts
+ * const agent = findAgent(body.agent_id)
+ * if (!agent) return notFound()
+ * provider.complete({ agent_id: agent.upstreamId, ... })
+ * ```
+ */
+import type { AgentOutputName } from '@/utils/agentOutput'
+import type { AgentProviderConfig } from '@/utils/providers'
+import type { ResponseStageName } from '@/utils/responsePipeline'
+import type { StructuredFormat } from '@/utils/structuredParser'
+
+/**
+ * lucide icon names the widget knows how to render
+ */
+export type AgentIconName = 'help-circle' | 'trending-up' | 'user-plus' | 'shield-check' | 'handshake' | 'message-circle'
+
+export interface AgentDefinition {
+  /** Public, stable identifier (tab value, session binding) */
+  key: string
+  /** Agent ID on the upstream provider */
+  upstreamId: string
+  /** Short tab label */
+  name: string
+  title: string
+  subtitle: string
+  icon: AgentIconName
+  welcomeMessage: string
+  suggestions: string[]
+  /** Output spec name from @/utils/agentOutput (AGENT_OUTPUTS) */
+  output: AgentOutputName
+  /** Provider settings; AGENT_PROVIDERS in the environment still overrides */
+  provider?: Partial<AgentProviderConfig>
+  /** Reply normalization stages, in order (default: DEFAULT_RESPONSE_STAGES) */
+  pipeline?: ResponseStageName[]
+  /** Format the agent replies in (default 'json'); see @/utils/structuredParser */
+  format?: StructuredFormat
+}
+
+/**
+ * What GET /api/agents exposes - no upstream IDs or server-side settings
+ */
+export type PublicAgent = Omit<AgentDefinition, 'upstreamId' | 'provider' | 'pipeline' | 'format'>
+
+const AGENTS: AgentDefinition[] = [
+  {
+    key: 'support',
+    upstreamId: '693050ee2bb6b2ddb363e3cb',
+    name: 'Support',
+    title: 'Amadeo Support',
+    subtitle: 'Customer Support',
+    icon: 'help-circle',
+    welcomeMessage: 'Hi there! I\'m Amadeo Support Assistant. I\'m here to answer any questions about Amadeo Banking AI Agent. You can ask me about features, capabilities, integrations, pricing, or use cases. What would you like to know?',
+    suggestions: [
+      'What is Amadeo?',
+      'What are the key features?',
+      'How does integration work?',
+      'What use cases are supported?'
+    ],
+    output: 'support',
+  },
+  {
+    key: 'sales',
+    upstreamId: '693053006faee4d469e8a424',
+    name: 'Sales Copilot',
+    title: 'Amadeo Sales Copilot',
+    subtitle: 'Sales Development',
+    icon: 'trending-up',
+    welcomeMessage: 'Welcome! I\'m your Amadeo Sales Copilot. I\'m here to help you close more deals by providing sales strategies, objection handling, competitive positioning, and pitch preparation. How can I assist with your sales efforts today?',
+    suggestions: [
+      'How do I pitch Amadeo to a prospect?',
+      'How do I handle common objections?',
+      'What\'s Amadeo\'s competitive advantage?',
+      'Can you help me prepare a sales deck?'
+    ],
+    output: 'sales',
+  },
+]
+
+let registry: AgentDefinition[] = AGENTS
+
+/**
+ * All registered agents, in display order
+ */
+export function getAgentRegistry(): AgentDefinition[] {
+  return registry
+}
+
+/**
+ * Replace the registry (tests, deployments with their own agent list)
+ */
+export function setAgentRegistry(agents: AgentDefinition[]): void {
+  registry = agents
+}
+
+/**
+ * Look up an allowed agent by registry key or upstream ID
+ */
+export function findAgent(id: string): AgentDefinition | undefined {
+  return registry.find(agent => agent.key === id) || registry.find(agent => agent.upstreamId === id)
+}
+
+export function toPublicAgent(agent: AgentDefinition): PublicAgent {
+  const { upstreamId: _upstreamId, provider: _provider, pipeline: _pipeline, format: _format, ...rest } = agent
+  return rest
+}
@@ -0,0 +1,125 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { POST } from '../../app/api/agent/route'
+import { streamAIAgent, type AgentStreamEvent } from './aiAgent'
+import { setAgentRegistry } from './agentRegistry'
+import { getIdentity } from './identity'
+import { encodeSSE } from './sse'
+
+// A mock /api/agent that streams the given SSE chunks
+function sseFetch(chunks: string[]) {
+  return vi.fn(async () => {
+    const encoder = new TextEncoder()
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)))
+        controller.close()
+      },
+    })
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } })
+  })
+}
+
+async function collect(events: AsyncIterable<AgentStreamEvent>): Promise<AgentStreamEvent[]> {
+  const collected: AgentStreamEvent[] = []
+  for await (const event of events) collected.push(event)
+  return collected
+}
+
+const final = { success: true, response: { response: 'Hi there' }, session_id: 's1', session_token: 't1' }
+
+describe('streamAIAgent', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('yields tokens, partial values and the final result', async () => {
+    const fetch = sseFetch([
+      encodeSSE('token', { delta: '{"response": "Hi' }),
+      encodeSSE('token', { delta: ' there", "suggested_followups": ["Pricing?"]}' }),
+      encodeSSE('final', final),
+    ])
+
+    const events = await collect(streamAIAgent('Hello', 'support', { fetch, session_token: 't0' }))
+
+    expect(events).toEqual([
+      { type: 'token', delta: '{"response": "Hi', text: '{"response": "Hi' },
+      { type: 'partial', value: { response: 'Hi' }, completedPaths: [] },
+      { type: 'token', delta: ' there", "suggested_followups": ["Pricing?"]}', text: expect.stringContaining('Pricing') },
+      {
+        type: 'partial',
+        value: { response: 'Hi there', suggested_followups: ['Pricing?'] },
+        completedPaths: ['response', 'suggested_followups[0]', 'suggested_followups', ''],
+      },
+      { type: 'final', response: final },
+    ])
+    const [, init] = fetch.mock.calls[0] as unknown as [string, RequestInit]
+    expect(init.headers).toMatchObject({ Accept: 'text/event-stream' })
+    expect(JSON.parse(init.body as string)).toEqual({
+      message: 'Hello',
+      agent_id: 'support',
+      user_id: getIdentity().userId(),
+      session_token: 't0',
+    })
+  })
+
+  it('yields no partial values for plain-text replies', async () => {
+    const fetch = sseFetch([encodeSSE('token', { delta: 'Hi ' }), encodeSSE('token', { delta: 'there' }), encodeSSE('final', final)])
+
+    const events = await collect(streamAIAgent('Hello', 'support', { fetch }))
+
+    expect(events.map(event => event.type)).toEqual(['token', 'token', 'final'])
+  })
+
+  it('ends with an error event instead of throwing', async () => {
+    const rateLimited = vi.fn(async () =>
+      Response.json({ success: false, error: 'Too many requests', code: 'RATE_LIMITED', retry_after: 3 }, { status: 429 })
+    )
+    expect(await collect(streamAIAgent('Hello', 'support', { fetch: rateLimited }))).toEqual([
+      expect.objectContaining({ type: 'error', code: 'RATE_LIMITED', response: expect.objectContaining({ retry_after: 3 }) }),
+    ])
+
+    const interrupted = sseFetch([encodeSSE('token', { delta: 'Hi' })])
+    expect((await collect(streamAIAgent('Hello', 'support', { fetch: interrupted }))).pop()).toMatchObject({
+      type: 'error',
+      code: 'STREAM_INTERRUPTED',
+    })
+
+    const offline = vi.fn().mockRejectedValue(new TypeError('fetch failed'))
+    expect(await collect(streamAIAgent('Hello', 'support', { fetch: offline }))).toEqual([
+      expect.objectContaining({ type: 'error', code: 'NETWORK_ERROR', details: 'fetch failed' }),
+    ])
+
+    expect(await collect(streamAIAgent('', 'support', { fetch: offline }))).toEqual([
+      expect.objectContaining({ type: 'error', code: 'INVALID_REQUEST', issues: { message: ['message cannot be empty'] } }),
+    ])
+  })
+
+  it('streams from /api/agent', async () => {
+    vi.stubEnv('AGENT_PROVIDER', 'fixture')
+    vi.stubEnv('AGENT_FIXTURES', JSON.stringify({ 'support-upstream': { response: 'Amadeo helps banks' } }))
+    setAgentRegistry([
+      {
+        key: 'support',
+        upstreamId: 'support-upstream',
+        name: 'Support',
+        title: 'Support',
+        subtitle: 'Support',
+        icon: 'help-circle',
+        welcomeMessage: 'Hi',
+        suggestions: [],
+        output: 'support',
+      },
+    ])
+    const route = (url: RequestInfo | URL, init?: RequestInit) => POST(new Request(new URL(String(url), 'http://localhost'), init))
+
+    const events = await collect(streamAIAgent('What is Amadeo?', 'support', { fetch: route as typeof fetch }))
+
+    expect(events.filter(event => event.type === 'token').length).toBeGreaterThan(1)
+    expect(events.filter(event => event.type === 'partial').pop()).toMatchObject({ value: { response: 'Amadeo helps banks' } })
+    expect(events.pop()).toMatchObject({
+      type: 'final',
+      response: { success: true, response: { response: 'Amadeo helps banks' }, parse: { structured: true } },
+    })
+  })
+})
@@ -3,6 +3,8 @@
  *
  * Secure wrapper for calling the Lyzr AI Agent API through Next.js API routes
  * API keys are stored server-side only - never exposed to the client!
+ * For replies typed by the agent's output schema, use createAgentClient
+ * from @/utils/agentClient.
  *
  * @example
  * ```tsx
@@ -10,47 +12,39 @@
  *
  * const response = await callAIAgent('Explain React hooks', '68cbe7e5db8dcfa96f0df85b')
  * console.log(response)
+ *
+ * // Or as it is written
+ * for await (const event of streamAIAgent('Explain React hooks', 'support')) {
+ *   if (event.type === 'token') console.log(event.delta)
+ * }
  * ```
  */
 
+import type { AgentClientErrorCode } from '@/utils/agentClient'
+import {
+  AIAgentRequestSchema,
+  AIAgentResponseSchema,
+  IDEMPOTENCY_KEY_HEADER,
+  formatIssues,
+  type AIAgentResponse,
+} from '@/utils/agentContract'
+import { getIdentity } from '@/utils/identity'
+import { readSSE } from '@/utils/sse'
+import { createStreamingJsonParser } from '@/utils/streamingJson'
+
 // Secure: Call through Next.js API route (API key is on server!)
 const API_ROUTE = '/api/agent'
 
-export interface AIAgentRequest {
-  message: string
-  agent_id: string
-  user_id?: string
-  session_id?: string
-}
-
-export interface AIAgentResponse {
-  success: boolean
-  response?: any
-  agent_id?: string
-  user_id?: string
-  session_id?: string
-  timestamp?: string
-  error?: string
-  details?: string
-}
-
-/**
- * Generate random UUID for user_id and session_id
- */
-function generateUUID(): string {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-    const r = Math.random() * 16 | 0
-    const v = c === 'x' ? r : (r & 0x3 | 0x8)
-    return v.toString(16)
-  })
-}
+// Request/response types come from the shared zod contract used by the route
+export type { AIAgentRequest, AIAgentResponse } from '@/utils/agentContract'
 
 /**
  * Call the AI Agent with a message and agent_id (SECURE - via Next.js API route)
  *
  * @param message - Your query or prompt for the AI agent
  * @param agent_id - Agent ID (required, e.g., '68eba8c8bc2960ccbdf1b1a0')
- * @param options - Optional user_id and session_id (auto-generated if not provided)
+ * @param options - Optional user_id (default: the visitor's, see @/utils/identity),
+ *                  and the session_token of an earlier response to continue its session
  * @returns Promise with AI agent response
  *
  * @example
@@ -58,23 +52,37 @@ function generateUUID(): string {
  * // Basic usage
  * const result = await callAIAgent('What is TypeScript?', '68eba8c8bc2960ccbdf1b1a0')
  *
- * // With custom user_id and session_id
- * const result = await callAIAgent(
- *   'Review this code',
- *   '68eba8c8bc2960ccbdf1b1a0',
- *   { user_id: 'shreyas@lyzr.ai', session_id: 'custom-session' }
- * )
+ * // With a custom user_id
+ * const result = await callAIAgent('Review this code', '68eba8c8bc2960ccbdf1b1a0', { user_id: 'shreyas@lyzr.ai' })
+ *
+ * // Continue a conversation
+ * const next = await callAIAgent('Tell me more', agentId, { session_token: result.session_token })
  * ```
  */
 export async function callAIAgent(
   message: string,
   agent_id: string,
-  options?: { user_id?: string; session_id?: string }
+  options?: { user_id?: string; session_token?: string }
 ): Promise<AIAgentResponse> {
   try {
-    // Auto-generate IDs if not provided
-    const user_id = options?.user_id || `user-${generateUUID()}`
-    const session_id = options?.session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
+    // The visitor keeps one user_id across calls; the route issues the session
+    const user_id = options?.user_id || getIdentity().userId()
+
+    // Validate before sending - same rules the route applies
+    const request = AIAgentRequestSchema.safeParse({
+      message,
+      agent_id,
+      user_id,
+      session_token: options?.session_token,
+    })
+    if (!request.success) {
+      return {
+        success: false,
+        error: 'Invalid request',
+        code: 'INVALID_REQUEST',
+        issues: formatIssues(request.error),
+      }
+    }
 
     // SECURE: Call through Next.js API route (API key stays on server!)
     const response = await fetch(API_ROUTE, {
@@ -82,25 +90,25 @@ export async function callAIAgent(
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({
-        message,
-        agent_id,
-        user_id,
-        session_id,
-      }),
+      body: JSON.stringify(request.data),
     })
 
-    if (response.ok) {
-      const data = await response.json()
-      return data // API route already returns the correct format
-    } else {
-      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+    const data = await response.json().catch(() => null)
+    const parsed = AIAgentResponseSchema.safeParse(data)
+
+    if (!parsed.success) {
       return {
         success: false,
-        error: errorData.error || `API returned status ${response.status}`,
-        details: errorData.details,
+        error: response.ok ? 'Unexpected response from agent API' : `API returned status ${response.status}`,
+        details: JSON.stringify(formatIssues(parsed.error)),
       }
     }
+
+    if (!response.ok && parsed.data.success) {
+      return { success: false, error: `API returned status ${response.status}` }
+    }
+
+    return parsed.data // API route already returns the correct format
   } catch (error) {
     console.error('AI Agent call failed:', error)
     return {
@@ -111,8 +119,190 @@ export async function callAIAgent(
   }
 }
 
+/**
+ * What streamAIAgent yields, in order: tokens (with a partial value whenever
+ * the reply so far is JSON), then exactly one final or error event
+ */
+export type AgentStreamEvent =
+  | {
+      type: 'token'
+      delta: string
+      /** The reply so far */
+      text: string
+    }
+  | {
+      type: 'partial'
+      /** Best-effort structured value so far (see @/utils/streamingJson) */
+      value: any
+      /** Paths whose values are final, e.g. 'suggested_followups' */
+      completedPaths: string[]
+    }
+  | {
+      type: 'final'
+      /** The parsed result, as callAIAgent returns it */
+      response: AIAgentResponse
+    }
+  | {
+      type: 'error'
+      error: string
+      code?: AgentClientErrorCode
+      details?: string
+      issues?: Record<string, string[]>
+      /** The error body, when the route sent one */
+      response?: AIAgentResponse
+    }
+
+export interface StreamAIAgentOptions {
+  user_id?: string
+  session_token?: string
+  /** Sent as the Idempotency-Key header: repeats with the same key get the first answer */
+  idempotency_key?: string
+  signal?: AbortSignal
+  /** Agent route URL (default '/api/agent'); scripts outside the browser need an absolute one */
+  endpoint?: string
+  fetch?: typeof fetch
+}
+
+type AgentStreamEnd = Extract<AgentStreamEvent, { type: 'final' | 'error' }>
+
+/**
+ * The final or error event for a response body
+ */
+function settleStream(body: unknown, status?: number): AgentStreamEnd {
+  const failed = status !== undefined && status >= 400
+  const parsed = AIAgentResponseSchema.safeParse(body)
+
+  if (!parsed.success) {
+    return {
+      type: 'error',
+      error: failed ? `API returned status ${status}` : 'Unexpected response from agent API',
+      code: failed ? 'HTTP_ERROR' : 'INVALID_RESPONSE',
+      details: JSON.stringify(formatIssues(parsed.error)),
+    }
+  }
+
+  const response = parsed.data
+  if (response.success && !failed) return { type: 'final', response }
+  return {
+    type: 'error',
+    error: response.error || `API returned status ${status}`,
+    code: response.code ?? (failed ? 'HTTP_ERROR' : 'INVALID_RESPONSE'),
+    details: response.details,
+    issues: response.issues,
+    response,
+  }
+}
+
+function streamFailure(error: unknown, signal?: AbortSignal): AgentStreamEnd {
+  const aborted = signal?.aborted || (error instanceof Error && error.name === 'AbortError')
+  return {
+    type: 'error',
+    error: aborted ? 'Request was cancelled' : 'Failed to call AI agent',
+    code: aborted ? 'ABORTED' : 'NETWORK_ERROR',
+    details: error instanceof Error ? error.message : String(error),
+  }
+}
+
+/**
+ * Stream an AI Agent reply as it is written (SECURE - via Next.js API route)
+ *
+ * Uses the route's text/event-stream mode. Nothing is thrown: failures,
+ * including network errors and aborts, end the stream with an error event.
+ * Works anywhere fetch and ReadableStream do (browsers, Node 18+).
+ *
+ * @param message - Your query or prompt for the AI agent
+ * @param agent_id - Agent registry key or ID
+ * @param options - IDs as for callAIAgent, an idempotency
+ *                  key, an AbortSignal, and the endpoint/fetch to use outside the browser
+ *
+ * @example
+ * ```ts
+ * for await (const event of streamAIAgent('What is Amadeo?', 'support')) {
+ *   if (event.type === 'token') process.stdout.write(event.delta)
+ *   if (event.type === 'partial') render(event.value?.response)
+ *   if (event.type === 'final') save(event.response.session_token)
+ *   if (event.type === 'error') console.error(event.code, event.error)
+ * }
+ * ```
+ */
+export async function* streamAIAgent(
+  message: string,
+  agent_id: string,
+  options: StreamAIAgentOptions = {}
+): AsyncGenerator<AgentStreamEvent> {
+  const { signal } = options
+  const request = AIAgentRequestSchema.safeParse({
+    message,
+    agent_id,
+    user_id: options.user_id || getIdentity().userId(),
+    session_token: options.session_token,
+  })
+  if (!request.success) {
+    yield { type: 'error', error: 'Invalid request', code: 'INVALID_REQUEST', issues: formatIssues(request.error) }
+    return
+  }
+
+  let response: Response
+  try {
+    const fetchImpl = options.fetch || fetch
+    response = await fetchImpl(options.endpoint || API_ROUTE, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+        ...(options.idempotency_key && { [IDEMPOTENCY_KEY_HEADER]: options.idempotency_key }),
+      },
+      body: JSON.stringify(request.data),
+      signal,
+    })
+  } catch (error) {
+    yield streamFailure(error, signal)
+    return
+  }
+
+  // Errors before the stream starts (and servers that don't stream) answer with JSON
+  const contentType = response.headers.get('content-type') || ''
+  if (!contentType.includes('text/event-stream') || !response.body) {
+    yield settleStream(await response.json().catch(() => null), response.status)
+    return
+  }
+
+  let text = ''
+  const jsonStream = createStreamingJsonParser()
+  try {
+    for await (const event of readSSE(response.body)) {
+      let payload: any
+      try {
+        payload = JSON.parse(event.data)
+      } catch {
+        continue // Not one of our events
+      }
+
+      if (event.event === 'token' && typeof payload?.delta === 'string') {
+        text += payload.delta
+        yield { type: 'token', delta: payload.delta, text }
+
+        const snapshot = jsonStream.push(payload.delta)
+        if (snapshot.value !== undefined && !snapshot.error) {
+          yield { type: 'partial', value: snapshot.value, completedPaths: snapshot.completedPaths }
+        }
+      } else if (event.event === 'final' || event.event === 'error') {
+        yield settleStream(payload)
+        return
+      }
+    }
+  } catch (error) {
+    yield streamFailure(error, signal)
+    return
+  }
+
+  yield { type: 'error', error: 'Stream ended without a result', code: 'STREAM_INTERRUPTED' }
+}
+
 /**
  * Hook for using AI Agent in React components
+ * Keeps only the last response - chat UIs should use useAgentConversation
+ * from @/hooks/use-agent-conversation.
  *
  * @example
  * ```tsx
@@ -144,7 +334,7 @@ export function useAIAgent() {
   const callAgent = async (
     message: string,
     agent_id: string,
-    options?: { user_id?: string; session_id?: string }
+    options?: { user_id?: string; session_token?: string }
   ) => {
     setLoading(true)
     setError(null)
@@ -0,0 +1,217 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  CHAT_HISTORY_SCHEMA_VERSION,
+  applyRetention,
+  createChatHistory,
+  createFallbackHistoryStore,
+  createLocalStorageHistoryStore,
+  createMemoryHistoryStore,
+  migrateRecord,
+  toStoredConversation,
+  type ChatConversation,
+  type ChatHistoryStore,
+} from './chatHistory'
+
+const DAY = 24 * 60 * 60 * 1000
+
+function conversation(sessionId: string, texts: string[] = ['Hi']): ChatConversation {
+  return {
+    sessionId,
+    sessionToken: `token-${sessionId}`,
+    suggestions: ['What else?'],
+    messages: texts.map((text, index) => ({
+      id: String(index),
+      text,
+      sender: index % 2 === 0 ? 'user' : 'agent',
+      timestamp: new Date('2026-03-01T10:00:00Z'),
+      feedback: index === 1 ? 'up' : undefined,
+    })),
+  }
+}
+
+describe('migrateRecord', () => {
+  it('accepts current records and rejects unknown versions or shapes', () => {
+    const record = toStoredConversation('support', { ...conversation('s1'), sessionId: 's1' }, 0)
+
+    expect(migrateRecord(record)).toEqual(record)
+    expect(migrateRecord({ ...record, schemaVersion: CHAT_HISTORY_SCHEMA_VERSION + 1 })).toBeNull()
+    expect(migrateRecord({ ...record, schemaVersion: 0 })).toBeNull()
+    expect(migrateRecord({ ...record, messages: 'nope' })).toBeNull()
+    expect(migrateRecord('garbage')).toBeNull()
+  })
+})
+
+describe('applyRetention', () => {
+  const policy = { maxConversations: 2, maxMessagesPerConversation: 2, maxAgeMs: 30 * DAY, maxChars: 100_000 }
+  const record = (id: string, updatedAt: number, texts?: string[]) =>
+    toStoredConversation('support', { ...conversation(id, texts), sessionId: id }, updatedAt)
+
+  it('keeps the newest conversations and drops expired ones', () => {
+    const now = 40 * DAY
+    const { keep, drop } = applyRetention(
+      [record('old', 0), record('a', now - 3), record('b', now - 1), record('c', now - 2)],
+      policy,
+      now
+    )
+
+    expect(keep.map(r => r.sessionId)).toEqual(['b', 'c'])
+    expect(drop.sort()).toEqual(['support:a', 'support:old'])
+  })
+
+  it('trims long conversations to their latest messages', () => {
+    const { keep } = applyRetention([record('a', 0, ['1', '2', '3'])], policy, 0)
+    expect(keep[0].messages.map(m => m.text)).toEqual(['2', '3'])
+  })
+
+  it('bounds the total size but always keeps the newest', () => {
+    const big = 'x'.repeat(500)
+    const { keep, drop } = applyRetention(
+      [record('a', 2, [big]), record('b', 1, [big])],
+      { ...policy, maxChars: 600 },
+      2
+    )
+
+    expect(keep.map(r => r.sessionId)).toEqual(['a'])
+    expect(drop).toEqual(['support:b'])
+  })
+})
+
+describe('createChatHistory', () => {
+  it('restores messages, feedback and suggestions per agent', async () => {
+    const history = createChatHistory(createMemoryHistoryStore())
+    await history.save('support', conversation('s1', ['Hi', 'Hello!']))
+    await history.save('sales', conversation('s2'))
+
+    const { active } = await history.load()
+
+    expect(Object.keys(active).sort()).toEqual(['sales', 'support'])
+    expect(active.support.messages[1]).toMatchObject({ text: 'Hello!', feedback: 'up' })
+    expect(active.support.messages[1].timestamp).toBeInstanceOf(Date)
+    expect(active.support.suggestions).toEqual(['What else?'])
+    expect(active.support.sessionToken).toBe('token-s1')
+  })
+
+  it('restores messages that were still sending or waiting to send as failed', async () => {
+    const history = createChatHistory(createMemoryHistoryStore())
+    const saved = conversation('s1', ['Hi', 'Hello!', 'Pricing?', 'Demo?', 'Security?'])
+    saved.messages[0].status = 'sent'
+    saved.messages[2].status = 'pending'
+    saved.messages[4].status = 'queued'
+    await history.save('support', saved)
+
+    const { active } = await history.load()
+
+    expect(active.support.messages.map(message => message.status)).toEqual(['sent', undefined, 'failed', undefined, 'failed'])
+  })
+
+  it('does not save conversations without a session', async () => {
+    const store = createMemoryHistoryStore()
+    await createChatHistory(store).save('support', { messages: [], suggestions: [] })
+    expect(await store.getAll()).toEqual([])
+  })
+
+  it('keeps ended conversations for restore, and resumes them only when asked to', async () => {
+    const history = createChatHistory(createMemoryHistoryStore())
+    await history.end('support', conversation('s1'))
+
+    let loaded = await history.load()
+    expect(loaded.active).toEqual({})
+    expect(loaded.ended.support.sessionId).toBe('s1')
+
+    // A late save (e.g. a reply that arrived after closing) leaves it ended
+    await history.save('support', conversation('s1', ['Hi', 'Late reply']))
+    loaded = await history.load()
+    expect(loaded.active).toEqual({})
+    expect(loaded.ended.support.messages).toHaveLength(1)
+
+    await history.resume('support', loaded.ended.support)
+    loaded = await history.load()
+    expect(loaded.active.support.sessionId).toBe('s1')
+    expect(loaded.ended).toEqual({})
+  })
+
+  it('lands writes in the order they were called', async () => {
+    const memory = createMemoryHistoryStore()
+    // Each write takes longer than the next, so unordered writes would land backwards
+    let delay = 30
+    const slow: ChatHistoryStore = {
+      getAll: () => memory.getAll(),
+      put: record => new Promise(resolve => setTimeout(() => resolve(memory.put(record)), (delay -= 10))),
+      delete: ids => memory.delete(ids),
+    }
+    const history = createChatHistory(slow)
+
+    const saving = history.save('support', conversation('s1', ['Hi', 'Hello!']))
+    await Promise.all([saving, history.end('support', conversation('s1', ['Hi', 'Hello!']))])
+
+    const loaded = await history.load()
+    expect(loaded.active).toEqual({})
+    expect(loaded.ended.support.messages).toHaveLength(2)
+  })
+
+  it('reads the store once and keeps the records from then on', async () => {
+    const store = createMemoryHistoryStore()
+    const getAll = vi.spyOn(store, 'getAll')
+    const history = createChatHistory(store)
+
+    await history.save('support', conversation('s1'))
+    await history.save('support', conversation('s1', ['Hi', 'Hello!']))
+    await history.save('sales', conversation('s2'))
+
+    expect(getAll).toHaveBeenCalledTimes(1)
+    expect(await store.getAll()).toHaveLength(2)
+  })
+
+  it('applies retention whenever it saves', async () => {
+    const store = createMemoryHistoryStore()
+    let time = 0
+    const policy = { maxConversations: 2, maxMessagesPerConversation: 2, maxAgeMs: 30 * DAY, maxChars: 100_000 }
+    const history = createChatHistory(store, policy, () => ++time)
+
+    await history.save('support', conversation('s1'))
+    await history.save('sales', conversation('s2'))
+    await history.save('onboarding', conversation('s3', ['1', '2', '3']))
+
+    const records = (await store.getAll()) as { sessionId: string; messages: unknown[] }[]
+    expect(records.map(record => record.sessionId).sort()).toEqual(['s2', 's3'])
+    expect(records.find(record => record.sessionId === 's3')?.messages).toHaveLength(2)
+  })
+
+  it('deletes records it cannot migrate', async () => {
+    const store = createMemoryHistoryStore()
+    const record = toStoredConversation('support', { ...conversation('s1'), sessionId: 's1' })
+    await store.put({ ...record, schemaVersion: 99 })
+
+    expect((await createChatHistory(store).load()).active).toEqual({})
+    expect(await store.getAll()).toEqual([])
+  })
+})
+
+describe('history stores', () => {
+  it('persists to localStorage under one key', async () => {
+    localStorage.clear()
+    const history = createChatHistory(createLocalStorageHistoryStore(localStorage))
+    await history.save('support', conversation('s1'))
+
+    expect(JSON.parse(localStorage.getItem('amadeo-chat-history') || '[]')).toHaveLength(1)
+    const reloaded = createChatHistory(createLocalStorageHistoryStore(localStorage))
+    expect((await reloaded.load()).active.support.sessionId).toBe('s1')
+  })
+
+  it('falls back when the primary store fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const broken: ChatHistoryStore = {
+      getAll: () => Promise.reject(new Error('blocked')),
+      put: () => Promise.reject(new Error('blocked')),
+      delete: () => Promise.reject(new Error('blocked')),
+    }
+    const fallback = createMemoryHistoryStore()
+    const history = createChatHistory(createFallbackHistoryStore(broken, fallback))
+
+    await history.save('support', conversation('s1'))
+
+    expect(await fallback.getAll()).toHaveLength(1)
+    expect((await history.load()).active.support.sessionId).toBe('s1')
+    warn.mockRestore()
+  })
+})
@@ -0,0 +1,465 @@
+/**
+ * Persistent chat history for the widget
+ *
+ * Conversations are saved per agent and session in IndexedDB, or in
+ * localStorage where IndexedDB is unavailable (private browsing, blocked
+ * storage). Every record carries a schema version so older saves can be
+ * migrated or dropped, and a retention policy bounds how much is kept; it is
+ * applied on load and on every write. The store is read once, on the first
+ * load or write, and the records are kept in memory from then on.
+ *
+ * Ending a conversation doesn't delete it: it is marked ended and can be
+ * restored with resume() until retention drops it. save() leaves an ended
+ * conversation as it is, so a late save can't reopen it. Loads and writes run
+ * one at a time in the order they were called, so an end() always lands
+ * after the saves issued before it.
+ *
+ * @example
+ * ```ts
+ * const history = createChatHistory(getChatHistoryStore())
+ * const { active, ended } = await history.load()
+ * await history.save('support', conversation)
+ * ```
+ */
+
+/**
+ * Delivery of a user message: waiting for a connection, its request is
+ * running, got a reply, or failed
+ */
+export type MessageStatus = 'queued' | 'pending' | 'sent' | 'failed'
+
+export interface ChatMessage {
+  id: string
+  text: string
+  sender: 'user' | 'agent'
+  timestamp: Date
+  status?: MessageStatus
+  feedback?: 'up' | 'down' | null
+  confidence?: number
+  topic?: string
+  sources?: string[]
+}
+
+/**
+ * One agent's conversation as the widget holds it
+ */
+export interface ChatConversation {
+  messages: ChatMessage[]
+  suggestions: string[]
+  /** Known once /api/agent has answered; conversations are saved under it */
+  sessionId?: string
+  sessionToken?: string
+}
+
+export const CHAT_HISTORY_SCHEMA_VERSION = 1
+
+export type StoredMessage = Omit<ChatMessage, 'timestamp'> & { timestamp: string }
+
+export interface StoredConversation {
+  /** `${agentKey}:${sessionId}` */
+  id: string
+  schemaVersion: number
+  agentKey: string
+  sessionId: string
+  sessionToken?: string
+  messages: StoredMessage[]
+  suggestions: string[]
+  updatedAt: number
+  /** Set when the user ended the conversation */
+  endedAt?: number
+}
+
+/**
+ * Record storage. Implementations only persist - versioning and retention
+ * are handled by createChatHistory().
+ */
+export interface ChatHistoryStore {
+  getAll(): Promise<unknown[]>
+  put(record: StoredConversation): Promise<void>
+  delete(ids: string[]): Promise<void>
+}
+
+export interface RetentionPolicy {
+  maxConversations: number
+  maxMessagesPerConversation: number
+  maxAgeMs: number
+  /** Upper bound on the serialized size of all records, in characters */
+  maxChars: number
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  maxConversations: 20,
+  maxMessagesPerConversation: 200,
+  // Matches the session token lifetime - older sessions can't be resumed
+  maxAgeMs: 30 * 24 * 60 * 60 * 1000,
+  maxChars: 1_000_000,
+}
+
+const DB_NAME = 'amadeo-chat'
+const DB_STORE = 'conversations'
+const LOCAL_STORAGE_KEY = 'amadeo-chat-history'
+
+/**
+ * Upgrades from each older schema version to the next one.
+ * Add a step here whenever CHAT_HISTORY_SCHEMA_VERSION is bumped.
+ */
+const MIGRATIONS: Record<number, (record: any) => any> = {}
+
+function isStoredConversation(value: any): value is StoredConversation {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof value.id === 'string' &&
+    typeof value.agentKey === 'string' &&
+    typeof value.sessionId === 'string' &&
+    typeof value.updatedAt === 'number' &&
+    Array.isArray(value.messages) &&
+    Array.isArray(value.suggestions)
+  )
+}
+
+/**
+ * Bring a saved record up to the current schema version.
+ * Returns null for records that are malformed or can't be migrated.
+ */
+export function migrateRecord(raw: unknown): StoredConversation | null {
+  let record: any = raw
+  if (typeof record !== 'object' || record === null || typeof record.schemaVersion !== 'number') return null
+
+  while (record.schemaVersion < CHAT_HISTORY_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[record.schemaVersion]
+    if (!migrate) return null
+    record = { ...migrate(record), schemaVersion: record.schemaVersion + 1 }
+  }
+
+  if (record.schemaVersion !== CHAT_HISTORY_SCHEMA_VERSION) return null
+  return isStoredConversation(record) ? record : null
+}
+
+// Serialized size by record; records aren't changed once stored, only replaced
+const RECORD_SIZES = new WeakMap<StoredConversation, number>()
+
+function recordSize(record: StoredConversation): number {
+  let size = RECORD_SIZES.get(record)
+  if (size === undefined) {
+    size = JSON.stringify(record).length
+    RECORD_SIZES.set(record, size)
+  }
+  return size
+}
+
+/**
+ * Decide which records to keep: drops expired ones, keeps the newest
+ * `maxConversations` within `maxChars`, and trims long conversations to
+ * their latest messages. The newest conversation is always kept.
+ */
+export function applyRetention(
+  records: StoredConversation[],
+  policy: RetentionPolicy = DEFAULT_RETENTION,
+  now: number = Date.now()
+): { keep: StoredConversation[]; drop: string[] } {
+  const keep: StoredConversation[] = []
+  const drop: string[] = []
+  let chars = 0
+
+  const newestFirst = [...records].sort((a, b) => b.updatedAt - a.updatedAt)
+  for (const record of newestFirst) {
+    if (now - record.updatedAt > policy.maxAgeMs || keep.length >= policy.maxConversations) {
+      drop.push(record.id)
+      continue
+    }
+
+    const trimmed =
+      record.messages.length > policy.maxMessagesPerConversation
+        ? { ...record, messages: record.messages.slice(-policy.maxMessagesPerConversation) }
+        : record
+    const size = recordSize(trimmed)
+
+    if (keep.length > 0 && chars + size > policy.maxChars) {
+      drop.push(record.id)
+      continue
+    }
+
+    chars += size
+    keep.push(trimmed)
+  }
+
+  return { keep, drop }
+}
+
+export function toStoredConversation(
+  agentKey: string,
+  conversation: ChatConversation & { sessionId: string },
+  now: number = Date.now()
+): StoredConversation {
+  return {
+    id: `${agentKey}:${conversation.sessionId}`,
+    schemaVersion: CHAT_HISTORY_SCHEMA_VERSION,
+    agentKey,
+    sessionId: conversation.sessionId,
+    sessionToken: conversation.sessionToken,
+    messages: conversation.messages.map(message => ({ ...message, timestamp: message.timestamp.toISOString() })),
+    suggestions: conversation.suggestions,
+    updatedAt: now,
+  }
+}
+
+export function fromStoredConversation(record: StoredConversation): ChatConversation {
+  return {
+    messages: record.messages.map(message => ({
+      ...message,
+      timestamp: new Date(message.timestamp),
+      // The request (or the outbox holding it) didn't survive the page that sent it
+      ...((message.status === 'pending' || message.status === 'queued') && { status: 'failed' as const }),
+    })),
+    suggestions: record.suggestions,
+    sessionId: record.sessionId,
+    sessionToken: record.sessionToken,
+  }
+}
+
+/**
+ * In-memory store (tests, server rendering)
+ */
+export function createMemoryHistoryStore(): ChatHistoryStore {
+  const records = new Map<string, StoredConversation>()
+
+  return {
+    async getAll() {
+      return Array.from(records.values())
+    },
+    async put(record) {
+      records.set(record.id, record)
+    },
+    async delete(ids) {
+      ids.forEach(id => records.delete(id))
+    },
+  }
+}
+
+/**
+ * All records as one JSON array under a single localStorage key
+ */
+export function createLocalStorageHistoryStore(storage: Storage = window.localStorage): ChatHistoryStore {
+  const read = (): any[] => {
+    try {
+      const saved = JSON.parse(storage.getItem(LOCAL_STORAGE_KEY) || '[]')
+      return Array.isArray(saved) ? saved : []
+    } catch {
+      return []
+    }
+  }
+
+  const write = (records: any[]) => storage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(records))
+
+  return {
+    async getAll() {
+      return read()
+    },
+    async put(record) {
+      write([...read().filter(saved => saved?.id !== record.id), record])
+    },
+    async delete(ids) {
+      write(read().filter(saved => !ids.includes(saved?.id)))
+    },
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * IndexedDB store, one object per conversation
+ */
+export function createIndexedDBHistoryStore(factory: IDBFactory = indexedDB): ChatHistoryStore {
+  let db: Promise<IDBDatabase> | null = null
+
+  const open = () => {
+    if (!db) {
+      const request = factory.open(DB_NAME, 1)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(DB_STORE, { keyPath: 'id' })
+      }
+      db = requestToPromise(request)
+    }
+    return db
+  }
+
+  const objectStore = async (mode: IDBTransactionMode) =>
+    (await open()).transaction(DB_STORE, mode).objectStore(DB_STORE)
+
+  return {
+    async getAll() {
+      return requestToPromise((await objectStore('readonly')).getAll())
+    },
+    async put(record) {
+      await requestToPromise((await objectStore('readwrite')).put(record))
+    },
+    async delete(ids) {
+      const store = await objectStore('readwrite')
+      await Promise.all(ids.map(id => requestToPromise(store.delete(id))))
+    },
+  }
+}
+
+/**
+ * Use `primary` until it fails once, then `fallback` from then on
+ */
+export function createFallbackHistoryStore(primary: ChatHistoryStore, fallback: ChatHistoryStore): ChatHistoryStore {
+  let active = primary
+
+  const run = async <T>(operation: (store: ChatHistoryStore) => Promise<T>): Promise<T> => {
+    if (active === fallback) return operation(fallback)
+    try {
+      return await operation(primary)
+    } catch (error) {
+      console.warn('Chat history storage failed, falling back to localStorage:', error)
+      active = fallback
+      return operation(fallback)
+    }
+  }
+
+  return {
+    getAll: () => run(store => store.getAll()),
+    put: record => run(store => store.put(record)),
+    delete: ids => run(store => store.delete(ids)),
+  }
+}
+
+/**
+ * The best store this browser supports: IndexedDB, then localStorage,
+ * then memory (nothing persists)
+ */
+export function getChatHistoryStore(): ChatHistoryStore {
+  const hasLocalStorage = (() => {
+    try {
+      return typeof window !== 'undefined' && !!window.localStorage
+    } catch {
+      return false
+    }
+  })()
+  const fallback = hasLocalStorage ? createLocalStorageHistoryStore() : createMemoryHistoryStore()
+
+  if (typeof indexedDB === 'undefined') return fallback
+  return createFallbackHistoryStore(createIndexedDBHistoryStore(), fallback)
+}
+
+export interface LoadedHistory {
+  /** Conversations to resume, by agent key */
+  active: Record<string, ChatConversation>
+  /** Most recent ended conversation per agent, for "restore" */
+  ended: Record<string, ChatConversation>
+}
+
+export function createChatHistory(
+  store: ChatHistoryStore,
+  policy: RetentionPolicy = DEFAULT_RETENTION,
+  now: () => number = Date.now
+) {
+  // Migrated and retained records, once read from the store
+  let cache: StoredConversation[] | null = null
+  let queue: Promise<unknown> = Promise.resolve()
+
+  /**
+   * Run after everything called before it, whether that succeeded or not
+   */
+  const serially = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task, task)
+    queue = run.catch(() => {})
+    return run
+  }
+
+  /**
+   * Read, migrate and prune everything; invalid and dropped records are deleted
+   */
+  const readAll = async (): Promise<StoredConversation[]> => {
+    const raw = await store.getAll()
+    const invalid: string[] = []
+    const records: StoredConversation[] = []
+
+    for (const item of raw) {
+      const record = migrateRecord(item)
+      if (record) {
+        records.push(record)
+        if (record !== item) await store.put(record)
+      } else if (typeof (item as any)?.id === 'string') {
+        invalid.push((item as any).id)
+      }
+    }
+
+    return prune(records, invalid)
+  }
+
+  /**
+   * Delete what retention drops (and `invalid`), and store trimmed records
+   */
+  const prune = async (records: StoredConversation[], invalid: string[] = []): Promise<StoredConversation[]> => {
+    const { keep, drop } = applyRetention(records, policy, now())
+    if (invalid.length > 0 || drop.length > 0) await store.delete([...invalid, ...drop])
+    for (const record of keep) {
+      if (!records.includes(record)) await store.put(record)
+    }
+    return keep
+  }
+
+  /**
+   * Store a conversation (once it has a session), then apply retention.
+   * - save: an ended conversation is left as it is
+   * - end: mark it ended
+   * - resume: store it as active, ended or not
+   */
+  const write = async (agentKey: string, conversation: ChatConversation, mode: 'save' | 'end' | 'resume') => {
+    if (!conversation.sessionId) return
+    const records = cache ?? (cache = await readAll())
+    const record = toStoredConversation(agentKey, { ...conversation, sessionId: conversation.sessionId }, now())
+    if (mode === 'save' && records.some(existing => existing.id === record.id && existing.endedAt)) return
+
+    const stored = mode === 'end' ? { ...record, endedAt: now() } : record
+    await store.put(stored)
+    cache = await prune([stored, ...records.filter(existing => existing.id !== record.id)])
+  }
+
+  return {
+    load(): Promise<LoadedHistory> {
+      return serially(async () => {
+        const history: LoadedHistory = { active: {}, ended: {} }
+        cache = await readAll()
+
+        // Newest first, so the first record seen per agent wins
+        for (const record of cache) {
+          const bucket = record.endedAt ? history.ended : history.active
+          if (!bucket[record.agentKey]) bucket[record.agentKey] = fromStoredConversation(record)
+        }
+        return history
+      })
+    },
+
+    /**
+     * Save a conversation (only once it has a session). An ended conversation
+     * stays ended; resume() it first.
+     */
+    save(agentKey: string, conversation: ChatConversation): Promise<void> {
+      return serially(() => write(agentKey, conversation, 'save'))
+    },
+
+    /**
+     * Mark a conversation ended - kept for restore until retention drops it
+     */
+    end(agentKey: string, conversation: ChatConversation): Promise<void> {
+      return serially(() => write(agentKey, conversation, 'end'))
+    },
+
+    /**
+     * Make an ended conversation active again, e.g. when the user restores it
+     */
+    resume(agentKey: string, conversation: ChatConversation): Promise<void> {
+      return serially(() => write(agentKey, conversation, 'resume'))
+    },
+  }
+}
+
+export type ChatHistory = ReturnType<typeof createChatHistory>
@@ -0,0 +1,171 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import {
+  createIdempotency,
+  createMemoryIdempotencyStore,
+  fingerprintRequest,
+  IdempotencyStoreFullError,
+  getIdempotencyTtlMs,
+  isIdempotencyKey,
+} from './idempotency'
+
+const OK = { status: 200, body: { success: true, response: 'Hello!' } }
+
+describe('createMemoryIdempotencyStore', () => {
+  it('claims a key once until its record expires', async () => {
+    const store = createMemoryIdempotencyStore()
+    const record = { state: 'in-flight' as const, fingerprint: 'a', expiresAt: 1000, token: 't' }
+
+    expect(await store.claim('k', record, 0)).toBeNull()
+    expect(await store.claim('k', { ...record, fingerprint: 'b' }, 500)).toEqual(record)
+    expect(await store.claim('k', { ...record, expiresAt: 3000 }, 1000)).toBeNull()
+  })
+
+  it('evicts the oldest completed records once it holds maxKeys', async () => {
+    const store = createMemoryIdempotencyStore({ maxKeys: 3 })
+    const record = (fingerprint: string) => ({ state: 'in-flight' as const, fingerprint, expiresAt: 1000, token: fingerprint })
+    const done = (fingerprint: string) => ({ state: 'done' as const, fingerprint, response: OK, expiresAt: 1000 })
+
+    for (const key of ['a', 'b', 'c']) await store.claim(key, record(key), 0)
+    await store.swap('b', 'b', done('b'))
+    await store.swap('c', 'c', done('c'))
+    expect(await store.claim('d', record('d'), 0)).toBeNull()
+
+    // 'b' made room for 'd'; the running claim on 'a' is still held
+    expect(await store.claim('a', record('new'), 0)).toEqual(record('a'))
+    expect(await store.claim('c', record('new'), 0)).toEqual(done('c'))
+    expect(await store.claim('b', record('new'), 0)).toBeNull()
+  })
+
+  it('refuses new keys rather than drop a running claim', async () => {
+    const store = createMemoryIdempotencyStore({ maxKeys: 2 })
+    const record = (fingerprint: string) => ({ state: 'in-flight' as const, fingerprint, expiresAt: 1000, token: fingerprint })
+
+    await store.claim('a', record('a'), 0)
+    await store.claim('b', record('b'), 0)
+
+    await expect(store.claim('c', record('c'), 0)).rejects.toBeInstanceOf(IdempotencyStoreFullError)
+    expect(await store.claim('a', record('new'), 0)).toEqual(record('a'))
+    // Expired claims still make room
+    expect(await store.claim('c', record('c'), 1000)).toBeNull()
+  })
+
+  it('swaps a record only while the claim still holds it', async () => {
+    const store = createMemoryIdempotencyStore()
+    await store.claim('k', { state: 'in-flight', fingerprint: 'a', expiresAt: 1000, token: 'first' }, 0)
+    await store.claim('k', { state: 'in-flight', fingerprint: 'a', expiresAt: 3000, token: 'second' }, 1000)
+
+    expect(await store.swap('k', 'first', null)).toBe(false)
+    expect(await store.swap('k', 'second', null)).toBe(true)
+  })
+})
+
+describe('createIdempotency', () => {
+  const fingerprint = fingerprintRequest({ message: 'Hi', agent_id: 'support' })
+
+  it('replays a completed result', async () => {
+    const idempotency = createIdempotency({ store: createMemoryIdempotencyStore(), ttlMs: 60_000 })
+
+    const first = await idempotency.begin('k', fingerprint)
+    expect(first.kind).toBe('claimed')
+    if (first.kind === 'claimed') await first.complete(OK)
+
+    expect(await idempotency.begin('k', fingerprint)).toEqual({ kind: 'replay', response: OK })
+  })
+
+  it('frees the key when the request fails', async () => {
+    const idempotency = createIdempotency({ store: createMemoryIdempotencyStore(), ttlMs: 60_000 })
+
+    const first = await idempotency.begin('k', fingerprint)
+    if (first.kind === 'claimed') await first.release()
+
+    expect((await idempotency.begin('k', fingerprint)).kind).toBe('claimed')
+  })
+
+  it('refuses the key for a different request', async () => {
+    const idempotency = createIdempotency({ store: createMemoryIdempotencyStore(), ttlMs: 60_000 })
+    await idempotency.begin('k', fingerprint)
+
+    const outcome = await idempotency.begin('k', fingerprintRequest({ message: 'Bye', agent_id: 'support' }))
+
+    expect(outcome).toEqual({ kind: 'conflict' })
+  })
+
+  it('waits for a request that is still running', async () => {
+    const idempotency = createIdempotency({ store: createMemoryIdempotencyStore(), ttlMs: 60_000, pollMs: 5 })
+    const first = await idempotency.begin('k', fingerprint)
+
+    const repeat = idempotency.begin('k', fingerprint)
+    await new Promise(resolve => setTimeout(resolve, 20))
+    if (first.kind === 'claimed') await first.complete(OK)
+
+    expect(await repeat).toEqual({ kind: 'replay', response: OK })
+  })
+
+  it('takes over a claim that was never completed', async () => {
+    const idempotency = createIdempotency({ store: createMemoryIdempotencyStore(), ttlMs: 60_000, lockMs: 10, pollMs: 5 })
+    await idempotency.begin('k', fingerprint)
+
+    expect((await idempotency.begin('k', fingerprint)).kind).toBe('claimed')
+  })
+
+  it('leaves a claim that was taken over alone', async () => {
+    const idempotency = createIdempotency({ store: createMemoryIdempotencyStore(), ttlMs: 60_000, lockMs: 10, pollMs: 5 })
+    const stale = await idempotency.begin('k', fingerprint)
+    const current = await idempotency.begin('k', fingerprint)
+
+    if (stale.kind === 'claimed') {
+      await stale.complete({ status: 200, body: 'stale' })
+      await stale.release()
+    }
+    if (current.kind === 'claimed') await current.complete(OK)
+
+    expect(await idempotency.begin('k', fingerprint)).toEqual({ kind: 'replay', response: OK })
+  })
+
+  it('keeps a renewed claim past its lock', async () => {
+    const idempotency = createIdempotency({ store: createMemoryIdempotencyStore(), ttlMs: 60_000, lockMs: 40, pollMs: 5 })
+    const first = await idempotency.begin('k', fingerprint)
+    const controller = new AbortController()
+
+    await new Promise(resolve => setTimeout(resolve, 30))
+    if (first.kind === 'claimed') await first.renew()
+    setTimeout(() => controller.abort(), 25)
+
+    // Past the first lock, the repeat still waits for the running request
+    expect(await idempotency.begin('k', fingerprint, controller.signal)).toEqual({ kind: 'in-progress' })
+  })
+
+  it('reports a full store as unavailable', async () => {
+    const idempotency = createIdempotency({ store: createMemoryIdempotencyStore({ maxKeys: 1 }), ttlMs: 60_000 })
+    await idempotency.begin('a', fingerprint)
+
+    expect(await idempotency.begin('b', fingerprint)).toEqual({ kind: 'unavailable' })
+  })
+
+  it('stops waiting when the caller goes away', async () => {
+    const idempotency = createIdempotency({ store: createMemoryIdempotencyStore(), ttlMs: 60_000, pollMs: 5 })
+    await idempotency.begin('k', fingerprint)
+    const controller = new AbortController()
+
+    const repeat = idempotency.begin('k', fingerprint, controller.signal)
+    controller.abort()
+
+    expect(await repeat).toEqual({ kind: 'in-progress' })
+  })
+})
+
+describe('idempotency settings', () => {
+  it('reads the TTL from the environment', () => {
+    expect(getIdempotencyTtlMs({})).toBe(24 * 60 * 60 * 1000)
+    expect(getIdempotencyTtlMs({ IDEMPOTENCY_TTL_SECONDS: '30' })).toBe(30_000)
+    expect(() => getIdempotencyTtlMs({ IDEMPOTENCY_TTL_SECONDS: 'soon' })).toThrow(/IDEMPOTENCY_TTL_SECONDS/)
+  })
+
+  it('accepts keys of 1-255 visible ASCII characters', () => {
+    expect(isIdempotencyKey('3b241101-e2bb-4255-8caf-4136c566a962')).toBe(true)
+    expect(isIdempotencyKey('')).toBe(false)
+    expect(isIdempotencyKey('has space')).toBe(false)
+    expect(isIdempotencyKey('x'.repeat(256))).toBe(false)
+  })
+})
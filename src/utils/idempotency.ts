@@ -0,0 +1,267 @@
+/**
+ * Idempotent /api/agent requests
+ *
+ * A double Enter or a client retry can send the same question twice. Clients
+ * that send an `Idempotency-Key` header (the widget uses the message id) get
+ * the question answered once: the first request with a key claims it, and
+ * its successful result is kept for IDEMPOTENCY_TTL_SECONDS (default 86400)
+ * and replayed for repeats. A repeat that arrives while the first request is
+ * still running waits for it instead of calling upstream again.
+ *
+ * A claim holds for `lockMs` (default 120000) unless it is renewed, as a
+ * streaming reply does while it runs; one that was never completed (its
+ * server died) can then be taken over. Completing or releasing a claim only
+ * touches the key while this claim still holds it.
+ *
+ * Failed requests release their key, so a retry runs again. A key sent with
+ * a different request (another message, agent or session) is refused. Keys
+ * are global to the store: callers scope them to whoever sent them (the
+ * route prefixes the visitor's anonymous ID), so one client can't replay
+ * another's answer.
+ *
+ * Records live in an in-memory store by default. It holds a bounded number
+ * of keys and never drops a running claim to make room: when only those are
+ * left, new keys are refused (`unavailable`) until one finishes. For several
+ * server instances, plug in a shared store (e.g. Redis) with
+ * setIdempotencyStore().
+ *
+ * @example
+ * ```ts
+ * const idempotency = createIdempotency({ store: getIdempotencyStore(), ttlMs: getIdempotencyTtlMs() })
+ * const outcome = await idempotency.begin(`${visitorId}:${key}`, fingerprintRequest(body), request.signal)
+ * if (outcome.kind === 'replay') return NextResponse.json(outcome.response.body, { status: outcome.response.status })
+ * if (outcome.kind === 'claimed') await outcome.complete({ status: 200, body: result })
+ * ```
+ */
+import { createHash, randomUUID } from 'crypto'
+
+export { IDEMPOTENCY_KEY_HEADER } from '@/utils/agentContract'
+
+export const IDEMPOTENCY_REPLAYED_HEADER = 'Idempotent-Replayed'
+
+/**
+ * A response as kept for replay
+ */
+export interface StoredResponse {
+  status: number
+  body: unknown
+}
+
+export type IdempotencyRecord =
+  | { state: 'in-flight'; fingerprint: string; expiresAt: number; /** Identifies the claim */ token: string }
+  | { state: 'done'; fingerprint: string; response: StoredResponse; expiresAt: number }
+
+/**
+ * The store has no room for another key
+ */
+export class IdempotencyStoreFullError extends Error {
+  constructor() {
+    super('Idempotency store is full')
+    this.name = 'IdempotencyStoreFullError'
+  }
+}
+
+/**
+ * Record storage. `claim` and `swap` must check and set a key atomically.
+ */
+export interface IdempotencyStore {
+  /**
+   * Store `record` unless the key holds an unexpired record; returns that
+   * record, or null once claimed. Throws IdempotencyStoreFullError when
+   * there is no room for the key.
+   */
+  claim(key: string, record: IdempotencyRecord, now: number): Promise<IdempotencyRecord | null>
+  /**
+   * Replace the key's record with `record` (or delete it, for null) if it is
+   * still the in-flight claim `token`; returns whether it was
+   */
+  swap(key: string, token: string, record: IdempotencyRecord | null): Promise<boolean>
+}
+
+/**
+ * - claimed: run the request, then complete() with its result or release() on
+ *   failure; renew() while it runs for long, e.g. per streamed chunk
+ * - replay: an earlier request with this key succeeded; answer with its response
+ * - conflict: the key was used for a different request
+ * - in-progress: stopped waiting for the earlier request (the caller went away)
+ * - unavailable: the store has no room for the key right now
+ */
+export type IdempotencyOutcome =
+  | {
+      kind: 'claimed'
+      complete(response: StoredResponse): Promise<void>
+      release(): Promise<void>
+      /** Extend the lock once half of it has passed (cheap to call often) */
+      renew(): Promise<void>
+    }
+  | { kind: 'replay'; response: StoredResponse }
+  | { kind: 'conflict' }
+  | { kind: 'in-progress' }
+  | { kind: 'unavailable' }
+
+export interface IdempotencyOptions {
+  store: IdempotencyStore
+  /** How long results are replayed */
+  ttlMs: number
+  /** How long a claim holds without completing or renewing, e.g. if its server died (default 120000) */
+  lockMs?: number
+  /** How often a repeat checks whether the first request finished (default 50) */
+  pollMs?: number
+}
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60
+const DEFAULT_LOCK_MS = 120_000
+const DEFAULT_POLL_MS = 50
+const MAX_MEMORY_KEYS = 10_000
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/
+
+/**
+ * In-memory record store (single server instance), holding at most
+ * `maxKeys` records (default 10000)
+ */
+export function createMemoryIdempotencyStore(options: { maxKeys?: number } = {}): IdempotencyStore {
+  const maxKeys = options.maxKeys ?? MAX_MEMORY_KEYS
+  const records = new Map<string, IdempotencyRecord>()
+
+  // Make room for a new key: drop expired records, then the oldest completed
+  // ones. Running claims are kept - dropping one would let a repeat call upstream again
+  const makeRoom = (now: number) => {
+    if (records.size < maxKeys) return
+    records.forEach((record, key) => {
+      if (record.expiresAt <= now) records.delete(key)
+    })
+    for (const [key, record] of records) {
+      if (records.size < maxKeys) return
+      if (record.state === 'done') records.delete(key)
+    }
+    if (records.size >= maxKeys) throw new IdempotencyStoreFullError()
+  }
+
+  return {
+    async claim(key, record, now) {
+      const existing = records.get(key)
+      if (existing && existing.expiresAt > now) return existing
+
+      if (!existing) makeRoom(now)
+      records.set(key, record)
+      return null
+    },
+
+    async swap(key, token, record) {
+      const existing = records.get(key)
+      if (existing?.state !== 'in-flight' || existing.token !== token) return false
+
+      if (record) records.set(key, record)
+      else records.delete(key)
+      return true
+    },
+  }
+}
+
+let sharedStore: IdempotencyStore | null = null
+
+/**
+ * Store used by the API routes (in-memory unless replaced)
+ */
+export function getIdempotencyStore(): IdempotencyStore {
+  if (!sharedStore) sharedStore = createMemoryIdempotencyStore()
+  return sharedStore
+}
+
+/**
+ * Replace the store used by the API routes, e.g. with a Redis-backed one
+ */
+export function setIdempotencyStore(store: IdempotencyStore): void {
+  sharedStore = store
+}
+
+/**
+ * How long results are replayed, from IDEMPOTENCY_TTL_SECONDS
+ */
+export function getIdempotencyTtlMs(env: Record<string, string | undefined> = process.env): number {
+  const value = env.IDEMPOTENCY_TTL_SECONDS
+  if (!value) return DEFAULT_TTL_SECONDS * 1000
+
+  const seconds = Number(value)
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new Error(`Invalid IDEMPOTENCY_TTL_SECONDS "${value}" (expected a number of seconds)`)
+  }
+  return seconds * 1000
+}
+
+/**
+ * 1-255 visible ASCII characters, e.g. a UUID
+ */
+export function isIdempotencyKey(value: string): boolean {
+  return KEY_PATTERN.test(value)
+}
+
+/**
+ * Identifies what a key was first used for
+ */
+export function fingerprintRequest(request: unknown): string {
+  return createHash('sha256').update(JSON.stringify(request)).digest('base64url')
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    const timer = setTimeout(done, ms)
+    signal?.addEventListener('abort', done)
+  })
+}
+
+export function createIdempotency(options: IdempotencyOptions) {
+  const { store, ttlMs } = options
+  const lockMs = options.lockMs ?? DEFAULT_LOCK_MS
+  const pollMs = options.pollMs ?? DEFAULT_POLL_MS
+
+  return {
+    /**
+     * Claim a key, or find out what became of the request that holds it
+     * (waiting while it runs)
+     */
+    async begin(key: string, fingerprint: string, signal?: AbortSignal): Promise<IdempotencyOutcome> {
+      for (;;) {
+        const now = Date.now()
+        const token = randomUUID()
+        let existing: IdempotencyRecord | null
+        try {
+          existing = await store.claim(key, { state: 'in-flight', fingerprint, expiresAt: now + lockMs, token }, now)
+        } catch (error) {
+          if (error instanceof IdempotencyStoreFullError) return { kind: 'unavailable' }
+          throw error
+        }
+
+        if (!existing) {
+          let renewedAt = now
+          return {
+            kind: 'claimed',
+            complete: async response => {
+              await store.swap(key, token, { state: 'done', fingerprint, response, expiresAt: Date.now() + ttlMs })
+            },
+            release: async () => {
+              await store.swap(key, token, null)
+            },
+            renew: async () => {
+              const renewAt = Date.now()
+              if (renewAt - renewedAt < lockMs / 2) return
+              renewedAt = renewAt
+              await store.swap(key, token, { state: 'in-flight', fingerprint, expiresAt: renewAt + lockMs, token })
+            },
+          }
+        }
+        if (existing.fingerprint !== fingerprint) return { kind: 'conflict' }
+        if (existing.state === 'done') return { kind: 'replay', response: existing.response }
+        if (signal?.aborted) return { kind: 'in-progress' }
+
+        // The first request is still running; its claim expires if it never finishes
+        await sleep(pollMs, signal)
+      }
+    },
+  }
+}
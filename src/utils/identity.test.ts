@@ -0,0 +1,163 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  ANONYMOUS_ID_COOKIE,
+  createAnonymousId,
+  createIdentity,
+  getIdentity,
+  isAnonymousId,
+  readAnonymousIdCookie,
+  setIdentity,
+} from './identity'
+
+function memoryStorage() {
+  const items = new Map<string, string>()
+  return {
+    items,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  }
+}
+
+/**
+ * A document.cookie that keeps the last value written per name, like a browser
+ */
+function cookieJar(initial = '') {
+  const cookies = new Map<string, string>()
+  for (const part of initial.split(';').filter(Boolean)) {
+    const [name, value] = part.trim().split('=')
+    cookies.set(name, value)
+  }
+  const written: string[] = []
+  return {
+    written,
+    get cookie() {
+      return [...cookies].map(([name, value]) => `${name}=${value}`).join('; ')
+    },
+    set cookie(line: string) {
+      written.push(line)
+      const [name, value] = line.split(';')[0].split('=')
+      cookies.set(name, value)
+    },
+  }
+}
+
+const USER = { id: 'u_42', name: 'Ada', email: 'ada@bank.com' }
+
+describe('identity', () => {
+  it('creates random v4 UUIDs', () => {
+    const ids = new Set(Array.from({ length: 50 }, createAnonymousId))
+
+    expect(ids.size).toBe(50)
+    for (const id of ids) expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+  })
+
+  it('falls back to getRandomValues without randomUUID', () => {
+    const { randomUUID } = crypto
+    Object.defineProperty(crypto, 'randomUUID', { value: undefined, configurable: true })
+    try {
+      expect(isAnonymousId(createAnonymousId())).toBe(true)
+    } finally {
+      Object.defineProperty(crypto, 'randomUUID', { value: randomUUID, configurable: true })
+    }
+  })
+
+  it('creates the ID once and keeps it in storage and a cookie', () => {
+    const storage = memoryStorage()
+    const document = cookieJar()
+    const identity = createIdentity({ storage, document, secure: true })
+
+    const id = identity.anonymousId()
+
+    expect(isAnonymousId(id)).toBe(true)
+    expect(identity.anonymousId()).toBe(id)
+    expect(identity.userId()).toBe(`anon-${id}`)
+    expect(createIdentity({ storage }).anonymousId()).toBe(id)
+    expect(readAnonymousIdCookie(document.cookie)).toBe(id)
+    expect(document.written[0]).toContain('SameSite=Lax')
+    expect(document.written[0]).toContain('Secure')
+  })
+
+  it('restores the ID from the cookie when storage was cleared', () => {
+    const id = '3b241101-e2bb-4255-8caf-4136c566a962'
+    const storage = memoryStorage()
+
+    const identity = createIdentity({ storage, document: cookieJar(`${ANONYMOUS_ID_COOKIE}=${id}`) })
+
+    expect(identity.anonymousId()).toBe(id)
+    expect(storage.items.get('amadeo-anonymous-id')).toBe(id)
+  })
+
+  it('replaces an invalid stored ID', () => {
+    const storage = memoryStorage()
+    storage.setItem('amadeo-anonymous-id', 'user-1700000000000')
+
+    expect(isAnonymousId(createIdentity({ storage }).anonymousId())).toBe(true)
+  })
+
+  it('links a known user to the anonymous ID and forgets them on logout', () => {
+    const storage = memoryStorage()
+    const identity = createIdentity({ storage })
+    const anonymousId = identity.anonymousId()
+
+    const link = identity.identify(USER)
+
+    expect(link).toEqual({ anonymousId, user: USER, linkedAt: expect.any(String) })
+    expect(identity.userId()).toBe('u_42')
+    expect(createIdentity({ storage }).link()).toEqual(link)
+
+    identity.forget()
+
+    expect(identity.userId()).toBe(`anon-${anonymousId}`)
+    expect(identity.anonymousId()).toBe(anonymousId)
+    expect(createIdentity({ storage }).link()).toBeUndefined()
+  })
+
+  it('rejects user IDs that cannot be sent', () => {
+    const identity = createIdentity()
+
+    expect(() => identity.identify({ ...USER, id: '' })).toThrow(/can't be sent/)
+    expect(identity.link()).toBeUndefined()
+  })
+
+  it('keeps working when storage throws', () => {
+    const blocked = {
+      getItem: () => {
+        throw new Error('SecurityError')
+      },
+      setItem: () => {
+        throw new Error('QuotaExceededError')
+      },
+      removeItem: () => {},
+    }
+    const identity = createIdentity({ storage: blocked })
+
+    expect(isAnonymousId(identity.anonymousId())).toBe(true)
+    expect(identity.identify(USER).user).toBe(USER)
+  })
+
+  it('falls back to memory when the browser blocks localStorage', () => {
+    const getter = vi.spyOn(window, 'localStorage', 'get').mockImplementation(() => {
+      throw new DOMException('The operation is insecure.', 'SecurityError')
+    })
+    setIdentity(null)
+
+    try {
+      const identity = getIdentity()
+      expect(isAnonymousId(identity.anonymousId())).toBe(true)
+      expect(identity.userId()).toBe(`anon-${identity.anonymousId()}`)
+    } finally {
+      getter.mockRestore()
+      setIdentity(null)
+    }
+  })
+
+  it('reads the ID from a Cookie header', () => {
+    const id = '3b241101-e2bb-4255-8caf-4136c566a962'
+
+    expect(readAnonymousIdCookie(`theme=dark; ${ANONYMOUS_ID_COOKIE}=${id}; other=1`)).toBe(id)
+    expect(readAnonymousIdCookie(`${ANONYMOUS_ID_COOKIE}=not-a-uuid`)).toBeUndefined()
+    expect(readAnonymousIdCookie(null)).toBeUndefined()
+    expect(readAnonymousIdCookie(`${ANONYMOUS_ID_COOKIE}=%E0%A4%A`)).toBeUndefined()
+  })
+})
@@ -0,0 +1,246 @@
+/**
+ * Visitor identity
+ *
+ * Every browser gets one anonymous ID, created with crypto.randomUUID the
+ * first time it is needed and kept in first-party storage: localStorage and a
+ * cookie, so /api/agent can read it too (requests without a user_id are
+ * attributed to the cookie's ID). Messages are sent as `anon-<id>` until
+ * identify() links the visitor to a known User after login; from then on the
+ * user's own ID is sent, while the cookie keeps the anonymous ID that
+ * preceded it.
+ *
+ * Outside the browser (Node scripts, server rendering) the ID lives in memory
+ * for the life of the process.
+ *
+ * @example
+ * ```ts
+ * getIdentity().userId()        // 'anon-3b241101-e2bb-4255-8caf-4136c566a962'
+ * identify({ id: 'u_42', name: 'Ada', email: 'ada@bank.com' })
+ * getIdentity().userId()        // 'u_42'
+ *
+ * // Server side
+ * const anonymousId = readAnonymousIdCookie(request.headers.get('cookie'))
+ * ```
+ */
+import type { User } from '@/types'
+import { AIAgentRequestSchema } from '@/utils/agentContract'
+
+export const ANONYMOUS_ID_COOKIE = 'amadeo_anon_id'
+export const ANONYMOUS_ID_MAX_AGE_SECONDS = 365 * 24 * 60 * 60
+
+const ANONYMOUS_ID_KEY = 'amadeo-anonymous-id'
+const IDENTITY_KEY = 'amadeo-identity'
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * A known user linked to the anonymous ID they had before logging in
+ */
+export interface IdentityLink {
+  anonymousId: string
+  user: User
+  /** ISO timestamp of the identify() call */
+  linkedAt: string
+}
+
+export interface Identity {
+  /** This visitor's anonymous ID, created on first use */
+  anonymousId(): string
+  /** user_id to send: the known user's ID after identify(), otherwise `anon-<anonymousId>` */
+  userId(): string
+  /** The linked user, if identify() was called */
+  link(): IdentityLink | undefined
+  identify(user: User): IdentityLink
+  /** Drop the linked user (logout); the anonymous ID stays */
+  forget(): void
+}
+
+export interface IdentityOptions {
+  /** Where the ID and link are kept (default: none - memory only) */
+  storage?: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>
+  /** Where the cookie is written (default: none) */
+  document?: Pick<Document, 'cookie'>
+  /** Add `Secure` to the cookie */
+  secure?: boolean
+}
+
+/**
+ * A random v4 UUID: crypto.randomUUID, or getRandomValues where randomUUID
+ * is unavailable (pages served over plain http)
+ */
+export function createAnonymousId(): string {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID()
+
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  bytes[6] = (bytes[6] & 0x0f) | 0x40
+  bytes[8] = (bytes[8] & 0x3f) | 0x80
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
+export function isAnonymousId(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value)
+}
+
+/**
+ * The user_id an anonymous visitor is known by upstream
+ */
+export function anonymousUserId(anonymousId: string): string {
+  return `anon-${anonymousId}`
+}
+
+/**
+ * The anonymous ID in a Cookie header, if there is a valid one
+ */
+export function readAnonymousIdCookie(cookieHeader: string | null | undefined): string | undefined {
+  for (const part of (cookieHeader || '').split(';')) {
+    const [name, ...value] = part.trim().split('=')
+    if (name === ANONYMOUS_ID_COOKIE) {
+      try {
+        const id = decodeURIComponent(value.join('='))
+        return isAnonymousId(id) ? id : undefined
+      } catch {
+        // Malformed escapes - treated as no ID, so a new one is issued
+        return undefined
+      }
+    }
+  }
+}
+
+function isUser(value: any): value is User {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    typeof value.email === 'string'
+  )
+}
+
+export function createIdentity(options: IdentityOptions = {}): Identity {
+  const { storage, document } = options
+  let anonymousId: string | undefined
+  let link: IdentityLink | undefined
+  let linkLoaded = false
+
+  // Blocked storage (private browsing, disabled cookies) leaves the ID in memory
+  const read = (key: string): string | null => {
+    try {
+      return storage?.getItem(key) ?? null
+    } catch {
+      return null
+    }
+  }
+  const write = (key: string, value: string | null) => {
+    try {
+      if (value === null) storage?.removeItem(key)
+      else storage?.setItem(key, value)
+    } catch {
+      // Kept in memory only
+    }
+  }
+
+  const writeCookie = (id: string) => {
+    if (!document) return
+    const attributes = [`Path=/`, `Max-Age=${ANONYMOUS_ID_MAX_AGE_SECONDS}`, 'SameSite=Lax', ...(options.secure ? ['Secure'] : [])]
+    try {
+      document.cookie = `${ANONYMOUS_ID_COOKIE}=${encodeURIComponent(id)}; ${attributes.join('; ')}`
+    } catch {
+      // Cookies disabled
+    }
+  }
+
+  const identity: Identity = {
+    anonymousId() {
+      if (!anonymousId) {
+        const stored = read(ANONYMOUS_ID_KEY)
+        anonymousId =
+          (isAnonymousId(stored) && stored) || readAnonymousIdCookie(document?.cookie) || createAnonymousId()
+        // Both copies are refreshed, so either can restore the other
+        write(ANONYMOUS_ID_KEY, anonymousId)
+        writeCookie(anonymousId)
+      }
+      return anonymousId
+    },
+
+    userId() {
+      return identity.link()?.user.id ?? anonymousUserId(identity.anonymousId())
+    },
+
+    link() {
+      if (!linkLoaded) {
+        linkLoaded = true
+        try {
+          const saved = JSON.parse(read(IDENTITY_KEY) || 'null')
+          if (saved && isUser(saved.user) && isAnonymousId(saved.anonymousId)) link = saved
+        } catch {
+          // Unreadable - treated as not identified
+        }
+      }
+      return link
+    },
+
+    identify(user) {
+      if (!AIAgentRequestSchema.shape.user_id.safeParse(user.id).success) {
+        throw new Error(`User ID "${user.id}" can't be sent as a user_id`)
+      }
+      link = { anonymousId: identity.anonymousId(), user, linkedAt: new Date().toISOString() }
+      linkLoaded = true
+      write(IDENTITY_KEY, JSON.stringify(link))
+      return link
+    },
+
+    forget() {
+      link = undefined
+      linkLoaded = true
+      write(IDENTITY_KEY, null)
+    },
+  }
+
+  return identity
+}
+
+let sharedIdentity: Identity | null = null
+
+/**
+ * This visitor's identity: localStorage and cookie backed in the browser,
+ * in memory elsewhere
+ */
+export function getIdentity(): Identity {
+  if (!sharedIdentity) {
+    sharedIdentity =
+      typeof window === 'undefined'
+        ? createIdentity()
+        : createIdentity({
+            storage: browserStorage(),
+            document: window.document,
+            secure: window.location.protocol === 'https:',
+          })
+  }
+  return sharedIdentity
+}
+
+/**
+ * localStorage, or undefined where reading it throws (storage blocked,
+ * sandboxed iframes)
+ */
+function browserStorage(): Storage | undefined {
+  try {
+    return window.localStorage
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Replace the shared identity (tests)
+ */
+export function setIdentity(identity: Identity | null): void {
+  sharedIdentity = identity
+}
+
+/**
+ * Link this visitor to a known user after login
+ */
+export function identify(user: User): IdentityLink {
+  return getIdentity().identify(user)
+}
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest'
+import { parseLLMJsonDetailed } from './jsonParser'
+import { LLM_REPLY_CORPUS } from './__fixtures__/llmReplies'
+
+describe.each(Object.entries(LLM_REPLY_CORPUS))('LLM reply corpus: %s', (_, fixtures) => {
+  it.each(fixtures.map(fixture => [fixture.name, fixture] as const))('%s', (_, fixture) => {
+    const result = parseLLMJsonDetailed(fixture.reply, fixture.options)
+
+    if (fixture.expected === undefined) {
+      expect(result.ok).toBe(false)
+      return
+    }
+
+    expect(result.ok && result.value).toEqual(fixture.expected)
+    if (!result.ok) return
+    if (fixture.strategy) expect(result.strategy).toBe(fixture.strategy)
+    if (fixture.repairs) expect(result.repairs).toEqual(expect.arrayContaining(fixture.repairs))
+  })
+})
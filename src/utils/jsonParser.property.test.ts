@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import fc from 'fast-check'
+import { extractAllJson, parseLLMJsonDetailed } from './jsonParser'
+import { LenientJsonError, parseLenientJson } from './lenientJson'
+import { scanJson } from './jsonScanner'
+import { createStreamingJsonParser } from './streamingJson'
+
+// Objects and arrays (scalars aren't replies), without a top-level `response`
+// field - that one is unwrapped on purpose
+const document = fc
+  .jsonValue()
+  .filter(value => typeof value === 'object' && value !== null && !(typeof value === 'object' && 'response' in value))
+
+// JSON.parse(JSON.stringify(v)) normalizes -0 and the like
+const normalize = (value: unknown) => JSON.parse(JSON.stringify(value))
+
+// Text that looks a lot like broken JSON
+const jsonish = fc.string({
+  unit: fc.constantFrom('{', '}', '[', ']', '"', "'", ':', ',', '\\', '`', '```', '#', '//', '/*', '*/', '...', 'True', 'None', 'a', '1', '.', '-', ' ', '\n'),
+  maxLength: 200,
+})
+
+describe('parseLLMJson properties', () => {
+  it('round-trips valid JSON unchanged', () => {
+    fc.assert(
+      fc.property(document, fc.boolean(), (value, pretty) => {
+        const result = parseLLMJsonDetailed(JSON.stringify(value, null, pretty ? 2 : undefined))
+        expect(result.ok && result.value).toEqual(normalize(value))
+      })
+    )
+  })
+
+  it('finds valid JSON inside a fence or prose', () => {
+    const wrap = fc.constantFrom(
+      (json: string) => '```json\n' + json + '\n```',
+      (json: string) => 'Here you go:\n' + json + '\nAnything else?',
+      (json: string) => 'Sure. ```\n' + json + '\n``` Done.'
+    )
+    fc.assert(
+      fc.property(document.filter(value => JSON.stringify(value).length > 10), wrap, (value, format) => {
+        const result = parseLLMJsonDetailed(format(JSON.stringify(value)))
+        expect(result.ok && result.value).toEqual(normalize(value))
+      })
+    )
+  })
+
+  it('never throws on arbitrary input', () => {
+    fc.assert(
+      fc.property(fc.oneof(fc.string(), fc.string({ unit: 'binary' }), jsonish), fc.boolean(), (text, allowPartial) => {
+        const result = parseLLMJsonDetailed(text, { allowPartial })
+        expect(typeof result.ok).toBe('boolean')
+        expect(Array.isArray(extractAllJson(text, { allowPartial }))).toBe(true)
+        expect(scanJson(text).candidates.every(c => c.start < c.end && c.end <= text.length)).toBe(true)
+      }),
+      { numRuns: 300 }
+    )
+  })
+
+  it('only fails with LenientJsonError in the lenient parser', () => {
+    fc.assert(
+      fc.property(jsonish, text => {
+        try {
+          parseLenientJson(text, { allowPartial: true })
+        } catch (error) {
+          expect(error).toBeInstanceOf(LenientJsonError)
+        }
+      }),
+      { numRuns: 300 }
+    )
+  })
+
+  it('recovers a prefix of every truncated document', () => {
+    fc.assert(
+      fc.property(document, fc.nat(), (value, cut) => {
+        const json = JSON.stringify(value)
+        const truncated = json.slice(0, 1 + (cut % json.length))
+        expect(() => parseLenientJson(truncated, { allowPartial: true })).not.toThrow()
+      })
+    )
+  })
+
+  it('streams to the same value however the text is chunked', () => {
+    fc.assert(
+      fc.property(document, fc.array(fc.nat(), { maxLength: 10 }), (value, cuts) => {
+        const json = JSON.stringify(value)
+        const points = [...new Set(cuts.map(cut => cut % json.length))].sort((a, b) => a - b)
+        const parser = createStreamingJsonParser()
+        let last = 0
+        for (const point of [...points, json.length]) {
+          parser.push(json.slice(last, point))
+          last = point
+        }
+        const snapshot = parser.end()
+        expect(snapshot.done).toBe(true)
+        expect(snapshot.value).toEqual(normalize(value))
+      })
+    )
+  })
+
+  it('stays fast on large random input', () => {
+    const text = fc.sample(jsonish, { numRuns: 2000, seed: 42 }).join('')
+    const started = Date.now()
+    parseLLMJsonDetailed(text, { allowPartial: true })
+    extractAllJson(text, { allowPartial: true })
+    // Generous bound - the point is no pathological backtracking (see jsonScanner.bench.ts)
+    expect(Date.now() - started).toBeLessThan(5000)
+  })
+})
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import parseLLMJson, { extractAllJson, parseLLMJsonDetailed } from './jsonParser'
+
+describe('parseLLMJson', () => {
+  it('returns strict JSON unchanged', () => {
+    expect(parseLLMJson('{"response": {"answer": 42}}')).toEqual({ answer: 42 })
+  })
+
+  it('keeps URLs when repairing other problems', () => {
+    expect(parseLLMJson("{'link': 'https://amadeo.ai/docs', 'ok': True,}")).toEqual({
+      link: 'https://amadeo.ai/docs',
+      ok: true,
+    })
+  })
+
+  it('does not drop lines that start with # inside strings', () => {
+    const text = `{
+  'notes': '
+# Heading
+body',
+}`
+    expect(parseLLMJson(text)).toEqual({ notes: '\n# Heading\nbody' })
+  })
+
+  it('keeps ellipses and Python words inside text values', () => {
+    expect(parseLLMJson("{text: 'True story... None of it was False', done: False}")).toEqual({
+      text: 'True story... None of it was False',
+      done: false,
+    })
+  })
+
+  it('finds lenient JSON inside prose', () => {
+    expect(parseLLMJson("Here you go: {answer: 'yes', // sure\n} Anything else?")).toEqual({ answer: 'yes' })
+  })
+})
+
+describe('parseLLMJsonDetailed', () => {
+  it('reports JSON found by scanning prose as a boundary match', () => {
+    const result = parseLLMJsonDetailed('Result: {"answer": "yes"} - done')
+
+    expect(result).toMatchObject({ ok: true, strategy: 'boundary', repairs: ['ignored-surrounding-text'] })
+    expect(result.ok && result.span).toEqual({ start: 8, end: 25 })
+  })
+
+  it('reports the strategy and span of the JSON it found', () => {
+    const text = 'See [note] below:\n```\n{"answer": "yes"}\n```'
+    const result = parseLLMJsonDetailed(text)
+
+    expect(result).toMatchObject({ ok: true, value: { answer: 'yes' }, strategy: 'code-block', repairs: [] })
+    if (result.ok) expect(text.slice(result.span.start, result.span.end)).toBe('{"answer": "yes"}')
+  })
+
+  it('lists repairs, including unwrapping a nested response', () => {
+    const result = parseLLMJsonDetailed("{response: '{\"answer\": 42}',}")
+
+    expect(result).toMatchObject({ ok: true, value: { answer: 42 }, strategy: 'direct' })
+    expect(result.ok && result.repairs).toEqual(
+      expect.arrayContaining(['unquoted-keys', 'single-quotes', 'trailing-commas', 'unwrapped-response'])
+    )
+  })
+
+  it('warns when a json block is broken but other JSON is found', () => {
+    const result = parseLLMJsonDetailed('```json\n{"a": \n```\nfallback: {"answer": 2}')
+
+    expect(result.ok && result.value).toEqual({ answer: 2 })
+    expect(result.warnings[0]).toContain('```json block is not valid JSON')
+  })
+
+  it('fails with a reason instead of a data-shaped object', () => {
+    expect(parseLLMJsonDetailed('just words')).toEqual({
+      ok: false,
+      error: 'No valid JSON found in the response',
+      warnings: [],
+    })
+    expect(parseLLMJsonDetailed('   ')).toMatchObject({ ok: false, error: 'Response is empty' })
+  })
+
+  it('keeps the legacy return shapes for parseLLMJson', () => {
+    expect(parseLLMJson('')).toBeNull()
+    expect(parseLLMJson(null)).toBeNull()
+    expect(parseLLMJson('just words')).toMatchObject({ success: false, data: null, rawJson: null })
+  })
+})
+
+describe('parseLLMJson with a schema', () => {
+  const Answer = z.object({ answer: z.string(), score: z.number() })
+
+  it('picks the candidate that validates, not the largest', () => {
+    const text = 'Context: {"notes": ["long", "list", "of", "things"]} Answer: `{"answer": "yes", "score": 1}`'
+    const result = parseLLMJson(text, Answer)
+
+    expect(result).toMatchObject({ ok: true, value: { answer: 'yes', score: 1 }, coercions: [] })
+    if (result.ok) expect(text.slice(result.span.start, result.span.end)).toBe('{"answer": "yes", "score": 1}')
+  })
+
+  it('coerces near-misses and lists them', () => {
+    const schema = z.object({ unitPrice: z.number(), tags: z.array(z.string()) })
+    const result = parseLLMJson('{"unit_price": "9.50", "tags": "new"}', schema)
+
+    expect(result.ok && result.value).toEqual({ unitPrice: 9.5, tags: ['new'] })
+    expect(result.ok && result.coercions).toEqual([
+      { kind: 'snake-to-camel-key', path: 'unitPrice', from: 'unit_price' },
+      { kind: 'string-to-number', path: 'unitPrice' },
+      { kind: 'string-to-array', path: 'tags' },
+    ])
+  })
+
+  it('reports validation issues when nothing matches', () => {
+    const result = parseLLMJson('{"answer": "yes", "score": "high"}', Answer)
+
+    expect(result).toMatchObject({ ok: false, error: 'No JSON in the response matched the schema' })
+    expect(!result.ok && result.issues).toHaveProperty('score')
+  })
+})
+
+describe('extractAllJson', () => {
+  it('returns every block in document order with the prose around it', () => {
+    const text = [
+      'Here is the battlecard [1]:',
+      '```json',
+      '{"competitor": "Acme", "strengths": ["price"]}',
+      '```',
+      'Ask next: `["Budget?", "Timeline?"]`',
+      '```python',
+      'print({"not": "json"})',
+      '```',
+      'Notes: {owner: \'sales\'} - thanks!',
+    ].join('\n')
+    const blocks = extractAllJson(text)
+
+    expect(blocks.map(block => [block.strategy, block.value])).toEqual([
+      ['markdown-json', { competitor: 'Acme', strengths: ['price'] }],
+      ['inline-code', ['Budget?', 'Timeline?']],
+      ['embedded', { owner: 'sales' }],
+    ])
+    expect(blocks[0].before).toBe('Here is the battlecard [1]:')
+    expect(blocks[1]).toMatchObject({ before: 'Ask next:', after: expect.stringContaining('```python') })
+    expect(blocks[2]).toMatchObject({ repairs: ['unquoted-keys', 'single-quotes'], after: '- thanks!' })
+    expect(text.slice(blocks[1].span.start, blocks[1].span.end)).toBe('["Budget?", "Timeline?"]')
+  })
+
+  it('reports a whole-document value as direct and honors maxBlocks', () => {
+    expect(extractAllJson('  {"a": {"b": 1}}  ')).toMatchObject([{ strategy: 'direct', value: { a: { b: 1 } } }])
+    expect(extractAllJson('{"a": 1} {"b": 2} {"c": 3}', { maxBlocks: 2 })).toHaveLength(2)
+    expect(extractAllJson(null)).toEqual([])
+  })
+})
+
+describe('preferFirst / preferLast', () => {
+  const text = 'First object: {"id": 1, "name": "Alice"}\nSecond object: {"id": 2, "name": "Bob"}'
+
+  it('selects the first or last block', () => {
+    expect(parseLLMJson(text)).toEqual({ id: 1, name: 'Alice' })
+    expect(parseLLMJson(text, { preferFirst: false })).toEqual({ id: 2, name: 'Bob' })
+    expect(parseLLMJson(text, { preferLast: true })).toEqual({ id: 2, name: 'Bob' })
+  })
+
+  it('applies to fenced blocks too', () => {
+    const fenced = '```json\n{"step": 1}\n```\nthen\n```json\n{"step": 2}\n```'
+    const result = parseLLMJsonDetailed(fenced, { preferLast: true })
+
+    expect(result).toMatchObject({ ok: true, value: { step: 2 }, strategy: 'markdown-json' })
+    expect(result.warnings).toEqual(['Found 2 JSON blocks; used block 2 (see extractAllJson)'])
+  })
+
+  it('goes by position, not size, among the first maxBlocks blocks', () => {
+    const sizes = 'Short: `{"id": 1}` long: `{"id": 2, "name": "Bob", "tags": ["a", "b", "c"]}` last: {"id": 3}'
+
+    expect(parseLLMJson(sizes)).toEqual({ id: 1 })
+    expect(parseLLMJson(sizes, { preferLast: true })).toEqual({ id: 3 })
+    expect(parseLLMJson(sizes, { preferLast: true, maxBlocks: 2 })).toMatchObject({ id: 2 })
+  })
+})
@@ -1,10 +1,282 @@
+import type { z } from 'zod';
+import { formatIssues } from './agentContract';
+import { scanJson, type JsonScan } from './jsonScanner';
+import { MAX_LENIENT_DEPTH, readLenientJson, type LenientRepair } from './lenientJson';
+import { coerceToSchema, type JsonCoercion } from './schemaCoercion';
+
 /**
- * Parse JSON from LLM responses with bulletproof error handling
- * @param {any} response - The response to parse (string, object, or any type)
- * @param {object|null|undefined} options - Parsing options (can be null, undefined, or an object)
- * @returns {any} Parsed JSON or null if parsing fails
+ * Where the JSON was found in the response
+ * - direct: the whole response
+ * - markdown-json: a ```json fenced block
+ * - code-block: another fenced code block
+ * - inline-code: `inline code`
+ * - embedded: a JSON-looking structure inside prose
+ * - boundary: bracket scan of the whole response (last resort)
+ */
+export type JsonStrategy = 'direct' | 'markdown-json' | 'code-block' | 'inline-code' | 'embedded' | 'boundary';
+
+/**
+ * What had to be done to the text to get a value out of it:
+ * the lenient syntax repairs, plus
+ * - ignored-surrounding-text: text around the JSON value was skipped
+ * - unwrapped-response: the value came from a nested `response` field
+ * - double-encoded: the JSON was a string holding JSON, and was decoded
+ */
+export type JsonRepair = LenientRepair | 'ignored-surrounding-text' | 'unwrapped-response' | 'double-encoded';
+
+export type ParseLLMJsonResult =
+    | {
+          ok: true;
+          value: any;
+          strategy: JsonStrategy;
+          repairs: JsonRepair[];
+          /** Offsets of the parsed JSON in the response text */
+          span: { start: number; end: number };
+          warnings: string[];
+      }
+    | {
+          ok: false;
+          error: string;
+          warnings: string[];
+      };
+
+/**
+ * Result of parseLLMJson with a schema: the value has been validated (and
+ * coerced) against it, so it is typed
+ */
+export type ParseLLMJsonSchemaResult<T> =
+    | {
+          ok: true;
+          value: T;
+          /** Near-misses that were fixed to make the value match */
+          coercions: JsonCoercion[];
+          strategy: JsonStrategy;
+          repairs: JsonRepair[];
+          span: { start: number; end: number };
+          warnings: string[];
+      }
+    | {
+          ok: false;
+          error: string;
+          /** Validation problems of the first value that parsed, by field path */
+          issues?: Record<string, string[]>;
+          warnings: string[];
+      };
+
+export interface ParseLLMJsonOptions {
+    attemptFix?: boolean;
+    /** Consider only the first this many JSON blocks (default: all) */
+    maxBlocks?: number;
+    /** With several JSON blocks, use the first one (default) - `false` means the last */
+    preferFirst?: boolean;
+    /** With several JSON blocks, use the last one; same as `preferFirst: false` */
+    preferLast?: boolean;
+    allowPartial?: boolean;
+}
+
+/**
+ * One JSON value found by extractAllJson()
+ */
+export interface JsonBlock {
+    value: any;
+    /** 'direct' when the block is the whole response */
+    strategy: JsonStrategy;
+    repairs: LenientRepair[];
+    /** Offsets of the JSON in the response text (inside any fence or backticks) */
+    span: { start: number; end: number };
+    /** Prose between the previous block (or the start) and this one, trimmed */
+    before: string;
+    /** Prose between this block and the next one (or the end), trimmed */
+    after: string;
+}
+
+export interface ExtractAllJsonOptions {
+    /** Stop after this many blocks */
+    maxBlocks?: number;
+    /** Close a truncated final block instead of skipping it */
+    allowPartial?: boolean;
+}
+
+const NO_JSON_FOUND = 'No valid JSON found in the response';
+
+type ParseAttempt =
+    | { success: true; data: any; repairs: JsonRepair[]; start: number; end: number }
+    | { success: false };
+
+/**
+ * Find every JSON block in an LLM response, in document order
+ *
+ * Fenced blocks (```json or plain ```), `inline code` and JSON-looking values
+ * in prose are all read with the lenient parser. Values nested inside another
+ * block are not reported separately, and neither are fences that hold
+ * something other than JSON. Bracketed citations such as `[1]` or `[2, 3]`
+ * are not treated as JSON.
+ *
+ * @example
+ * ```ts
+ * const blocks = extractAllJson(reply)
+ * // [{ value: {...battlecard}, strategy: 'markdown-json', before: 'Here is the battlecard:', ... },
+ * //  { value: [...followups], strategy: 'markdown-json', before: 'Ask next:', after: '' }]
+ * ```
  */
-function parseLLMJson(response: any, options: Record<string, any> | null | undefined = {}): any {
+export function extractAllJson(response: any, options: ExtractAllJsonOptions | null | undefined = {}): JsonBlock[] {
+    if (!options || typeof options !== 'object' || Array.isArray(options)) {
+        options = {};
+    }
+    const { maxBlocks = Infinity, allowPartial = false } = options;
+
+    if (response === null || response === undefined) {
+        return [];
+    }
+    const text: string = typeof response === 'string' ? response : String(response);
+    return collectJsonBlocks(text, scanJson(text), maxBlocks, allowPartial);
+}
+
+/**
+ * extractAllJson() over an existing scan of `text`. Each span handed to the
+ * lenient parser is a scanner candidate, so a failed parse costs at most the
+ * length of that candidate.
+ */
+function collectJsonBlocks(
+    text: string,
+    scan: JsonScan,
+    maxBlocks: number,
+    allowPartial: boolean,
+    warn: (warning: string) => void = () => {}
+): JsonBlock[] {
+    // Blocks plus their outer extent (fences and backticks included), which bounds the prose
+    const found: Array<Omit<JsonBlock, 'before' | 'after'> & { outer: { start: number; end: number } }> = [];
+    const candidateAt = new Map(scan.candidates.map(candidate => [candidate.start, candidate]));
+    const unclosed = new Set(scan.unclosed);
+
+    // text[start, end) as exactly one JSON value (surrounding trivia allowed), or null
+    const readSpan = (start: number, end: number) => {
+        try {
+            const span = text.slice(start, end);
+            const result = readLenientJson(span, 0, { allowPartial });
+            if (span.slice(result.end).trim().length > 0) return null;
+            const leading = span.length - span.trimStart().length;
+            return { ...result, start: start + leading, end: start + result.end };
+        } catch (e) {
+            return null;
+        }
+    };
+
+    let i = 0;
+    while (i < text.length && found.length < maxBlocks) {
+        const char = text[i];
+
+        if (text.startsWith('```', i)) {
+            // Fenced block: ```lang\n ... ```
+            const newline = text.indexOf('\n', i);
+            const close = text.indexOf('```', i + 3);
+            const headerEnd = newline !== -1 && (close === -1 || newline < close) ? newline + 1 : i + 3;
+            const language = text.slice(i + 3, headerEnd).trim().split(/\s/)[0];
+            const contentEnd = close === -1 ? text.length : close;
+            const blockEnd = close === -1 ? text.length : close + 3;
+
+            const first = text.slice(headerEnd, contentEnd).trimStart()[0];
+            const result = first === '{' || first === '[' ? readSpan(headerEnd, contentEnd) : null;
+            const json = /^json$/i.test(language);
+            if (!result && json) {
+                warn('The ```json block is not valid JSON; searched the rest of the response');
+            }
+            if (result) {
+                found.push({
+                    value: result.value,
+                    strategy: json ? 'markdown-json' : 'code-block',
+                    repairs: result.repairs,
+                    span: { start: result.start, end: result.end },
+                    outer: { start: i, end: blockEnd }
+                });
+            }
+            i = blockEnd;
+            continue;
+        }
+
+        if (char === '`') {
+            // Inline code on one line
+            const close = text.indexOf('`', i + 1);
+            if (close === -1 || text.slice(i + 1, close).includes('\n')) {
+                i++;
+                continue;
+            }
+            const first = text.slice(i + 1, close).trimStart()[0];
+            const result = first === '{' || first === '[' ? readSpan(i + 1, close) : null;
+            if (result) {
+                found.push({
+                    value: result.value,
+                    strategy: 'inline-code',
+                    repairs: result.repairs,
+                    span: { start: result.start, end: result.end },
+                    outer: { start: i, end: close + 1 }
+                });
+            }
+            i = close + 1;
+            continue;
+        }
+
+        // Too deep to parse - try what's inside instead
+        const candidate = candidateAt.get(i);
+        const truncated = allowPartial && unclosed.has(i);
+        if ((candidate && candidate.height < MAX_LENIENT_DEPTH) || truncated) {
+            const result = readSpan(i, candidate ? candidate.end : text.length);
+            const citation = result && Array.isArray(result.value) && result.value.every(item => typeof item === 'number');
+            if (result && !citation) {
+                found.push({
+                    value: result.value,
+                    strategy: 'embedded',
+                    repairs: result.repairs,
+                    span: { start: i, end: result.end },
+                    outer: { start: i, end: result.end }
+                });
+                i = result.end;
+                continue;
+            }
+        }
+
+        i++;
+    }
+
+    return found.map(({ outer, ...block }, index) => {
+        const before = text.slice(index === 0 ? 0 : found[index - 1].outer.end, outer.start).trim();
+        const after = text.slice(outer.end, index === found.length - 1 ? text.length : found[index + 1].outer.start).trim();
+        const whole = found.length === 1 && block.strategy === 'embedded' && !before && !after;
+        return { ...block, strategy: whole ? 'direct' : block.strategy, before, after };
+    });
+}
+
+/**
+ * Parse JSON from an LLM response and explain how it was found
+ *
+ * Same search as parseLLMJson, but the result says which extraction
+ * strategy succeeded, which repairs were applied, where the JSON sits in the
+ * original text, and anything suspicious along the way.
+ *
+ * @example
+ * ```ts
+ * const result = parseLLMJsonDetailed(raw)
+ * if (result.ok) console.log(result.strategy, result.repairs, result.value)
+ * else console.warn(result.error, result.warnings)
+ * ```
+ */
+export function parseLLMJsonDetailed(
+    response: any,
+    options: ParseLLMJsonOptions | null | undefined = {}
+): ParseLLMJsonResult {
+    return findLLMJson(response, options, () => true);
+}
+
+/**
+ * The search behind parseLLMJsonDetailed: candidates are tried in order of
+ * preference, and the first parsed value `accept` agrees to is returned.
+ * With a nested `response`, the unwrapped value is offered before the outer one.
+ */
+function findLLMJson(
+    response: any,
+    options: ParseLLMJsonOptions | null | undefined,
+    accept: (value: any) => boolean
+): ParseLLMJsonResult {
     // BULLETPROOF: Handle null/undefined/invalid options - never crash!
     if (!options || typeof options !== 'object' || Array.isArray(options)) {
         options = {};
@@ -12,285 +284,142 @@ function parseLLMJson(response: any, options: Record<string, any> | null | undef
 
     const {
         attemptFix = true,
-        maxBlocks = 5,
+        maxBlocks = Infinity,
         preferFirst = true,  // Prefer first valid JSON found
+        preferLast = false,  // ...or the last one
         allowPartial = false // Allow partial/truncated JSON
     } = options;
+    const pickLast = preferLast || !preferFirst;
+
+    const warnings: string[] = [];
 
     // BULLETPROOF: Validate and normalize input - handle any type
     if (response === null || response === undefined) {
-        return null; // Can't parse null/undefined - return null safely
+        return { ok: false, error: 'No response to parse', warnings };
     }
 
     // Convert non-string inputs to string
     if (typeof response !== 'string') {
         try {
+            warnings.push(`Response was a ${typeof response}, converted to string`);
             response = String(response);
         } catch (e) {
-            return null; // Can't convert to string - return null safely
+            return { ok: false, error: 'Response could not be converted to a string', warnings };
         }
     }
 
     // Check for empty string after conversion
     if (!response || response.trim().length === 0) {
-        return null; // Empty string - return null safely
+        return { ok: false, error: 'Response is empty', warnings };
     }
 
-    // Cache for performance
-    const jsonCache = new Map();
-
-    // Enhanced JSON fixing function
-    const fixCommonJsonIssues = (jsonStr) => {
-        // Check cache first
-        if (jsonCache.has(jsonStr)) {
-            return jsonCache.get(jsonStr);
-        }
-
-        let fixed = jsonStr;
-
-        // Remove BOM if present
-        fixed = fixed.replace(/^\uFEFF/, '');
-
-        // Remove all types of comments more aggressively
-        fixed = fixed.replace(/\/\/.*$/gm, '');
-        fixed = fixed.replace(/\/\*[\s\S]*?\*\//g, '');
-        fixed = fixed.replace(/^\s*#.*$/gm, ''); // Python-style comments
+    const text: string = response;
 
-        // Handle escaped characters that might break parsing
-        fixed = fixed.replace(/\\'/g, "'");
-        fixed = fixed.replace(/\\"/g, '"');
-
-        // Fix truncated strings (common in LLM outputs)
-        if (allowPartial) {
-            // Close unclosed strings
-            const quoteCount = (fixed.match(/"/g) || []).length;
-            if (quoteCount % 2 !== 0) {
-                fixed += '"';
-            }
+    // One scan per distinct string - the same text is searched by several strategies
+    const scans = new Map<string, JsonScan>();
+    const scanOf = (source: string): JsonScan => {
+        let scan = scans.get(source);
+        if (!scan) {
+            scan = scanJson(source);
+            scans.set(source, scan);
         }
-
-        // Remove trailing commas more comprehensively
-        fixed = fixed.replace(/,(\s*[}\]])/g, '$1');
-        fixed = fixed.replace(/,\s*$/g, '');
-
-        // Fix unquoted keys (including those with hyphens and dots)
-        fixed = fixed.replace(/([{,]\s*)([a-zA-Z_$][\w\-\.]*)\s*:/g, '$1"$2":');
-
-        // Convert single quotes to double quotes more carefully
-        // Handle nested quotes
-        fixed = fixed.replace(/'([^'\\]*(\\.[^'\\]*)*)'/g, '"$1"');
-
-        // Fix boolean and null values that might be incorrectly formatted
-        fixed = fixed.replace(/:\s*True\b/gi, ': true');
-        fixed = fixed.replace(/:\s*False\b/gi, ': false');
-        fixed = fixed.replace(/:\s*None\b/gi, ': null');
-        fixed = fixed.replace(/:\s*undefined\b/gi, ': null');
-
-        // Handle Python-style lists/dicts
-        fixed = fixed.replace(/\bTrue\b/g, 'true');
-        fixed = fixed.replace(/\bFalse\b/g, 'false');
-        fixed = fixed.replace(/\bNone\b/g, 'null');
-
-        // Fix improperly escaped quotes inside strings
-        fixed = fixed.replace(/"([^"]*)\\"([^"]*)"/, '"$1\\"$2"');
-
-        // Handle ellipsis in truncated content
-        fixed = fixed.replace(/\.\.\./g, '');
-        fixed = fixed.replace(/…/g, '');
-
-        // Cache the result
-        jsonCache.set(jsonStr, fixed);
-        return fixed;
+        return scan;
     };
 
-    // Enhanced JSON extraction
-    const extractJson = (text: string): string[] => {
-        const results: Array<{ content: string; priority: number }> = [];
-
-        // Priority 1: Look for code blocks with json marker
-        const jsonBlockPattern = /```(?:json|JSON)\s*\n?([\s\S]*?)\n?```/g;
-        let match;
-        while ((match = jsonBlockPattern.exec(text)) !== null) {
-            if (results.length >= maxBlocks) break;
-            const content = match[1]?.trim();
-            if (content) results.push({ content, priority: 1 });
-        }
-
-        // Priority 2: Look for any code blocks
-        const codeBlockPattern = /```\s*\n?([\s\S]*?)\n?```/g;
-        while ((match = codeBlockPattern.exec(text)) !== null) {
-            if (results.length >= maxBlocks) break;
-            const content = match[1]?.trim();
-            if (content && (content.startsWith('{') || content.startsWith('['))) {
-                results.push({ content, priority: 2 });
-            }
-        }
-
-        // Priority 3: Look for inline code blocks
-        const inlinePattern = /`([^`]+)`/g;
-        while ((match = inlinePattern.exec(text)) !== null) {
-            if (results.length >= maxBlocks) break;
-            const content = match[1]?.trim();
-            if (content && (content.startsWith('{') || content.startsWith('['))) {
-                results.push({ content, priority: 3 });
-            }
-        }
+    // Lenient parse: comments, single quotes, unquoted keys, trailing commas,
+    // Python literals. String contents are never rewritten.
+    const parseLenient = (jsonStr: string): ParseAttempt => {
+        const offset = jsonStr.startsWith('\uFEFF') ? 1 : 0;
 
-        // Priority 4: Extract JSON-like structures directly
-        // Improved regex to handle nested structures better
-        const jsonPatterns = [
-            /(\{(?:[^{}]|(?:\{[^{}]*\}))*\})/g,  // Nested objects
-            /(\[(?:[^\[\]]|(?:\[[^\[\]]*\]))*\])/g, // Nested arrays
-        ];
-
-        for (const pattern of jsonPatterns) {
-            pattern.lastIndex = 0;
-            while ((match = pattern.exec(text)) !== null) {
-                if (results.length >= maxBlocks) break;
-                const content = match[1]?.trim();
-                if (content && content.length > 10) { // Minimum length check
-                    results.push({ content, priority: 4 });
-                }
+        try {
+            const whole = readLenientJson(jsonStr, offset, { allowPartial });
+            if (jsonStr.slice(whole.end).trim().length === 0) {
+                return { success: true, data: whole.value, repairs: whole.repairs, start: offset, end: whole.end };
             }
+        } catch (e) {
+            // Not a lenient JSON document as a whole - try the first value in it
         }
 
-        // Sort by priority if preferFirst is true
-        if (preferFirst) {
-            results.sort((a, b) => a.priority - b.priority);
+        const start = jsonStr.slice(offset).search(/[{\[]/);
+        if (start === -1) return { success: false };
+        try {
+            const first = readLenientJson(jsonStr, offset + start, { allowPartial });
+            return {
+                success: true,
+                data: first.value,
+                repairs: ['ignored-surrounding-text', ...first.repairs],
+                start: offset + start,
+                end: first.end
+            };
+        } catch (e) {
+            return { success: false };
         }
-
-        return results.map(r => r.content);
     };
 
-    // Smart JSON boundary detection
-    const findJsonBoundaries = (text) => {
-        let start = -1;
-        let end = -1;
-        let depth = 0;
-        let inString = false;
-        let escapeNext = false;
-
-        for (let i = 0; i < text.length; i++) {
-            const char = text[i];
-
-            if (escapeNext) {
-                escapeNext = false;
-                continue;
-            }
-
-            if (char === '\\') {
-                escapeNext = true;
-                continue;
-            }
-
-            if (char === '"' && !escapeNext) {
-                inString = !inString;
-                continue;
-            }
+    // Smart JSON boundary detection: the first outermost balanced structure,
+    // or with allowPartial the start of a truncated one
+    const findJsonBoundaries = (source: string): { text: string; start: number } | null => {
+        const { candidates, unclosed } = scanOf(source);
+        const first = candidates.find(candidate => candidate.depth === 0);
+        const truncated = allowPartial && unclosed.length > 0 ? unclosed[0] : -1;
 
-            if (!inString) {
-                if (char === '{' || char === '[') {
-                    if (start === -1) start = i;
-                    depth++;
-                } else if (char === '}' || char === ']') {
-                    depth--;
-                    if (depth === 0 && start !== -1) {
-                        end = i + 1;
-                        break;
-                    }
-                }
-            }
+        if (first && (truncated === -1 || first.start < truncated)) {
+            return { text: source.slice(first.start, first.end), start: first.start };
         }
-
-        if (start !== -1 && end !== -1) {
-            return text.substring(start, end);
+        if (truncated !== -1) {
+            return { text: source.substring(truncated) + (source[truncated] === '{' ? '}' : ']'), start: truncated };
         }
-
-        // If we couldn't find complete boundaries but allowPartial is true
-        if (allowPartial && start !== -1) {
-            return text.substring(start) + (depth > 0 ? '}' : '');
-        }
-
         return null;
     };
 
-    // Enhanced parsing attempt
-    const tryParseJson = (jsonStr) => {
+    // Enhanced parsing attempt; offsets are relative to jsonStr
+    const tryParseJson = (jsonStr: string): ParseAttempt => {
         if (!jsonStr || jsonStr.trim().length === 0) {
-            return { success: false, data: null, error: 'Empty JSON string' };
+            return { success: false };
         }
 
-        let cleanJson = jsonStr.trim();
+        const leading = jsonStr.length - jsonStr.trimStart().length;
+        const cleanJson = jsonStr.trim();
 
         // Try direct parse first (fastest)
         try {
             const parsed = JSON.parse(cleanJson);
-            return { success: true, data: parsed, error: null };
+            return { success: true, data: parsed, repairs: [], start: leading, end: leading + cleanJson.length };
         } catch (firstError) {
             // Continue to fixing attempts
         }
 
         if (attemptFix) {
             // Try boundary detection
-            const boundedJson = findJsonBoundaries(cleanJson);
-            if (boundedJson) {
+            const bounded = findJsonBoundaries(cleanJson);
+            if (bounded) {
                 try {
-                    const parsed = JSON.parse(boundedJson);
-                    return { success: true, data: parsed, error: null };
+                    const parsed = JSON.parse(bounded.text);
+                    const start = leading + bounded.start;
+                    return {
+                        success: true,
+                        data: parsed,
+                        repairs: ['ignored-surrounding-text'],
+                        start,
+                        end: Math.min(start + bounded.text.length, leading + cleanJson.length)
+                    };
                 } catch (e) {
                     // Continue to other fixes
                 }
             }
 
-            // Apply comprehensive fixes
-            cleanJson = fixCommonJsonIssues(cleanJson);
-
-            try {
-                const parsed = JSON.parse(cleanJson);
-                return { success: true, data: parsed, error: null };
-            } catch (secondError) {
-                // Last resort: try to extract just the JSON part
-                const extracted = findJsonBoundaries(cleanJson);
-                if (extracted) {
-                    try {
-                        const parsed = JSON.parse(extracted);
-                        return { success: true, data: parsed, error: null };
-                    } catch (e) {
-                        // Final failure
-                    }
-                }
+            // Lenient parse of the whole string, then of the first value in it
+            const lenient = parseLenient(cleanJson);
+            if (lenient.success) {
+                return { ...lenient, start: leading + lenient.start, end: leading + lenient.end };
             }
         }
 
-        return {
-            success: false,
-            data: null,
-            error: 'Failed to parse JSON after all attempts'
-        };
+        return { success: false };
     };
 
-    // Fast path: Try direct markdown JSON code block extraction first (most common case)
-    // This is optimized for LLM responses that commonly return JSON in markdown code blocks
-    try {
-        const jsonMatch = response.match(/```json\s*\n([\s\S]*?)\n```/);
-        if (jsonMatch) {
-            const extracted = jsonMatch[1].trim();
-            try {
-                const parsed = JSON.parse(extracted);
-                // Successfully parsed from markdown code block - return immediately
-                return parsed;
-            } catch (e) {
-                // Markdown block exists but JSON is malformed - continue to full parsing
-            }
-        }
-    } catch (e) {
-        // Fast path failed, continue to comprehensive parsing
-    }
-
-    // Main parsing logic (comprehensive fallback)
-
-    // Helper to unwrap response field if present (defined first to avoid hoisting issues)
-    const unwrapResponse = (data, maxAttempts = 2) => {
+    // Helper to unwrap response field if present
+    const unwrapResponse = (data: any, maxAttempts = 2): { value: any; unwrapped: boolean } => {
         let current = data;
         let attempts = 0;
 
@@ -323,48 +452,180 @@ function parseLLMJson(response: any, options: Record<string, any> | null | undef
             }
         }
 
-        return current;
+        return { value: current, unwrapped: attempts > 0 };
     };
 
+    // Build the success result, or null if `accept` turns the value down;
+    // `offset` is where the parsed string starts in the response
+    const succeed = (
+        attempt: { data: any; repairs: JsonRepair[]; start: number; end: number },
+        strategy: JsonStrategy,
+        offset: number
+    ): ParseLLMJsonResult | null => {
+        let { data, repairs } = attempt;
+
+        // A JSON string that itself holds JSON (double-encoded reply)
+        if (typeof data === 'string' && /^\s*[{\[]/.test(data)) {
+            const decoded = tryParseJson(data);
+            if (decoded.success && decoded.data && typeof decoded.data === 'object') {
+                data = decoded.data;
+                repairs = [...repairs, 'double-encoded'];
+            }
+        }
+
+        const choices = [{ value: data, unwrapped: false }];
+        const inner = unwrapResponse(data);
+        if (inner.unwrapped) choices.unshift(inner);
+
+        const choice = choices.find(({ value }) => accept(value));
+        if (!choice) {
+            return null;
+        }
+        return {
+            ok: true,
+            value: choice.value,
+            strategy,
+            repairs: choice.unwrapped ? [...repairs, 'unwrapped-response'] : repairs,
+            span: { start: offset + attempt.start, end: offset + attempt.end },
+            warnings
+        };
+    };
+
+    // Main parsing logic
     // IMPORTANT: Try parsing the whole response first before extracting fragments
     // This prevents returning nested objects when a complete outer structure exists
-    const directResult = tryParseJson(response);
-    if (directResult.success) {
-        return unwrapResponse(directResult.data);
+    const directResult = tryParseJson(text);
+    const bounded = directResult.success && directResult.repairs.includes('ignored-surrounding-text');
+    // Only needed when the response isn't one JSON document
+    const blocks = directResult.success && !bounded
+        ? []
+        : collectJsonBlocks(text, scanOf(text), maxBlocks, allowPartial, warning => warnings.push(warning));
+    // A bounded parse only sees the first bracketed span - unless that is the
+    // only block, choose among the blocks below (it may be a citation like [1])
+    const onlyBlock = blocks.length === 0 || (blocks.length === 1 && directResult.success && blocks[0].span.start === directResult.start);
+    if (directResult.success && (!bounded || onlyBlock)) {
+        // A lone fenced or inline block is reported as such, not as a bracket scan
+        const fenced = blocks.length === 1 && blocks[0].strategy !== 'embedded';
+        const found = succeed(directResult, !bounded ? 'direct' : fenced ? blocks[0].strategy : 'boundary', 0);
+        if (found) return found;
     }
 
-    // If direct parse failed, try extracting JSON from text
-    const candidates = extractJson(response);
-
-    // Sort candidates by size (prefer larger/complete structures)
-    const sortedCandidates = candidates.sort((a, b) => b.length - a.length);
-
-    // Try each candidate, starting with largest
-    for (const jsonStr of sortedCandidates) {
-        const result = tryParseJson(jsonStr);
-        if (result.success) {
-            return unwrapResponse(result.data);
+    // Several blocks: take them in document order, from the end if preferred
+    const ordered = pickLast ? [...blocks].reverse() : blocks;
+    for (const block of ordered) {
+        const found = succeed(
+            { data: block.value, repairs: block.repairs, start: block.span.start, end: block.span.end },
+            block.strategy,
+            0
+        );
+        if (found) {
+            if (blocks.length > 1) {
+                warnings.push(`Found ${blocks.length} JSON blocks; used block ${blocks.indexOf(block) + 1} (see extractAllJson)`);
+            }
+            return found;
         }
     }
 
     // Final fallback: aggressive extraction
     if (attemptFix) {
-        const aggressiveJson = findJsonBoundaries(response);
+        const aggressiveJson = findJsonBoundaries(text);
         if (aggressiveJson) {
-            const result = tryParseJson(aggressiveJson);
+            const result = tryParseJson(aggressiveJson.text);
             if (result.success) {
-                return unwrapResponse(result.data);
+                const found = succeed(result, 'boundary', aggressiveJson.start);
+                if (found) return found;
             }
         }
     }
 
+    return { ok: false, error: NO_JSON_FOUND, warnings };
+}
+
+/**
+ * Parse JSON from an LLM response into a value matching `schema`
+ *
+ * Candidates are tried in the usual order, but the first one that validates
+ * wins - not just the first that parses. Near-misses are coerced first
+ * (numeric strings, a single string for a list, snake_case keys for
+ * camelCase fields) and listed in `coercions`.
+ */
+function parseLLMJsonWithSchema<T>(
+    response: any,
+    schema: z.ZodType<T>,
+    options: ParseLLMJsonOptions | null | undefined
+): ParseLLMJsonSchemaResult<T> {
+    let matched: { value: T; coercions: JsonCoercion[] } | null = null;
+    let issues: Record<string, string[]> | undefined;
+    let rejected = 0;
+
+    const result = findLLMJson(response, options, value => {
+        const coerced = coerceToSchema(value, schema);
+        const parsed = schema.safeParse(coerced.value);
+        if (parsed.success) {
+            matched = { value: parsed.data, coercions: coerced.coercions };
+            return true;
+        }
+        issues ??= formatIssues(parsed.error);
+        rejected++;
+        return false;
+    });
+
+    if (!result.ok) {
+        const error = rejected > 0 ? 'No JSON in the response matched the schema' : result.error;
+        return { ok: false, error, issues, warnings: result.warnings };
+    }
+
+    // Set by the accept callback, which TypeScript can't see
+    const { value, coercions } = matched as unknown as { value: T; coercions: JsonCoercion[] };
+    const warnings = rejected > 0
+        ? [...result.warnings, `Skipped ${rejected} parsed value(s) that did not match the schema`]
+        : result.warnings;
+    return { ok: true, value, coercions, strategy: result.strategy, repairs: result.repairs, span: result.span, warnings };
+}
+
+/**
+ * Parse JSON from an LLM response and validate it against a zod schema
+ * @returns A typed value plus the coercions applied, or why nothing matched
+ * @example
+ * ```ts
+ * const result = parseLLMJson(raw, SALES_OUTPUT.schema)
+ * if (result.ok) show(result.value.sales_guidance.main_response)
+ * ```
+ */
+function parseLLMJson<T>(
+    response: any,
+    schema: z.ZodType<T>,
+    options?: ParseLLMJsonOptions | null
+): ParseLLMJsonSchemaResult<T>;
+/**
+ * Parse JSON from LLM responses with bulletproof error handling
+ * @param {any} response - The response to parse (string, object, or any type)
+ * @param {object|null|undefined} options - Parsing options (can be null, undefined, or an object)
+ * @returns {any} Parsed JSON; null for empty input; a `{success: false, ...}` object when no JSON is found
+ * @deprecated Use parseLLMJsonDetailed, or pass a schema - their failures can't be mistaken for data
+ */
+function parseLLMJson(response: any, options?: ParseLLMJsonOptions | null): any;
+function parseLLMJson(response: any, schemaOrOptions?: any, options?: ParseLLMJsonOptions | null): any {
+    if (schemaOrOptions && typeof schemaOrOptions.safeParse === 'function') {
+        return parseLLMJsonWithSchema(response, schemaOrOptions, options);
+    }
+
+    const result = parseLLMJsonDetailed(response, schemaOrOptions);
+    if (result.ok) {
+        return result.value;
+    }
+
+    // Legacy shapes: null when there was nothing to parse, a failure object otherwise
+    if (result.error !== NO_JSON_FOUND) {
+        return null;
+    }
     return {
         success: false,
         data: null,
-        error: 'No valid JSON found in the response',
+        error: result.error,
         rawJson: null
     };
 }
 
 // Export as ES6 module
-export default parseLLMJson;
\ No newline at end of file
+export default parseLLMJson;
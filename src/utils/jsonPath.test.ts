@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest'
+import { childPath } from './jsonPath'
+
+describe('childPath', () => {
+  it('joins keys with dots and indexes with brackets', () => {
+    expect(childPath('', 'items')).toBe('items')
+    expect(childPath('items', 0)).toBe('items[0]')
+    expect(childPath('items[0]', 'unitPrice')).toBe('items[0].unitPrice')
+  })
+
+  it('quotes keys that are not identifiers', () => {
+    expect(childPath('headers', 'content-type')).toBe('headers["content-type"]')
+    expect(childPath('', '2nd')).toBe('["2nd"]')
+  })
+})
@@ -0,0 +1,25 @@
+/**
+ * Paths into parsed JSON values
+ *
+ * Dots for keys and brackets for indexes, e.g. `sales_guidance.main_response`
+ * or `suggested_followups[0]`. Keys that aren't identifiers are quoted, e.g.
+ * `headers["content-type"]`. The root is ''.
+ *
+ * @example
+ * ```ts
+ * childPath(childPath('', 'items'), 0) // 'items[0]'
+ * ```
+ */
+
+export type JsonPath = string
+
+/** An object key or an array index */
+export type JsonPathSegment = string | number
+
+const IDENTIFIER_KEY = /^[A-Za-z_$][\w$]*$/
+
+export function childPath(parent: JsonPath, key: JsonPathSegment): JsonPath {
+  if (typeof key === 'number') return `${parent}[${key}]`
+  if (!IDENTIFIER_KEY.test(key)) return `${parent}[${JSON.stringify(key)}]`
+  return parent ? `${parent}.${key}` : key
+}
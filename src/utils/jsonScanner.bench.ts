@@ -0,0 +1,51 @@
+/**
+ * Run with `npm run bench`. Every input is a few hundred kilobytes; times
+ * should stay in the low milliseconds and grow linearly with input size -
+ * including inputs that made the old nested-quantifier regexes backtrack.
+ */
+import { bench, describe } from 'vitest'
+import { extractAllJson, parseLLMJsonDetailed } from './jsonParser'
+import { scanJson } from './jsonScanner'
+
+const KB = 1024
+
+function repeatTo(unit: string, size: number): string {
+  return unit.repeat(Math.ceil(size / unit.length))
+}
+
+const item = (i: number) => ({ id: i, name: `Item ${i}`, tags: ['a', 'b'], meta: { score: i / 10, ok: true } })
+
+const INPUTS: Record<string, string> = {
+  // One big reply in a fence, with prose around it
+  'large fenced reply': `Here you go:\n\`\`\`json\n${JSON.stringify({
+    items: Array.from({ length: 3000 }, (_, i) => item(i)),
+  })}\n\`\`\`\nAnything else?`,
+  // Lots of small values and citations in prose
+  'many small blocks': repeatTo('See [1] and `{"id": 1}` then {note: \'x\', n: [1, 2]} - ok. ', 300 * KB),
+  // Never-closed objects: worst case for the old regexes
+  'unbalanced objects': repeatTo('{"a": {"b": ', 300 * KB),
+  // Unclosed arrays followed by stray closers
+  'stray brackets': repeatTo('[', 150 * KB) + repeatTo('}', 150 * KB),
+  // Deep but balanced nesting
+  'deep nesting': repeatTo('[', 100 * KB) + repeatTo(']', 100 * KB),
+  // Prose with apostrophes and quotes, no JSON at all
+  'plain prose': repeatTo('It\'s "quoted" text, isn\'t it? ', 300 * KB),
+}
+
+const options = { time: 200, iterations: 3, warmupIterations: 1 }
+
+for (const [name, text] of Object.entries(INPUTS)) {
+  describe(`${name} (${Math.round(text.length / KB)} KB)`, () => {
+    bench('scanJson', () => {
+      scanJson(text)
+    }, options)
+
+    bench('extractAllJson', () => {
+      extractAllJson(text)
+    }, options)
+
+    bench('parseLLMJsonDetailed', () => {
+      parseLLMJsonDetailed(text)
+    }, options)
+  })
+}
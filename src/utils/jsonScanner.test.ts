@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { scanJson } from './jsonScanner'
+
+const spans = (text: string) => scanJson(text).candidates.map(c => [text.slice(c.start, c.end), c.depth])
+
+describe('scanJson', () => {
+  it('finds balanced candidates at any depth, in document order', () => {
+    expect(spans('a {"x": [1, {"y": [2]}]} b [3]')).toEqual([
+      ['{"x": [1, {"y": [2]}]}', 0],
+      ['[1, {"y": [2]}]', 1],
+      ['{"y": [2]}', 2],
+      ['[2]', 3],
+      ['[3]', 0],
+    ])
+  })
+
+  it('ignores brackets inside strings but not apostrophes in prose', () => {
+    expect(spans('{"a": "}]"} and {b: \'{\'}')).toEqual([
+      ['{"a": "}]"}', 0],
+      ["{b: '{'}", 0],
+    ])
+    expect(spans("don't [stop] {x: 'it\\'s'}")).toEqual([
+      ['[stop]', 0],
+      ["{x: 'it\\'s'}", 0],
+    ])
+  })
+
+  it('skips mismatched brackets and reports unclosed ones', () => {
+    const text = 'see [note: {"a": 1} ] and {"b": [2'
+    const { candidates, unclosed } = scanJson(text)
+
+    expect(candidates.map(c => text.slice(c.start, c.end))).toEqual(['[note: {"a": 1} ]', '{"a": 1}'])
+    expect(unclosed.map(start => text[start] + start)).toEqual(['{26', '[32'])
+    expect(spans('} ] {"ok": [1 }')).toEqual([['{"ok": [1 }', 0]])
+  })
+
+  it('reports how deeply each candidate nests', () => {
+    expect(scanJson('{"a": [[1], {"b": [2 ]}, []]} [3]').candidates.map(c => c.height)).toEqual([3, 2, 0, 1, 0, 0, 0])
+  })
+})
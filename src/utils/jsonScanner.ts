@@ -0,0 +1,103 @@
+/**
+ * Single-pass JSON candidate scanner
+ *
+ * Finds every balanced `{...}` / `[...]` span in a text, at any depth, in one
+ * pass over it (O(n) time, no regex backtracking). Brackets inside strings
+ * don't count: double-quoted strings are tracked inside brackets, and
+ * single-quoted ones too where a value or key can start, so apostrophes in
+ * prose ("don't") are left alone.
+ *
+ * Candidates are only places worth parsing - the scanner doesn't check that
+ * they are valid JSON.
+ *
+ * @example
+ * ```ts
+ * const { candidates } = scanJson('Result: {"a": [1, 2]} done')
+ * // [{ start: 8, end: 21, depth: 0, kind: 'object' }, { start: 14, end: 20, depth: 1, kind: 'array' }]
+ * ```
+ */
+
+export interface JsonCandidate {
+  /** Offset of the opening bracket */
+  start: number
+  /** Offset just past the closing bracket */
+  end: number
+  /** How many other candidates contain this one (0: outermost) */
+  depth: number
+  /** Nesting levels inside it (0: no candidates inside) */
+  height: number
+  kind: 'object' | 'array'
+}
+
+export interface JsonScan {
+  /** Balanced spans in document order (by start) */
+  candidates: JsonCandidate[]
+  /** Opening brackets that never closed, outermost first - the start of a truncated value */
+  unclosed: number[]
+}
+
+const CLOSERS: Record<string, string> = { '}': '{', ']': '[' }
+
+// After these, a quote starts a (lenient) string rather than being an apostrophe
+const VALUE_START = new Set(['{', '[', ',', ':'])
+
+export function scanJson(text: string): JsonScan {
+  // Filled in as openers are seen, so they stay in document order; end is set on close
+  const candidates: JsonCandidate[] = []
+  const stack: Array<{ candidate: JsonCandidate; char: string }> = []
+  // Open brackets of each kind on the stack, so a stray closer is rejected without searching
+  const open: Record<string, number> = { '{': 0, '[': 0 }
+  let quote = ''
+  let lastSignificant = ''
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quote) {
+      if (char === '\\') i++
+      else if (char === quote) {
+        quote = ''
+        lastSignificant = char
+      }
+      continue
+    }
+
+    if (char === '{' || char === '[') {
+      const candidate: JsonCandidate = { start: i, end: -1, depth: 0, height: 0, kind: char === '{' ? 'object' : 'array' }
+      candidates.push(candidate)
+      stack.push({ candidate, char })
+      open[char]++
+    } else if ((char === '}' || char === ']') && open[CLOSERS[char]] > 0) {
+      // Close the nearest matching opener; mismatched ones inside it stay unclosed.
+      // Each opener is popped at most once, so this stays linear overall.
+      let opener = stack.pop()!
+      open[opener.char]--
+      while (opener.char !== CLOSERS[char]) {
+        // What an unclosed opener contained counts towards the one around it
+        const outer = stack.pop()!
+        open[outer.char]--
+        outer.candidate.height = Math.max(outer.candidate.height, opener.candidate.height)
+        opener = outer
+      }
+      opener.candidate.end = i + 1
+
+      const parent = stack[stack.length - 1]
+      if (parent) parent.candidate.height = Math.max(parent.candidate.height, opener.candidate.height + 1)
+    } else if (stack.length > 0 && (char === '"' || (char === "'" && VALUE_START.has(lastSignificant)))) {
+      quote = char
+    }
+
+    if (char !== ' ' && char !== '\t' && char !== '\n' && char !== '\r') lastSignificant = char
+  }
+
+  // Depth among balanced candidates only - an unclosed bracket in prose doesn't nest anything
+  const balanced = candidates.filter(candidate => candidate.end !== -1)
+  const enclosing: number[] = []
+  for (const candidate of balanced) {
+    while (enclosing.length > 0 && enclosing[enclosing.length - 1] <= candidate.start) enclosing.pop()
+    candidate.depth = enclosing.length
+    enclosing.push(candidate.end)
+  }
+
+  return { candidates: balanced, unclosed: stack.map(opener => opener.candidate.start) }
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { LenientJsonError, parseLenientJson, readLenientJson } from './lenientJson'
+
+describe('parseLenientJson', () => {
+  it('parses strict JSON like JSON.parse', () => {
+    const text = '{"a": [1, -2.5e3, true, null], "b": {"c": "d\\n\\u00e9"}}'
+    expect(parseLenientJson(text)).toEqual(JSON.parse(text))
+  })
+
+  it('accepts single quotes, unquoted keys and trailing commas', () => {
+    expect(parseLenientJson("{name: 'Amadeo', 'tags': ['a', 'b',], content-type: 'json',}")).toEqual({
+      name: 'Amadeo',
+      tags: ['a', 'b'],
+      'content-type': 'json',
+    })
+  })
+
+  it('skips comments outside strings only', () => {
+    const text = `{
+      // the answer
+      "url": "https://example.com/a#b", /* inline */
+      # python style
+      "note": "use // and /* freely"
+    }`
+    expect(parseLenientJson(text)).toEqual({
+      url: 'https://example.com/a#b',
+      note: 'use // and /* freely',
+    })
+  })
+
+  it('maps Python literals outside strings and leaves text alone', () => {
+    expect(parseLenientJson("{'ok': True, 'missing': None, 'off': False, 'text': 'True or None'}")).toEqual({
+      ok: true,
+      missing: null,
+      off: false,
+      text: 'True or None',
+    })
+  })
+
+  it('keeps ellipses inside strings and skips elided elements', () => {
+    expect(parseLenientJson('{"text": "Wait... what…", "items": [1, 2, ...]}')).toEqual({
+      text: 'Wait... what…',
+      items: [1, 2],
+    })
+  })
+
+  it('keeps escaped quotes and raw newlines in strings', () => {
+    expect(parseLenientJson(`{'quote': 'It\\'s "fine"', "lines": "one
+two"}`)).toEqual({ quote: 'It\'s "fine"', lines: 'one\ntwo' })
+  })
+
+  it('accepts relaxed numbers', () => {
+    expect(parseLenientJson('[+1, .5, 5., 0x1F, -0x10]')).toEqual([1, 0.5, 5, 31, -16])
+  })
+
+  it('closes truncated documents when allowPartial is set', () => {
+    expect(parseLenientJson('{"response": "Amadeo is', { allowPartial: true })).toEqual({ response: 'Amadeo is' })
+    expect(parseLenientJson('{"items": [1, 2', { allowPartial: true })).toEqual({ items: [1, 2] })
+    expect(() => parseLenientJson('{"items": [1, 2')).toThrow(LenientJsonError)
+  })
+
+  it('leaves out a number or literal cut off by the end of a partial document', () => {
+    expect(parseLenientJson('{"a": 1, "done": fa', { allowPartial: true })).toEqual({ a: 1 })
+    expect(parseLenientJson('[1, -', { allowPartial: true })).toEqual([1])
+    expect(parseLenientJson('[2e', { allowPartial: true })).toEqual([2])
+    expect(() => parseLenientJson('tr', { allowPartial: true })).toThrow(LenientJsonError)
+  })
+
+  it('keeps __proto__ keys as own properties, like JSON.parse', () => {
+    const value = parseLenientJson("{'__proto__': {'polluted': 1}}") as Record<string, unknown>
+
+    expect(Object.keys(value)).toEqual(['__proto__'])
+    expect(value).toEqual(JSON.parse('{"__proto__": {"polluted": 1}}'))
+    expect(({} as any).polluted).toBeUndefined()
+  })
+
+  it('reports where parsing failed', () => {
+    try {
+      parseLenientJson('{"a": 1} trailing')
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(LenientJsonError)
+      expect((error as LenientJsonError).position).toBe(9)
+    }
+    expect(() => parseLenientJson('{"a": nope}')).toThrow(/Unexpected word "nope"/)
+    expect(() => parseLenientJson('['.repeat(600) + ']'.repeat(600))).toThrow(/Nested deeper than 512 levels/)
+  })
+})
+
+describe('readLenientJson', () => {
+  it('reads one value and reports where it ended', () => {
+    const text = 'Result: {a: 1} and more'
+    expect(readLenientJson(text, 8)).toEqual({ value: { a: 1 }, end: 14, repairs: ['unquoted-keys'] })
+  })
+
+  it('lists the repairs a document needed', () => {
+    const { repairs } = readLenientJson("{'a': True, b: [1, 2,], /* c */ d: .5, e: [...]}")
+    expect(repairs.sort()).toEqual(
+      ['comments', 'ellipsis', 'literals', 'relaxed-numbers', 'single-quotes', 'trailing-commas', 'unquoted-keys'].sort()
+    )
+    expect(readLenientJson('{"a": [1, 2]}').repairs).toEqual([])
+    expect(readLenientJson('{"a": "b', 0, { allowPartial: true }).repairs).toEqual(['closed-partial'])
+  })
+})
@@ -0,0 +1,421 @@
+/**
+ * Lenient JSON parser for LLM output
+ *
+ * A small tokenizer and recursive-descent parser for the JSON dialect models
+ * actually write. On top of strict JSON it accepts:
+ * - single-quoted strings and raw newlines inside strings
+ * - unquoted keys (`{name: 'x'}`, `{content-type: 1}`)
+ * - comments: `// ...`, `/* ... *\/` and `# ...`
+ * - trailing commas
+ * - Python / JS literals: True, False, None, undefined (as null), NaN, Infinity
+ * - `+1`, `.5`, `5.` and hex numbers
+ * - `...` / `…` placeholders for elided elements, which are skipped
+ *
+ * Everything is tokenized with string context in mind: the contents of string
+ * literals are only unescaped, never rewritten, so URLs, `#` and `...` inside
+ * text survive.
+ *
+ * @example
+ * ```ts
+ * parseLenientJson("{answer: 'see https://example.com', done: True,}")
+ * // { answer: 'see https://example.com', done: true }
+ * ```
+ */
+
+export interface LenientJsonOptions {
+  /** Close unterminated strings, arrays and objects at end of input */
+  allowPartial?: boolean
+}
+
+/**
+ * Non-JSON syntax the parser had to accept, reported by readLenientJson()
+ */
+export type LenientRepair =
+  | 'comments'
+  | 'single-quotes'
+  | 'unquoted-keys'
+  | 'trailing-commas'
+  | 'literals'
+  | 'relaxed-numbers'
+  | 'ellipsis'
+  | 'closed-partial'
+
+export class LenientJsonError extends Error {
+  /** Offset in the input where parsing failed */
+  position: number
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`)
+    this.name = 'LenientJsonError'
+    this.position = position
+  }
+}
+
+const JSON_LITERALS = ['true', 'false', 'null']
+
+const LITERALS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+  True: true,
+  False: false,
+  None: null,
+  undefined: null,
+  NaN: NaN,
+  Infinity: Infinity,
+}
+
+const ESCAPES: Record<string, string> = {
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  v: '\v',
+  '0': '\0',
+}
+
+/**
+ * Deeper input is rejected rather than risking the call stack
+ */
+export const MAX_LENIENT_DEPTH = 512
+
+// A number or word cut off by the end of a partial document - left out of the result
+const INCOMPLETE = Symbol('incomplete')
+
+const IDENTIFIER_START = /[A-Za-z_$]/
+const IDENTIFIER_PART = /[\w$.-]/
+const NUMBER_PATTERN = /^[+-]?(?:0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?|Infinity)/
+
+/**
+ * Set a parsed key on an object - `__proto__` included, as an own property
+ * the way JSON.parse does
+ */
+export function setJsonKey(target: Record<string, unknown>, key: string, value: unknown): void {
+  if (key === '__proto__') {
+    Object.defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true })
+  } else {
+    target[key] = value
+  }
+}
+
+class Parser {
+  private pos: number
+  private depth = 0
+  readonly repairs = new Set<LenientRepair>()
+
+  constructor(
+    private readonly text: string,
+    private readonly allowPartial: boolean,
+    start: number
+  ) {
+    this.pos = start
+  }
+
+  get position(): number {
+    return this.pos
+  }
+
+  private fail(message: string): never {
+    throw new LenientJsonError(message, this.pos)
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.text.length
+  }
+
+  /**
+   * Skip whitespace and comments between tokens
+   */
+  skipTrivia(): void {
+    const { text } = this
+    while (this.pos < text.length) {
+      const char = text[this.pos]
+
+      if (char === ' ' || char === '\t' || char === '\n' || char === '\r' || char === '\uFEFF' || char === '\u00A0') {
+        this.pos++
+      } else if (char === '#' || (char === '/' && text[this.pos + 1] === '/')) {
+        this.repairs.add('comments')
+        const newline = text.indexOf('\n', this.pos)
+        this.pos = newline === -1 ? text.length : newline + 1
+      } else if (char === '/' && text[this.pos + 1] === '*') {
+        this.repairs.add('comments')
+        const close = text.indexOf('*/', this.pos + 2)
+        if (close === -1) {
+          if (this.allowPartial) {
+            this.repairs.add('closed-partial')
+            this.pos = text.length
+            return
+          }
+          this.fail('Unterminated comment')
+        }
+        this.pos = close + 2
+      } else {
+        return
+      }
+    }
+  }
+
+  /**
+   * An elision marker (`...` or `…`) in place of an element
+   */
+  private skipEllipsis(): boolean {
+    if (this.text.startsWith('...', this.pos)) {
+      this.pos += 3
+    } else if (this.text[this.pos] === '…') {
+      this.pos++
+    } else {
+      return false
+    }
+    this.repairs.add('ellipsis')
+    return true
+  }
+
+  parseValue(): unknown {
+    this.skipTrivia()
+    if (this.atEnd()) this.fail('Unexpected end of input')
+
+    const char = this.text[this.pos]
+    if (char === '{' || char === '[') {
+      if (this.depth >= MAX_LENIENT_DEPTH) this.fail(`Nested deeper than ${MAX_LENIENT_DEPTH} levels`)
+      this.depth++
+      const value = char === '{' ? this.parseObject() : this.parseArray()
+      this.depth--
+      return value
+    }
+    if (char === '"' || char === "'") return this.parseString()
+    if (/[\d+.-]/.test(char) && !this.text.startsWith('...', this.pos)) return this.parseScalar(() => this.parseNumber())
+    if (IDENTIFIER_START.test(char)) return this.parseScalar(() => this.parseLiteral())
+    return this.fail(`Unexpected character "${char}"`)
+  }
+
+  /**
+   * A number or literal - in a partial document, one cut off by the end of
+   * input is INCOMPLETE rather than an error
+   */
+  private parseScalar(parse: () => unknown): unknown {
+    const start = this.pos
+    try {
+      return parse()
+    } catch (error) {
+      if (!this.allowPartial || !/^[\w$.+-]*$/.test(this.text.slice(start))) throw error
+      this.repairs.add('closed-partial')
+      this.pos = this.text.length
+      return INCOMPLETE
+    }
+  }
+
+  private parseObject(): Record<string, unknown> {
+    const result: Record<string, unknown> = {}
+    let afterComma = false
+    this.pos++ // {
+
+    for (;;) {
+      this.skipTrivia()
+      if (this.atEnd()) return this.closePartial(result, 'Unterminated object')
+
+      if (this.text[this.pos] === '}') {
+        if (afterComma) this.repairs.add('trailing-commas')
+        this.pos++
+        return result
+      }
+      if (this.skipEllipsis()) {
+        afterComma = this.skipSeparator('}')
+        if (this.atEnd()) return result
+        continue
+      }
+
+      const key = this.parseKey()
+      this.skipTrivia()
+      if (this.atEnd()) return this.closePartial(result, 'Unterminated object')
+      if (this.text[this.pos] !== ':') this.fail('Expected ":" after object key')
+      this.pos++
+
+      this.skipTrivia()
+      if (this.atEnd()) return this.closePartial(result, 'Unterminated object')
+      const value = this.parseValue()
+      if (value !== INCOMPLETE) setJsonKey(result, key, value)
+
+      afterComma = this.skipSeparator('}')
+      if (this.atEnd()) return result
+    }
+  }
+
+  private parseArray(): unknown[] {
+    const result: unknown[] = []
+    let afterComma = false
+    this.pos++ // [
+
+    for (;;) {
+      this.skipTrivia()
+      if (this.atEnd()) return this.closePartial(result, 'Unterminated array')
+
+      if (this.text[this.pos] === ']') {
+        if (afterComma) this.repairs.add('trailing-commas')
+        this.pos++
+        return result
+      }
+      if (!this.skipEllipsis()) {
+        const value = this.parseValue()
+        if (value !== INCOMPLETE) result.push(value)
+      }
+
+      afterComma = this.skipSeparator(']')
+      if (this.atEnd()) return result
+    }
+  }
+
+  /**
+   * Return what was read so far of a truncated document, or fail
+   */
+  private closePartial<T>(result: T, message: string): T {
+    if (!this.allowPartial) this.fail(message)
+    this.repairs.add('closed-partial')
+    return result
+  }
+
+  /**
+   * After an element: consume a comma (returns true), or stop before the
+   * closing bracket. A partial document may end here instead.
+   */
+  private skipSeparator(close: '}' | ']'): boolean {
+    this.skipTrivia()
+    if (this.atEnd()) {
+      this.closePartial(null, close === '}' ? 'Unterminated object' : 'Unterminated array')
+      return false
+    }
+
+    const char = this.text[this.pos]
+    if (char === ',') {
+      this.pos++
+      return true
+    }
+    if (char === close) return false
+    return this.fail(`Expected "," or "${close}"`)
+  }
+
+  private parseKey(): string {
+    const char = this.text[this.pos]
+    if (char === '"' || char === "'") return this.parseString()
+
+    if (IDENTIFIER_START.test(char) || /\d/.test(char)) {
+      this.repairs.add('unquoted-keys')
+      const start = this.pos
+      while (this.pos < this.text.length && IDENTIFIER_PART.test(this.text[this.pos])) this.pos++
+      return this.text.slice(start, this.pos)
+    }
+    return this.fail('Expected object key')
+  }
+
+  private parseString(): string {
+    const { text } = this
+    const quote = text[this.pos]
+    let result = ''
+    if (quote === "'") this.repairs.add('single-quotes')
+    this.pos++
+
+    while (this.pos < text.length) {
+      const char = text[this.pos]
+
+      if (char === quote) {
+        this.pos++
+        return result
+      }
+
+      if (char !== '\\') {
+        result += char
+        this.pos++
+        continue
+      }
+
+      const escaped = text[this.pos + 1]
+      if (escaped === undefined) break
+
+      if (escaped === 'u' && /^[0-9a-fA-F]{4}$/.test(text.slice(this.pos + 2, this.pos + 6))) {
+        result += String.fromCharCode(parseInt(text.slice(this.pos + 2, this.pos + 6), 16))
+        this.pos += 6
+      } else if (escaped === 'x' && /^[0-9a-fA-F]{2}$/.test(text.slice(this.pos + 2, this.pos + 4))) {
+        result += String.fromCharCode(parseInt(text.slice(this.pos + 2, this.pos + 4), 16))
+        this.pos += 4
+      } else if (escaped === '\n' || escaped === '\r') {
+        // Line continuation
+        this.pos += text.startsWith('\r\n', this.pos + 1) ? 3 : 2
+      } else {
+        // Known escapes decode; anything else (\" \' \/ \\ \$) is the character itself
+        result += ESCAPES[escaped] ?? escaped
+        this.pos += 2
+      }
+    }
+
+    const value = this.closePartial(result, 'Unterminated string')
+    this.pos = text.length
+    return value
+  }
+
+  private parseNumber(): number {
+    const match = this.text.slice(this.pos, this.pos + 64).match(NUMBER_PATTERN)
+    if (!match) this.fail('Invalid number')
+
+    const token = match[0]
+    this.pos += token.length
+    if (this.allowPartial && /^[eE][+-]?$/.test(this.text.slice(this.pos))) {
+      // Exponent cut off by the end of input
+      this.repairs.add('closed-partial')
+      this.pos = this.text.length
+    }
+    if (!/^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/.test(token)) this.repairs.add('relaxed-numbers')
+
+    if (/^[+-]?0[xX]/.test(token)) {
+      const sign = token.startsWith('-') ? -1 : 1
+      return sign * parseInt(token.replace(/^[+-]/, ''), 16)
+    }
+    return Number(token)
+  }
+
+  private parseLiteral(): unknown {
+    const start = this.pos
+    while (this.pos < this.text.length && /[\w$]/.test(this.text[this.pos])) this.pos++
+    const word = this.text.slice(start, this.pos)
+
+    if (Object.prototype.hasOwnProperty.call(LITERALS, word)) {
+      if (!JSON_LITERALS.includes(word)) this.repairs.add('literals')
+      return LITERALS[word]
+    }
+
+    this.pos = start
+    return this.fail(`Unexpected word "${word}"`)
+  }
+}
+
+/**
+ * Read one lenient JSON value starting at `start` (leading whitespace and
+ * comments are skipped). Returns the value, the offset just past it and the
+ * repairs that were needed; anything after the value is left alone.
+ */
+export function readLenientJson(
+  text: string,
+  start = 0,
+  options: LenientJsonOptions = {}
+): { value: unknown; end: number; repairs: LenientRepair[] } {
+  const parser = new Parser(text, options.allowPartial ?? false, start)
+  const value = parser.parseValue()
+  if (value === INCOMPLETE) throw new LenientJsonError('Unexpected end of input', text.length)
+  return { value, end: parser.position, repairs: Array.from(parser.repairs) }
+}
+
+/**
+ * Parse a whole document as lenient JSON.
+ * Throws LenientJsonError if anything other than whitespace or comments
+ * follows the value.
+ */
+export function parseLenientJson(text: string, options: LenientJsonOptions = {}): unknown {
+  const parser = new Parser(text, options.allowPartial ?? false, 0)
+  const value = parser.parseValue()
+  if (value === INCOMPLETE) throw new LenientJsonError('Unexpected end of input', text.length)
+
+  parser.skipTrivia()
+  if (parser.position < text.length) {
+    throw new LenientJsonError('Unexpected content after JSON value', parser.position)
+  }
+  return value
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createOutbox, type Connectivity, type OutboxDelivery, type OutboxEntry } from './outbox'
+
+function fakeConnectivity(online: boolean) {
+  const listeners = new Set<() => void>()
+  const connectivity: Connectivity & { online: boolean; reconnect(): void } = {
+    online,
+    isOnline: () => connectivity.online,
+    onOnline(listener) {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+    reconnect() {
+      connectivity.online = true
+      listeners.forEach(listener => listener())
+    },
+  }
+  return connectivity
+}
+
+/**
+ * A deliver() that records what it sent and answers from `results`, then 'sent'
+ */
+function recorder(...results: OutboxDelivery[]) {
+  const sent: string[] = []
+  const deliver = vi.fn(async (entry: OutboxEntry<string>) => {
+    sent.push(entry.payload)
+    return results.shift() ?? 'sent'
+  })
+  return { sent, deliver }
+}
+
+describe('createOutbox', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('delivers right away when online', async () => {
+    const { sent, deliver } = recorder()
+    const outbox = createOutbox({ deliver, connectivity: fakeConnectivity(true) })
+
+    expect(await outbox.send('1', 'Hello?')).toBe('sent')
+    expect(sent).toEqual(['Hello?'])
+    expect(outbox.entries()).toEqual([])
+  })
+
+  it('keeps messages while offline and sends them in order when the connection is back', async () => {
+    const { sent, deliver } = recorder()
+    const connectivity = fakeConnectivity(false)
+    const onChange = vi.fn()
+    const outbox = createOutbox({ deliver, connectivity, onChange })
+
+    expect(await outbox.send('1', 'First')).toBe('queued')
+    expect(await outbox.send('2', 'Second')).toBe('queued')
+    expect(deliver).not.toHaveBeenCalled()
+    expect(outbox.entries().map(entry => entry.id)).toEqual(['1', '2'])
+
+    connectivity.reconnect()
+    await outbox.flush()
+
+    expect(sent).toEqual(['First', 'Second'])
+    expect(outbox.entries()).toEqual([])
+    expect(onChange).toHaveBeenLastCalledWith([])
+  })
+
+  it('queues a message that found no network and retries it', async () => {
+    vi.useFakeTimers()
+    const { sent, deliver } = recorder('offline')
+    const outbox = createOutbox({ deliver, connectivity: fakeConnectivity(true), retryDelayMs: 1000 })
+
+    expect(await outbox.send('1', 'Hello?')).toBe('queued')
+    expect(outbox.has('1')).toBe(true)
+
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(sent).toEqual(['Hello?', 'Hello?'])
+    expect(outbox.has('1')).toBe(false)
+  })
+
+  it('stops at the first message that still cannot be sent', async () => {
+    const { sent, deliver } = recorder('offline')
+    const connectivity = fakeConnectivity(false)
+    const outbox = createOutbox({ deliver, connectivity })
+    await outbox.send('1', 'First')
+    await outbox.send('2', 'Second')
+
+    connectivity.reconnect()
+    await outbox.flush()
+
+    expect(sent).toEqual(['First'])
+    expect(outbox.entries().map(entry => entry.id)).toEqual(['1', '2'])
+    outbox.dispose()
+  })
+
+  it('sends new messages after the ones already waiting', async () => {
+    const { sent, deliver } = recorder()
+    const connectivity = fakeConnectivity(false)
+    const outbox = createOutbox({ deliver, connectivity })
+    await outbox.send('1', 'First')
+
+    connectivity.online = true
+    expect(await outbox.send('2', 'Second')).toBe('queued')
+    await outbox.flush()
+
+    expect(sent).toEqual(['First', 'Second'])
+  })
+
+  it('resends a message that found no network before the ones sent after it', async () => {
+    const calls: { payload: string; finish(result: OutboxDelivery): void }[] = []
+    const deliver = vi.fn(
+      (entry: OutboxEntry<string>) =>
+        new Promise<OutboxDelivery>(resolve => calls.push({ payload: entry.payload, finish: resolve }))
+    )
+    const outbox = createOutbox({ deliver, connectivity: fakeConnectivity(true), retryDelayMs: 60_000 })
+
+    const first = outbox.send('1', 'First')
+    expect(await outbox.send('2', 'Second')).toBe('queued')
+    // Second waits while First is being delivered
+    expect(calls.map(call => call.payload)).toEqual(['First'])
+
+    calls[0].finish('offline')
+    expect(await first).toBe('queued')
+    await vi.waitFor(() => expect(calls).toHaveLength(2))
+    calls[1].finish('sent')
+    await vi.waitFor(() => expect(calls).toHaveLength(3))
+    calls[2].finish('sent')
+    await outbox.flush()
+
+    expect(calls.map(call => call.payload)).toEqual(['First', 'First', 'Second'])
+    expect(outbox.entries()).toEqual([])
+    outbox.dispose()
+  })
+
+  it('never sends the same message twice', async () => {
+    let finish!: (result: OutboxDelivery) => void
+    const deliver = vi.fn(() => new Promise<OutboxDelivery>(resolve => (finish = resolve)))
+    const outbox = createOutbox({ deliver, connectivity: fakeConnectivity(true) })
+
+    const first = outbox.send('1', 'Hello?')
+    expect(await outbox.send('1', 'Hello?')).toBe('duplicate')
+    finish('sent')
+    expect(await first).toBe('sent')
+    expect(await outbox.send('1', 'Hello?')).toBe('duplicate')
+    expect(deliver).toHaveBeenCalledTimes(1)
+  })
+
+  it('lets a failed message be sent again', async () => {
+    const { sent, deliver } = recorder('failed')
+    const outbox = createOutbox({ deliver, connectivity: fakeConnectivity(true) })
+
+    expect(await outbox.send('1', 'Hello?')).toBe('failed')
+    expect(await outbox.send('1', 'Hello?')).toBe('sent')
+    expect(sent).toEqual(['Hello?', 'Hello?'])
+  })
+
+  it('drops removed messages and stops listening once disposed', async () => {
+    const { deliver } = recorder()
+    const connectivity = fakeConnectivity(false)
+    const outbox = createOutbox({ deliver, connectivity })
+    await outbox.send('1', 'First')
+    await outbox.send('2', 'Second')
+
+    expect(outbox.remove('1')).toBe(true)
+    expect(outbox.remove('1')).toBe(false)
+    outbox.dispose()
+    connectivity.reconnect()
+
+    expect(deliver).not.toHaveBeenCalled()
+    expect(outbox.entries().map(entry => entry.id)).toEqual(['2'])
+  })
+})
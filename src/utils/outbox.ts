@@ -0,0 +1,221 @@
+/**
+ * Outbound message queue
+ *
+ * Questions asked while the connection is down would otherwise fail and be
+ * lost. An outbox sends each message through `deliver` when it can, and keeps
+ * the ones it can't: messages sent while the browser reports being offline,
+ * and messages whose delivery found no network, wait in the order they were
+ * sent and go out one at a time, oldest first, when the connection comes
+ * back (the `online` event, or a periodic retry while the browser believes it
+ * is online but requests still fail). Messages sent while another is being
+ * delivered wait for it too, so one that finds no network is still resent
+ * before the ones sent after it.
+ *
+ * Each message is sent under its id at most once: an id that is waiting,
+ * being delivered or already delivered is turned away as a duplicate, so a
+ * double click, a retry or a reconnect never asks the same question twice.
+ *
+ * The queue lives in memory for the life of the page.
+ *
+ * @example
+ * ```ts
+ * const outbox = createOutbox<string>({
+ *   deliver: async ({ payload }) => {
+ *     const result = await client.support.ask(payload)
+ *     if (result.ok) return 'sent'
+ *     return result.error.code === 'NETWORK_ERROR' ? 'offline' : 'failed'
+ *   },
+ *   onChange: entries => setWaiting(entries.map(entry => entry.id)),
+ * })
+ *
+ * await outbox.send(message.id, message.text) // 'sent' | 'failed' | 'queued' | 'duplicate'
+ * ```
+ */
+
+/**
+ * What became of one delivery attempt
+ * - sent: delivered
+ * - failed: delivered but unsuccessful (the caller reports it); not retried
+ * - offline: no connection; the message waits for one
+ */
+export type OutboxDelivery = 'sent' | 'failed' | 'offline'
+
+export type OutboxSendResult = Exclude<OutboxDelivery, 'offline'> | 'queued' | 'duplicate'
+
+export interface OutboxEntry<T> {
+  id: string
+  payload: T
+  queuedAt: Date
+}
+
+/**
+ * Where the outbox learns about the connection
+ */
+export interface Connectivity {
+  isOnline(): boolean
+  /** Call `listener` when the connection comes back; returns an unsubscribe */
+  onOnline(listener: () => void): () => void
+}
+
+export interface OutboxOptions<T> {
+  /** Send one message; resolve 'offline' to keep it queued */
+  deliver(entry: OutboxEntry<T>): Promise<OutboxDelivery>
+  /** Default: navigator.onLine and the window `online` event */
+  connectivity?: Connectivity
+  /** How long to wait before trying again while requests fail but the browser reports online (default 5000) */
+  retryDelayMs?: number
+  /** The waiting messages changed */
+  onChange?(entries: OutboxEntry<T>[]): void
+}
+
+export interface Outbox<T> {
+  /** Deliver now, or queue behind the messages already waiting or being delivered */
+  send(id: string, payload: T): Promise<OutboxSendResult>
+  /** Deliver the waiting messages in order, if online */
+  flush(): Promise<void>
+  /** Messages waiting for a connection, oldest first */
+  entries(): OutboxEntry<T>[]
+  /** The id is waiting or being delivered */
+  has(id: string): boolean
+  /** Stop waiting to send a message; true if it was waiting */
+  remove(id: string): boolean
+  /** Stop listening for the connection */
+  dispose(): void
+}
+
+const DEFAULT_RETRY_DELAY_MS = 5000
+
+/**
+ * navigator.onLine and the window `online` event; always online outside the
+ * browser
+ */
+export function browserConnectivity(): Connectivity {
+  return {
+    isOnline: () => typeof navigator === 'undefined' || navigator.onLine !== false,
+    onOnline(listener) {
+      if (typeof window === 'undefined') return () => {}
+      window.addEventListener('online', listener)
+      return () => window.removeEventListener('online', listener)
+    },
+  }
+}
+
+export function createOutbox<T>(options: OutboxOptions<T>): Outbox<T> {
+  const connectivity = options.connectivity || browserConnectivity()
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS
+  // Waiting messages, ordered by `order`
+  let queue: (OutboxEntry<T> & { order: number })[] = []
+  const inFlight = new Set<string>()
+  const delivered = new Set<string>()
+  let sequence = 0
+  let flushing: Promise<void> | null = null
+  // A message send() is delivering directly; settles after one that found no network is queued
+  let sending: Promise<OutboxDelivery> | null = null
+  let retryTimer: ReturnType<typeof setTimeout> | undefined
+  let disposed = false
+
+  const changed = () => options.onChange?.(queue.map(({ order: _order, ...entry }) => entry))
+
+  const enqueue = (entry: OutboxEntry<T> & { order: number }) => {
+    queue = [...queue, entry].sort((a, b) => a.order - b.order)
+    changed()
+  }
+
+  const scheduleRetry = () => {
+    if (disposed || retryTimer || !connectivity.isOnline()) return
+    retryTimer = setTimeout(() => {
+      retryTimer = undefined
+      void outbox.flush()
+    }, retryDelayMs)
+  }
+
+  const attempt = async (entry: OutboxEntry<T>): Promise<OutboxDelivery> => {
+    inFlight.add(entry.id)
+    try {
+      const result = await options.deliver(entry)
+      if (result === 'sent') delivered.add(entry.id)
+      return result
+    } catch (error) {
+      console.error('Outbox delivery failed:', error)
+      return 'failed'
+    } finally {
+      inFlight.delete(entry.id)
+    }
+  }
+
+  const drain = async () => {
+    while (!disposed && queue.length > 0 && connectivity.isOnline()) {
+      // It goes back to the front of the queue if it found no network
+      if (sending) {
+        await sending
+        continue
+      }
+      const [next] = queue
+      const result = await attempt(next)
+      // remove() may have taken it off the queue while it was being delivered
+      if (result === 'offline' && queue.includes(next)) {
+        scheduleRetry()
+        return
+      }
+      queue = queue.filter(entry => entry !== next)
+      changed()
+    }
+  }
+
+  const stopListening = connectivity.onOnline(() => void outbox.flush())
+
+  const outbox: Outbox<T> = {
+    async send(id, payload) {
+      if (disposed || outbox.has(id) || delivered.has(id)) return 'duplicate'
+
+      const entry = { id, payload, queuedAt: new Date(), order: sequence++ }
+      // Later messages don't overtake the ones already waiting or being delivered
+      if (!connectivity.isOnline() || queue.length > 0 || sending) {
+        enqueue(entry)
+        if (connectivity.isOnline()) void outbox.flush()
+        return 'queued'
+      }
+
+      const delivery = attempt(entry).then(result => {
+        sending = null
+        if (result === 'offline') {
+          enqueue(entry)
+          scheduleRetry()
+        }
+        return result
+      })
+      sending = delivery
+      const result = await delivery
+      return result === 'offline' ? 'queued' : result
+    },
+
+    flush() {
+      if (!flushing) {
+        flushing = drain().finally(() => {
+          flushing = null
+        })
+      }
+      return flushing
+    },
+
+    entries: () => queue.map(({ order: _order, ...entry }) => entry),
+
+    has: id => inFlight.has(id) || queue.some(entry => entry.id === id),
+
+    remove(id) {
+      const before = queue.length
+      queue = queue.filter(entry => entry.id !== id)
+      if (queue.length === before) return false
+      changed()
+      return true
+    },
+
+    dispose() {
+      disposed = true
+      stopListening()
+      clearTimeout(retryTimer)
+    },
+  }
+
+  return outbox
+}
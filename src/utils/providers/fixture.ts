@@ -0,0 +1,36 @@
+import type { AgentProvider, ProviderRequest } from './types'
+
+export interface FixtureProviderOptions {
+  /** Canned replies by agent_id; agents without one get an echo */
+  fixtures?: Record<string, unknown>
+}
+
+/**
+ * Deterministic local provider for development and CI - no network.
+ * Replies with the agent's fixture, or echoes the message back.
+ */
+export function createFixtureProvider(options: FixtureProviderOptions = {}): AgentProvider {
+  const fixtures = options.fixtures || {}
+
+  const replyFor = (request: ProviderRequest): unknown =>
+    request.agent_id in fixtures ? fixtures[request.agent_id] : `Echo: ${request.message}`
+
+  return {
+    name: 'fixture',
+
+    async complete(request) {
+      return replyFor(request)
+    },
+
+    async stream(request) {
+      const reply = replyFor(request)
+      const text = typeof reply === 'string' ? reply : JSON.stringify(reply)
+      // Word-sized chunks, like a real token stream
+      const chunks = text.match(/\S+\s*|\s+/g) || []
+
+      return (async function* () {
+        for (const chunk of chunks) yield chunk
+      })()
+    },
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Upstream provider selection
+ *
+ * Each agent is served by one provider, chosen through environment config:
+ *
+ * - AGENT_PROVIDER   Default provider for all agents: 'lyzr' (default), 'openai' or 'fixture'
+ * - AGENT_PROVIDERS  Per-agent overrides as JSON, keyed by agent_id:
+ *                    {"693050ee2bb6b2ddb363e3cb": "fixture",
+ *                     "693053006faee4d469e8a424": {"provider": "openai", "model": "gpt-4o-mini"}}
+ * - AGENT_FIXTURES   Canned replies for the fixture provider, keyed by agent_id (JSON)
+ *
+ * Provider credentials: LYZR_API_KEY, OPENAI_API_KEY, OPENAI_BASE_URL, OPENAI_MODEL
+ *
+ * Every provider is wrapped with timeouts, retries and a circuit breaker
+ * (see ./resilient). Per-agent `timeoutMs` / `retries` can be set in
+ * AGENT_PROVIDERS; defaults come from UPSTREAM_TIMEOUT_MS, UPSTREAM_RETRIES...
+ *
+ * @example
+ * ```ts
+ * const provider = getProviderForAgent(agent_id)
+ * const reply = await provider.complete({ message, agent_id, user_id, session_id })
+ * ```
+ */
+import { createFixtureProvider } from './fixture'
+import { createLyzrProvider } from './lyzr'
+import { createOpenAIProvider } from './openai'
+import { getResilienceSettings, withResilience } from './resilient'
+import { type AgentProvider, ProviderConfigError } from './types'
+
+export * from './types'
+export { createFixtureProvider, createLyzrProvider, createOpenAIProvider }
+export { getResilienceSettings, withResilience, type ResilienceSettings } from './resilient'
+
+export const PROVIDER_NAMES = ['lyzr', 'openai', 'fixture'] as const
+export type ProviderName = (typeof PROVIDER_NAMES)[number]
+
+export interface AgentProviderConfig {
+  provider: ProviderName
+  /** Model name (openai) */
+  model?: string
+  /** API base URL override (openai) */
+  baseUrl?: string
+  /** System prompt sent ahead of the user message (openai) */
+  systemPrompt?: string
+  /** Per-attempt upstream deadline for this agent */
+  timeoutMs?: number
+  /** Retries for transient upstream failures for this agent */
+  retries?: number
+}
+
+type Env = Record<string, string | undefined>
+
+function parseJsonEnv(env: Env, name: string): Record<string, any> {
+  const value = env[name]
+  if (!value) return {}
+  try {
+    const parsed = JSON.parse(value)
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed
+  } catch {
+    // Reported below
+  }
+  throw new ProviderConfigError(`${name} must be a JSON object`)
+}
+
+function toProviderName(value: unknown): ProviderName {
+  if (typeof value === 'string' && (PROVIDER_NAMES as readonly string[]).includes(value)) {
+    return value as ProviderName
+  }
+  throw new ProviderConfigError(`Unknown provider "${value}" (expected one of: ${PROVIDER_NAMES.join(', ')})`)
+}
+
+/**
+ * Resolve which provider (and provider settings) serve an agent
+ * @param base - Settings from the agent registry; AGENT_PROVIDERS overrides them
+ */
+export function getAgentProviderConfig(
+  agent_id: string,
+  env: Env = process.env,
+  base: Partial<AgentProviderConfig> = {}
+): AgentProviderConfig {
+  const override = parseJsonEnv(env, 'AGENT_PROVIDERS')[agent_id]
+
+  if (typeof override === 'string') {
+    return { provider: toProviderName(override) }
+  }
+  if (override && typeof override === 'object') {
+    return { ...base, ...override, provider: toProviderName(override.provider ?? base.provider) }
+  }
+  return { ...base, provider: toProviderName(base.provider || env.AGENT_PROVIDER || 'lyzr') }
+}
+
+/**
+ * Create a provider from its config, filling credentials from the environment
+ */
+export function createProvider(config: AgentProviderConfig, env: Env = process.env): AgentProvider {
+  switch (config.provider) {
+    case 'lyzr':
+      return createLyzrProvider({ apiKey: env.LYZR_API_KEY })
+    case 'openai':
+      return createOpenAIProvider({
+        apiKey: env.OPENAI_API_KEY,
+        baseUrl: config.baseUrl || env.OPENAI_BASE_URL,
+        model: config.model || env.OPENAI_MODEL,
+        systemPrompt: config.systemPrompt,
+      })
+    case 'fixture':
+      return createFixtureProvider({ fixtures: parseJsonEnv(env, 'AGENT_FIXTURES') })
+  }
+}
+
+/**
+ * Get the provider configured for an agent, with timeouts, retries and
+ * circuit breaking applied
+ * @throws ProviderConfigError when the config or credentials are invalid
+ */
+export function getProviderForAgent(
+  agent_id: string,
+  env: Env = process.env,
+  base: Partial<AgentProviderConfig> = {}
+): AgentProvider {
+  const config = getAgentProviderConfig(agent_id, env, base)
+  const settings = getResilienceSettings({ timeoutMs: config.timeoutMs, retries: config.retries }, env)
+  return withResilience(createProvider(config, env), settings)
+}
@@ -0,0 +1,91 @@
+import { readSSE } from '@/utils/sse'
+import { type AgentProvider, type ProviderCallOptions, type ProviderRequest, ProviderConfigError, toUpstreamError } from './types'
+
+const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
+const LYZR_STREAM_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/stream/'
+
+export interface LyzrProviderOptions {
+  apiKey?: string
+  apiUrl?: string
+  streamUrl?: string
+}
+
+/**
+ * Yield text chunks from a Lyzr stream.
+ * Lyzr streams SSE `data:` lines ending with `[DONE]`; any other content
+ * type is treated as raw chunked text.
+ */
+async function* readLyzrStream(response: Response): AsyncGenerator<string> {
+  if (!response.body) return
+
+  const contentType = response.headers.get('content-type') || ''
+  if (contentType.includes('text/event-stream')) {
+    for await (const message of readSSE(response.body)) {
+      if (message.data === '[DONE]') return
+      yield message.data
+    }
+    return
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      const text = decoder.decode(value, { stream: true })
+      if (text) yield text
+    }
+    const rest = decoder.decode()
+    if (rest) yield rest
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Lyzr Agent Studio inference API
+ * Sessions and agent memory are handled by Lyzr, keyed by session_id.
+ */
+export function createLyzrProvider(options: LyzrProviderOptions = {}): AgentProvider {
+  const apiKey = options.apiKey
+  if (!apiKey) {
+    throw new ProviderConfigError('LYZR_API_KEY not configured in .env.local')
+  }
+
+  const post = (url: string, request: ProviderRequest, accept: string, options: ProviderCallOptions = {}) =>
+    fetch(url, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: accept,
+        'x-api-key': apiKey,
+      },
+      body: JSON.stringify({
+        user_id: request.user_id,
+        agent_id: request.agent_id,
+        session_id: request.session_id,
+        message: request.message,
+      }),
+    })
+
+  return {
+    name: 'lyzr',
+
+    async complete(request, callOptions) {
+      const response = await post(options.apiUrl || LYZR_API_URL, request, 'application/json', callOptions)
+      if (!response.ok) throw await toUpstreamError(response)
+
+      const data = await response.json()
+      return data.response
+    },
+
+    async stream(request, callOptions) {
+      const response = await post(options.streamUrl || LYZR_STREAM_URL, request, 'text/event-stream', callOptions)
+      if (!response.ok) throw await toUpstreamError(response)
+
+      return readLyzrStream(response)
+    },
+  }
+}
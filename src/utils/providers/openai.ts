@@ -0,0 +1,82 @@
+import { readSSE } from '@/utils/sse'
+import { type AgentProvider, type ProviderCallOptions, type ProviderRequest, ProviderConfigError, toUpstreamError } from './types'
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1'
+const DEFAULT_MODEL = 'gpt-4o-mini'
+
+export interface OpenAIProviderOptions {
+  apiKey?: string
+  baseUrl?: string
+  model?: string
+  /** Optional system prompt sent ahead of the user message */
+  systemPrompt?: string
+}
+
+/**
+ * OpenAI-compatible chat completions API (OpenAI, Azure-style gateways,
+ * vLLM, Ollama, LM Studio...). Chat completions are stateless: each
+ * message is sent on its own, without earlier turns.
+ */
+export function createOpenAIProvider(options: OpenAIProviderOptions = {}): AgentProvider {
+  const apiKey = options.apiKey
+  if (!apiKey) {
+    throw new ProviderConfigError('OPENAI_API_KEY not configured in .env.local')
+  }
+
+  const baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '')
+  const model = options.model || DEFAULT_MODEL
+
+  const post = (request: ProviderRequest, stream: boolean, callOptions: ProviderCallOptions = {}) =>
+    fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal: callOptions.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          ...(options.systemPrompt ? [{ role: 'system', content: options.systemPrompt }] : []),
+          { role: 'user', content: request.message },
+        ],
+        user: request.user_id,
+        stream,
+      }),
+    })
+
+  return {
+    name: 'openai',
+
+    async complete(request, callOptions) {
+      const response = await post(request, false, callOptions)
+      if (!response.ok) throw await toUpstreamError(response)
+
+      const data = await response.json()
+      return data.choices?.[0]?.message?.content ?? ''
+    },
+
+    async stream(request, callOptions) {
+      const response = await post(request, true, callOptions)
+      if (!response.ok) throw await toUpstreamError(response)
+
+      const body = response.body
+      return (async function* () {
+        if (!body) return
+        for await (const message of readSSE(body)) {
+          if (message.data === '[DONE]') return
+          let chunk: any
+          try {
+            chunk = JSON.parse(message.data)
+          } catch {
+            // Keep-alives and broken chunks carry no text; the rest of the reply still does
+            console.warn('Skipping unreadable chunk in the OpenAI stream:', message.data.slice(0, 200))
+            continue
+          }
+          const delta = chunk?.choices?.[0]?.delta?.content
+          if (typeof delta === 'string' && delta) yield delta
+        }
+      })()
+    },
+  }
+}
@@ -0,0 +1,128 @@
+// @vitest-environment node
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { createFixtureProvider } from './fixture'
+import { createLyzrProvider } from './lyzr'
+import { createOpenAIProvider } from './openai'
+import { ProviderConfigError, UpstreamError } from './types'
+
+const REQUEST = { message: 'Hi', agent_id: 'support', user_id: 'user-1', session_id: 'session-1' }
+
+function mockFetch(response: Response) {
+  const fetch = vi.fn(async (_url: string, _init: RequestInit) => response)
+  vi.stubGlobal('fetch', fetch)
+  return fetch
+}
+
+function sseResponse(events: string[], contentType = 'text/event-stream') {
+  return new Response(events.map(data => `data: ${data}\n\n`).join(''), { headers: { 'Content-Type': contentType } })
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = []
+  for await (const chunk of stream) chunks.push(chunk)
+  return chunks
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('createLyzrProvider', () => {
+  it('needs an API key', () => {
+    expect(() => createLyzrProvider()).toThrow(ProviderConfigError)
+  })
+
+  it('sends the request fields and returns the reply', async () => {
+    const fetch = mockFetch(Response.json({ response: { answer: 'Hello' } }))
+    const provider = createLyzrProvider({ apiKey: 'key', apiUrl: 'https://lyzr.test/chat' })
+
+    expect(await provider.complete(REQUEST)).toEqual({ answer: 'Hello' })
+    const [url, init] = fetch.mock.calls[0]
+    expect(url).toBe('https://lyzr.test/chat')
+    expect(init.headers).toMatchObject({ 'x-api-key': 'key', Accept: 'application/json' })
+    expect(JSON.parse(init.body as string)).toEqual(REQUEST)
+  })
+
+  it('streams SSE data up to [DONE], and raw text otherwise', async () => {
+    mockFetch(sseResponse(['Hel', 'lo', '[DONE]', 'ignored']))
+    const provider = createLyzrProvider({ apiKey: 'key' })
+    expect(await collect(await provider.stream(REQUEST))).toEqual(['Hel', 'lo'])
+
+    mockFetch(new Response('Hello there', { headers: { 'Content-Type': 'text/plain' } }))
+    expect((await collect(await provider.stream(REQUEST))).join('')).toBe('Hello there')
+  })
+
+  it('turns error statuses into UpstreamError', async () => {
+    mockFetch(new Response('Service unavailable', { status: 503 }))
+    const provider = createLyzrProvider({ apiKey: 'key' })
+
+    await expect(provider.stream(REQUEST)).rejects.toMatchObject({ status: 503, details: 'Service unavailable' })
+    await expect(provider.complete(REQUEST)).rejects.toBeInstanceOf(UpstreamError)
+  })
+})
+
+describe('createOpenAIProvider', () => {
+  const delta = (content: string) => JSON.stringify({ choices: [{ delta: { content } }] })
+
+  it('needs an API key', () => {
+    expect(() => createOpenAIProvider()).toThrow(ProviderConfigError)
+  })
+
+  it('maps the request onto a chat completion', async () => {
+    const fetch = mockFetch(Response.json({ choices: [{ message: { content: 'Hello' } }] }))
+    const provider = createOpenAIProvider({
+      apiKey: 'key',
+      baseUrl: 'https://llm.test/v1/',
+      model: 'small',
+      systemPrompt: 'Be brief',
+    })
+
+    expect(await provider.complete(REQUEST)).toBe('Hello')
+    const [url, init] = fetch.mock.calls[0]
+    expect(url).toBe('https://llm.test/v1/chat/completions')
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer key' })
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'small',
+      messages: [
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: 'Hi' },
+      ],
+      user: 'user-1',
+      stream: false,
+    })
+  })
+
+  it('streams content deltas, skipping chunks it cannot read', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    mockFetch(sseResponse([delta('Hel'), 'keep-alive', JSON.stringify({ choices: [] }), delta('lo'), '[DONE]']))
+    const provider = createOpenAIProvider({ apiKey: 'key' })
+
+    expect(await collect(await provider.stream(REQUEST))).toEqual(['Hel', 'lo'])
+    expect(warn).toHaveBeenCalledTimes(1)
+  })
+
+  it('turns error statuses into UpstreamError', async () => {
+    mockFetch(new Response('{"error": "invalid_api_key"}', { status: 401 }))
+    const provider = createOpenAIProvider({ apiKey: 'key' })
+
+    await expect(provider.complete(REQUEST)).rejects.toMatchObject({ status: 401, details: '{"error": "invalid_api_key"}' })
+  })
+})
+
+describe('createFixtureProvider', () => {
+  it('replies with the fixture for the agent, or echoes the message', async () => {
+    const provider = createFixtureProvider({ fixtures: { support: { response: 'Canned' } } })
+
+    expect(await provider.complete(REQUEST)).toEqual({ response: 'Canned' })
+    expect(await provider.complete({ ...REQUEST, agent_id: 'sales' })).toBe('Echo: Hi')
+  })
+
+  it('streams the reply in word-sized chunks', async () => {
+    const provider = createFixtureProvider({ fixtures: { support: { response: 'Two words' } } })
+    const chunks = await collect(await provider.stream(REQUEST))
+
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(JSON.parse(chunks.join(''))).toEqual({ response: 'Two words' })
+  })
+})
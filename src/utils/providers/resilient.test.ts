@@ -0,0 +1,150 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { CircuitOpenError, TimeoutError, resetCircuitBreakers } from '@/utils/resilience'
+import { isNetworkError, withResilience, type ResilienceSettings } from './resilient'
+import { UpstreamError, type AgentProvider } from './types'
+
+const SETTINGS: ResilienceSettings = {
+  timeoutMs: 1000,
+  retries: 2,
+  retryBaseDelayMs: 0,
+  failureThreshold: 5,
+  resetTimeoutMs: 1000,
+}
+
+const REQUEST = { message: 'Hi', agent_id: 'support', user_id: 'u', session_id: 's' }
+
+function fakeProvider(overrides: Partial<AgentProvider> = {}): AgentProvider {
+  return {
+    name: 'fake',
+    complete: vi.fn(async () => 'ok'),
+    stream: vi.fn(async () => (async function* () {})()),
+    ...overrides,
+  }
+}
+
+describe('withResilience', () => {
+  beforeEach(() => {
+    resetCircuitBreakers()
+  })
+
+  it("stops following the caller's signal once an attempt is over", async () => {
+    const signals: AbortSignal[] = []
+    const failures = [new UpstreamError(503, ''), new UpstreamError(503, '')]
+    const provider = fakeProvider({
+      complete: vi.fn(async (_request, options) => {
+        signals.push(options!.signal!)
+        const failure = failures.shift()
+        if (failure) throw failure
+        return 'ok'
+      }),
+    })
+    const caller = new AbortController()
+
+    expect(await withResilience(provider, SETTINGS).complete(REQUEST, { signal: caller.signal })).toBe('ok')
+    caller.abort()
+
+    expect(signals).toHaveLength(3)
+    expect(signals.some(signal => signal.aborted)).toBe(false)
+  })
+
+  it('makes no attempt for a caller that already went away', async () => {
+    const provider = fakeProvider()
+    const caller = new AbortController()
+    caller.abort()
+
+    await expect(withResilience(provider, SETTINGS).complete(REQUEST, { signal: caller.signal })).rejects.toThrow()
+    expect(provider.complete).not.toHaveBeenCalled()
+  })
+
+  it('aborts a stream that is being read when the caller goes away', async () => {
+    let upstream!: AbortSignal
+    const provider = fakeProvider({
+      stream: vi.fn(async (_request, options) => {
+        upstream = options!.signal!
+        return (async function* () {
+          yield 'Hello'
+          await new Promise(resolve => upstream.addEventListener('abort', resolve))
+        })()
+      }),
+    })
+    const caller = new AbortController()
+
+    const chunks = await withResilience(provider, SETTINGS).stream(REQUEST, { signal: caller.signal })
+    const iterator = chunks[Symbol.asyncIterator]()
+    expect((await iterator.next()).value).toBe('Hello')
+    const next = iterator.next()
+    caller.abort()
+    await next
+
+    expect(upstream.aborted).toBe(true)
+  })
+
+  it('opens the circuit for streams that keep failing partway', async () => {
+    const provider = fakeProvider({
+      stream: vi.fn(async () =>
+        (async function* () {
+          yield 'Hello'
+          throw new UpstreamError(502, 'connection lost')
+        })()
+      ),
+    })
+    const resilient = withResilience(provider, { ...SETTINGS, failureThreshold: 2 })
+
+    for (let i = 0; i < 2; i++) {
+      const chunks = await resilient.stream(REQUEST)
+      await expect(async () => {
+        for await (const _chunk of chunks);
+      }).rejects.toThrow(UpstreamError)
+    }
+
+    await expect(resilient.stream(REQUEST)).rejects.toThrow(CircuitOpenError)
+    expect(provider.stream).toHaveBeenCalledTimes(2)
+  })
+
+  it('counts a stream that goes quiet as a failure', async () => {
+    const provider = fakeProvider({
+      stream: vi.fn(async (_request, options) =>
+        (async function* () {
+          yield 'Hello'
+          await new Promise(resolve => options!.signal!.addEventListener('abort', resolve))
+        })()
+      ),
+    })
+    const resilient = withResilience(provider, { ...SETTINGS, timeoutMs: 10, failureThreshold: 1 })
+
+    const chunks = await resilient.stream(REQUEST)
+    await expect(async () => {
+      for await (const _chunk of chunks);
+    }).rejects.toThrow(TimeoutError)
+
+    await expect(resilient.stream(REQUEST)).rejects.toThrow(CircuitOpenError)
+  })
+
+  it('shares a breaker only between agents with the same settings', async () => {
+    const provider = fakeProvider({
+      complete: vi.fn(async () => {
+        throw new UpstreamError(500, '')
+      }),
+    })
+    const strict = withResilience(provider, { ...SETTINGS, retries: 0, failureThreshold: 1 })
+    const lenient = withResilience(provider, { ...SETTINGS, retries: 0, failureThreshold: 3 })
+    const alsoStrict = withResilience(provider, { ...SETTINGS, retries: 0, failureThreshold: 1 })
+
+    await expect(strict.complete(REQUEST)).rejects.toThrow(UpstreamError)
+
+    await expect(alsoStrict.complete(REQUEST)).rejects.toThrow(CircuitOpenError)
+    await expect(lenient.complete(REQUEST)).rejects.toThrow(UpstreamError)
+  })
+})
+
+describe('isNetworkError', () => {
+  it('reads the socket error code, also from the cause fetch wraps it in', () => {
+    const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })
+
+    expect(isNetworkError(reset)).toBe(true)
+    expect(isNetworkError(new TypeError('terminated', { cause: reset }))).toBe(true)
+    expect(isNetworkError(Object.assign(new Error('bad input'), { code: 42 }))).toBe(false)
+    expect(isNetworkError({ code: 'ECONNRESET' })).toBe(false)
+  })
+})
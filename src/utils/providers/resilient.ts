@@ -0,0 +1,217 @@
+import {
+  TimeoutError,
+  getCircuitBreaker,
+  retry,
+  withTimeout,
+} from '@/utils/resilience'
+import { type AgentProvider, type ProviderCallOptions, UpstreamError } from './types'
+
+/**
+ * Timeout, retry and circuit breaker settings for one agent's upstream
+ */
+export interface ResilienceSettings {
+  /** Deadline per attempt, and the longest gap allowed between streamed chunks */
+  timeoutMs: number
+  /** Extra attempts for transient failures (502/503/504, connection errors) */
+  retries: number
+  retryBaseDelayMs: number
+  /** Consecutive upstream failures before the provider's circuit opens */
+  failureThreshold: number
+  /** How long an open circuit fails fast before a trial request */
+  resetTimeoutMs: number
+}
+
+const RETRYABLE_STATUSES = new Set([502, 503, 504])
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+])
+
+/**
+ * Node system error code of an error, e.g. 'ECONNRESET'
+ */
+function errorCode(error: unknown): string | undefined {
+  return error instanceof Error && 'code' in error && typeof error.code === 'string' ? error.code : undefined
+}
+
+/**
+ * The request never got an HTTP answer (reset, refused, DNS...)
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false
+  // fetch wraps the socket error as its cause
+  const code = errorCode(error) ?? errorCode(error.cause)
+  if (code && NETWORK_ERROR_CODES.has(code)) return true
+  // undici reports connection failures as TypeError('fetch failed')
+  return error instanceof TypeError && /fetch failed|network/i.test(error.message)
+}
+
+/**
+ * Failures that are safe to retry: the upstream did not process the request
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof UpstreamError) return RETRYABLE_STATUSES.has(error.status)
+  return isNetworkError(error)
+}
+
+/**
+ * Failures that say the upstream is unhealthy (as opposed to a bad request)
+ */
+function isUpstreamFailure(error: unknown): boolean {
+  if (error instanceof UpstreamError) return error.status >= 500
+  return error instanceof TimeoutError || isNetworkError(error)
+}
+
+/**
+ * Resilience settings for an agent: its own overrides, then the environment
+ * (UPSTREAM_TIMEOUT_MS, UPSTREAM_RETRIES, UPSTREAM_RETRY_BASE_MS,
+ * CIRCUIT_FAILURE_THRESHOLD, CIRCUIT_RESET_MS)
+ */
+export function getResilienceSettings(
+  overrides: Partial<ResilienceSettings> = {},
+  env: Record<string, string | undefined> = process.env
+): ResilienceSettings {
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value)
+    return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+  }
+
+  return {
+    timeoutMs: overrides.timeoutMs ?? number(env.UPSTREAM_TIMEOUT_MS, 30_000),
+    retries: overrides.retries ?? number(env.UPSTREAM_RETRIES, 2),
+    retryBaseDelayMs: overrides.retryBaseDelayMs ?? number(env.UPSTREAM_RETRY_BASE_MS, 200),
+    failureThreshold: overrides.failureThreshold ?? number(env.CIRCUIT_FAILURE_THRESHOLD, 5),
+    resetTimeoutMs: overrides.resetTimeoutMs ?? number(env.CIRCUIT_RESET_MS, 30_000),
+  }
+}
+
+/**
+ * Abort `controller` when the caller's signal aborts (at once if it already
+ * has); returns a function that stops listening
+ */
+function linkSignal(signal: AbortSignal | undefined, controller: AbortController): () => void {
+  if (!signal) return () => {}
+  const abort = () => controller.abort()
+  if (signal.aborted) abort()
+  else signal.addEventListener('abort', abort, { once: true })
+  return () => signal.removeEventListener('abort', abort)
+}
+
+/**
+ * Yield chunks, failing with TimeoutError if the upstream goes quiet; the
+ * caller's signal still aborts the upstream while the stream is read
+ */
+async function* withIdleTimeout(
+  chunks: AsyncIterable<string>,
+  ms: number,
+  controller: AbortController,
+  signal: AbortSignal | undefined
+): AsyncGenerator<string> {
+  const unlink = linkSignal(signal, controller)
+  try {
+    const iterator = chunks[Symbol.asyncIterator]()
+    while (true) {
+      const result = await withTimeout(() => iterator.next(), ms, controller)
+      if (result.done) return
+      yield result.value
+    }
+  } finally {
+    unlink()
+  }
+}
+
+/**
+ * Report how a stream ended to the circuit breaker, so idle timeouts and
+ * upstream errors partway through count as failures
+ */
+async function* settleWhenDone(
+  chunks: AsyncIterable<string>,
+  settle: (error?: unknown) => void
+): AsyncGenerator<string> {
+  try {
+    yield* chunks
+  } catch (error) {
+    settle(error)
+    throw error
+  } finally {
+    // Read to the end, or stopped early by the reader
+    settle()
+  }
+}
+
+/**
+ * Wrap a provider with per-attempt timeouts, jittered retries and a circuit
+ * breaker shared by every agent on that provider with the same breaker
+ * settings (agents that set their own get their own). Connection errors that
+ * survive the retries surface as a 502 UpstreamError. A streamed reply holds
+ * its breaker call until the stream ends.
+ */
+export function withResilience(provider: AgentProvider, settings: ResilienceSettings): AgentProvider {
+  const key = `${provider.name}:${settings.failureThreshold}:${settings.resetTimeoutMs}`
+  const breaker = getCircuitBreaker(key, {
+    failureThreshold: settings.failureThreshold,
+    resetTimeoutMs: settings.resetTimeoutMs,
+    isFailure: isUpstreamFailure,
+  })
+
+  // One attempt gets its own AbortController, tied to the caller's signal while it runs
+  const attempt = async <T>(
+    options: ProviderCallOptions | undefined,
+    task: (signal: AbortSignal, controller: AbortController) => Promise<T>
+  ): Promise<T> => {
+    // A caller that went away (e.g. between retries) gets no new attempt
+    options?.signal?.throwIfAborted()
+    const controller = new AbortController()
+    const unlink = linkSignal(options?.signal, controller)
+    try {
+      return await withTimeout(signal => task(signal, controller), settings.timeoutMs, controller)
+    } finally {
+      unlink()
+    }
+  }
+
+  const withRetries = <T>(run: () => Promise<T>): Promise<T> =>
+    retry(run, {
+      retries: settings.retries,
+      baseDelayMs: settings.retryBaseDelayMs,
+      shouldRetry: isRetryableError,
+    })
+
+  const toUpstreamFailure = (error: unknown): unknown =>
+    isNetworkError(error) ? new UpstreamError(502, `Upstream unreachable: ${(error as Error).message}`) : error
+
+  return {
+    name: provider.name,
+
+    async complete(request, options) {
+      try {
+        return await breaker.execute(() =>
+          withRetries(() => attempt(options, signal => provider.complete(request, { signal })))
+        )
+      } catch (error) {
+        throw toUpstreamFailure(error)
+      }
+    },
+
+    async stream(request, options) {
+      const settle = breaker.begin()
+      try {
+        const chunks = await withRetries(() =>
+          attempt(options, async (signal, controller) => {
+            const upstream = await provider.stream(request, { signal })
+            return withIdleTimeout(upstream, settings.timeoutMs, controller, options?.signal)
+          })
+        )
+        return settleWhenDone(chunks, settle)
+      } catch (error) {
+        settle(error)
+        throw toUpstreamFailure(error)
+      }
+    },
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Upstream provider contract
+ *
+ * A provider knows how to reach one kind of LLM backend (Lyzr, an
+ * OpenAI-compatible API, local fixtures). The /api/agent route only talks
+ * to this interface, so agents can move between backends through config.
+ */
+
+export interface ProviderRequest {
+  message: string
+  agent_id: string
+  user_id: string
+  session_id: string
+}
+
+export interface ProviderCallOptions {
+  /** Aborts the upstream request (timeouts, client disconnects) */
+  signal?: AbortSignal
+}
+
+export interface AgentProvider {
+  /** Provider name as used in configuration (e.g. 'lyzr') */
+  name: string
+  /**
+   * Get the complete reply, as the upstream returned it (string or object)
+   * @throws UpstreamError when the upstream answers with an error status
+   */
+  complete(request: ProviderRequest, options?: ProviderCallOptions): Promise<unknown>
+  /**
+   * Start a streamed reply. Resolves once the upstream has accepted the
+   * request, so status errors surface before any text is forwarded.
+   * @throws UpstreamError when the upstream answers with an error status
+   */
+  stream(request: ProviderRequest, options?: ProviderCallOptions): Promise<AsyncIterable<string>>
+}
+
+/**
+ * The upstream answered with a non-2xx status
+ */
+export class UpstreamError extends Error {
+  status: number
+  details: string
+
+  constructor(status: number, details: string) {
+    super(`API returned status ${status}`)
+    this.name = 'UpstreamError'
+    this.status = status
+    this.details = details
+  }
+}
+
+/**
+ * A provider is selected but its settings (API key, base URL) are missing
+ */
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProviderConfigError'
+  }
+}
+
+/**
+ * Build an UpstreamError from a failed fetch response
+ */
+export async function toUpstreamError(response: Response): Promise<UpstreamError> {
+  const details = await response.text().catch(() => '')
+  return new UpstreamError(response.status, details)
+}
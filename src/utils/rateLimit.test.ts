@@ -0,0 +1,137 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import {
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  getClientIp,
+  getRateLimitRules,
+  parseRateLimitRule,
+} from './rateLimit'
+
+function requestWith(headers: Record<string, string>) {
+  return new Request('http://localhost/api/agent', { method: 'POST', headers })
+}
+
+const ONE_PER_SECOND = { capacity: 1, refillPerSecond: 1 }
+
+describe('createMemoryRateLimitStore', () => {
+  it('takes tokens until a bucket is empty, then refills it over time', async () => {
+    const store = createMemoryRateLimitStore()
+    const rule = { capacity: 2, refillPerSecond: 0.5 }
+
+    expect(await store.take([{ key: 'ip:a', rule }], 0)).toEqual({ allowed: true })
+    expect(await store.take([{ key: 'ip:a', rule }], 0)).toEqual({ allowed: true })
+    expect(await store.take([{ key: 'ip:a', rule }], 0)).toEqual({ allowed: false, rejected: 0, retryAfterMs: 2000 })
+    expect(await store.take([{ key: 'ip:a', rule }], 2000)).toEqual({ allowed: true })
+  })
+
+  it('takes nothing when one of the buckets is empty', async () => {
+    const store = createMemoryRateLimitStore()
+    await store.take([{ key: 'user:u', rule: ONE_PER_SECOND }], 0)
+
+    const result = await store.take(
+      [
+        { key: 'ip:a', rule: ONE_PER_SECOND },
+        { key: 'user:u', rule: ONE_PER_SECOND },
+      ],
+      0
+    )
+
+    expect(result).toEqual({ allowed: false, rejected: 1, retryAfterMs: 1000 })
+    // The IP bucket was not charged
+    expect(await store.take([{ key: 'ip:a', rule: ONE_PER_SECOND }], 0)).toEqual({ allowed: true })
+  })
+
+  it('forgets the least recently used buckets once it holds maxKeys', async () => {
+    const store = createMemoryRateLimitStore({ maxKeys: 2 })
+    const take = (key: string) => store.take([{ key, rule: { capacity: 2, refillPerSecond: 1 } }], 0)
+
+    await take('ip:b')
+    await take('ip:b')
+    await take('ip:a')
+    // 'a' was used since 'b', so 'b' makes room for 'c'
+    await take('ip:c')
+
+    // 'a' kept its bucket (one token left); 'b' starts over with a full one
+    expect((await take('ip:a')).allowed).toBe(true)
+    expect((await take('ip:a')).allowed).toBe(false)
+    expect((await take('ip:b')).allowed).toBe(true)
+  })
+})
+
+describe('createRateLimiter', () => {
+  it('reports the scope that ran out and leaves the others untouched', async () => {
+    const limiter = createRateLimiter({
+      rules: { ip: { capacity: 5, refillPerSecond: 0.1 }, user: { capacity: 1, refillPerSecond: 0.1 } },
+      store: createMemoryRateLimitStore(),
+    })
+
+    expect(await limiter.check({ ip: '203.0.113.7', visitor_id: 'v', agent_id: 'support' })).toEqual({ allowed: true })
+    for (let i = 0; i < 10; i++) {
+      expect(await limiter.check({ ip: '203.0.113.7', visitor_id: 'v', agent_id: 'support' })).toEqual({
+        allowed: false,
+        scope: 'user',
+        retryAfterSeconds: 10,
+      })
+    }
+    // Rejected requests didn't use up the IP's quota
+    for (let i = 0; i < 4; i++) {
+      expect((await limiter.check({ ip: '203.0.113.7', visitor_id: `other-${i}`, agent_id: 'support' })).allowed).toBe(true)
+    }
+  })
+
+  it('skips scopes without a rule', async () => {
+    const limiter = createRateLimiter({ rules: { ip: ONE_PER_SECOND }, store: createMemoryRateLimitStore() })
+
+    for (const ip of ['a', 'b', 'c']) expect((await limiter.check({ ip, visitor_id: 'v', agent_id: 'support' })).allowed).toBe(true)
+  })
+
+  it('limits callers without a visitor ID by their IP in the user scope', async () => {
+    const limiter = createRateLimiter({ rules: { user: ONE_PER_SECOND }, store: createMemoryRateLimitStore() })
+
+    expect(await limiter.check({ ip: 'a', agent_id: 'support' })).toEqual({ allowed: true })
+    expect(await limiter.check({ ip: 'a', agent_id: 'support' })).toMatchObject({ allowed: false, scope: 'user' })
+    // Another IP, or a visitor with a cookie, has its own bucket
+    expect((await limiter.check({ ip: 'b', agent_id: 'support' })).allowed).toBe(true)
+    expect((await limiter.check({ ip: 'a', visitor_id: 'v', agent_id: 'support' })).allowed).toBe(true)
+  })
+})
+
+describe('rate limit rules', () => {
+  it('parses "<requests>/<seconds>" and "off"', () => {
+    expect(parseRateLimitRule('30/60')).toEqual({ capacity: 30, refillPerSecond: 0.5 })
+    expect(parseRateLimitRule(' OFF ')).toBeNull()
+    expect(() => parseRateLimitRule('0/60')).toThrow(/Invalid rate limit/)
+    expect(() => parseRateLimitRule('fast')).toThrow(/Invalid rate limit/)
+  })
+
+  it('reads limits from the environment with defaults', () => {
+    const rules = getRateLimitRules({ RATE_LIMIT_IP: '10/10', RATE_LIMIT_AGENT: 'off' })
+
+    expect(rules).toEqual({ ip: { capacity: 10, refillPerSecond: 1 }, user: { capacity: 20, refillPerSecond: 20 / 60 } })
+  })
+})
+
+describe('getClientIp', () => {
+  it('uses the entry the trusted proxy appended, not the ones the client sent', () => {
+    const request = requestWith({ 'X-Forwarded-For': '1.1.1.1, 2.2.2.2, 203.0.113.7' })
+
+    expect(getClientIp(request, {})).toBe('203.0.113.7')
+    expect(getClientIp(request, { TRUSTED_PROXY_HOPS: '2' })).toBe('2.2.2.2')
+    expect(getClientIp(request, { TRUSTED_PROXY_HOPS: '5' })).toBe('1.1.1.1')
+  })
+
+  it('prefers the header the platform sets', () => {
+    const request = requestWith({ 'X-Forwarded-For': '1.1.1.1', 'X-Nf-Client-Connection-Ip': '203.0.113.7' })
+
+    expect(getClientIp(request, { CLIENT_IP_HEADER: 'x-nf-client-connection-ip' })).toBe('203.0.113.7')
+  })
+
+  it('trusts no forwarded address without a proxy', () => {
+    const request = requestWith({ 'X-Forwarded-For': '1.1.1.1', 'X-Real-Ip': '2.2.2.2' })
+
+    expect(getClientIp(request, { TRUSTED_PROXY_HOPS: '0' })).toBe('unknown')
+    expect(getClientIp(requestWith({}), {})).toBe('unknown')
+    expect(() => getClientIp(request, { TRUSTED_PROXY_HOPS: 'many' })).toThrow(/TRUSTED_PROXY_HOPS/)
+  })
+})
@@ -0,0 +1,253 @@
+/**
+ * Token-bucket rate limiting for /api/agent
+ *
+ * Requests are limited per client IP, per visitor and per agent_id. Each
+ * scope has a bucket of `capacity` tokens refilled at `refillPerSecond`;
+ * a request takes one token from every bucket it belongs to - or none, if
+ * any of them is empty, so rejected requests don't use up quota.
+ *
+ * Limits come from the environment as "<requests>/<seconds>" (or "off"):
+ * - RATE_LIMIT_IP     default 30/60
+ * - RATE_LIMIT_USER   default 20/60
+ * - RATE_LIMIT_AGENT  default 300/60
+ *
+ * The client IP comes from what trusted proxies report - see getClientIp().
+ * The visitor is who the server knows the caller to be (the anonymous ID
+ * cookie), never the user_id in the body: a client could send a new one with
+ * every request. Callers without the cookie could drop it just as easily, so
+ * their user bucket is their IP's.
+ *
+ * Buckets live in an in-memory store by default, which keeps at most
+ * `maxKeys` of them (default 10000) and forgets the least recently used ones
+ * first. For several server instances, plug in a shared store (e.g. Redis)
+ * with setRateLimitStore().
+ *
+ * @example
+ * ```ts
+ * const limiter = createRateLimiter({ rules: getRateLimitRules(), store: getRateLimitStore() })
+ * const result = await limiter.check({ ip, visitor_id, agent_id })
+ * if (!result.allowed) return tooManyRequests(result.retryAfterSeconds)
+ * ```
+ */
+
+export type RateLimitScope = 'ip' | 'user' | 'agent'
+
+export interface TokenBucketRule {
+  capacity: number
+  refillPerSecond: number
+}
+
+export type RateLimitRules = Partial<Record<RateLimitScope, TokenBucketRule>>
+
+export interface BucketRequest {
+  key: string
+  rule: TokenBucketRule
+}
+
+export type TakeResult =
+  | { allowed: true }
+  | {
+      allowed: false
+      /** Index of the first bucket without a token */
+      rejected: number
+      /** How long until every bucket has a token */
+      retryAfterMs: number
+    }
+
+/**
+ * Bucket storage. `take` must check all buckets and update them atomically:
+ * one token from each if all have one, otherwise nothing.
+ */
+export interface RateLimitStore {
+  take(buckets: BucketRequest[], now: number): Promise<TakeResult>
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; scope: RateLimitScope; retryAfterSeconds: number }
+
+const DEFAULT_RULES: Record<RateLimitScope, string> = {
+  ip: '30/60',
+  user: '20/60',
+  agent: '300/60',
+}
+
+const MAX_MEMORY_KEYS = 10_000
+
+/**
+ * In-memory bucket store (single server instance), holding at most
+ * `maxKeys` buckets (default 10000)
+ */
+export function createMemoryRateLimitStore(options: { maxKeys?: number } = {}): RateLimitStore {
+  const maxKeys = options.maxKeys ?? MAX_MEMORY_KEYS
+  // In order of last use, least recent first
+  const buckets = new Map<string, { tokens: number; updatedAt: number; rule: TokenBucketRule }>()
+
+  // Make room for a new bucket: drop the ones that have refilled completely
+  // (they behave like new ones), then the least recently used
+  const makeRoom = (now: number) => {
+    if (buckets.size < maxKeys) return
+    buckets.forEach((bucket, key) => {
+      const elapsed = (now - bucket.updatedAt) / 1000
+      if (bucket.tokens + elapsed * bucket.rule.refillPerSecond >= bucket.rule.capacity) {
+        buckets.delete(key)
+      }
+    })
+    for (const key of buckets.keys()) {
+      if (buckets.size < maxKeys) break
+      buckets.delete(key)
+    }
+  }
+
+  // Tokens in a bucket at `now`, after refilling
+  const available = (key: string, rule: TokenBucketRule, now: number) => {
+    const bucket = buckets.get(key)
+    if (!bucket) return rule.capacity
+    const elapsed = Math.max(0, now - bucket.updatedAt) / 1000
+    return Math.min(rule.capacity, bucket.tokens + elapsed * rule.refillPerSecond)
+  }
+
+  return {
+    async take(requests, now) {
+      const tokens = requests.map(({ key, rule }) => available(key, rule, now))
+
+      const rejected = tokens.findIndex(count => count < 1)
+      if (rejected !== -1) {
+        const retryAfterMs = Math.max(
+          ...requests.map(({ rule }, index) =>
+            tokens[index] < 1 ? Math.ceil(((1 - tokens[index]) / rule.refillPerSecond) * 1000) : 0
+          )
+        )
+        return { allowed: false, rejected, retryAfterMs }
+      }
+
+      requests.forEach(({ key, rule }, index) => {
+        // Re-inserted, so it moves to the most recently used end
+        if (!buckets.delete(key)) makeRoom(now)
+        buckets.set(key, { tokens: tokens[index] - 1, updatedAt: now, rule })
+      })
+      return { allowed: true }
+    },
+  }
+}
+
+let sharedStore: RateLimitStore | null = null
+
+/**
+ * Store used by the API routes (in-memory unless replaced)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!sharedStore) sharedStore = createMemoryRateLimitStore()
+  return sharedStore
+}
+
+/**
+ * Replace the store used by the API routes, e.g. with a Redis-backed one
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  sharedStore = store
+}
+
+/**
+ * Parse a "<requests>/<seconds>" limit, or "off"
+ */
+export function parseRateLimitRule(value: string): TokenBucketRule | null {
+  if (value.trim().toLowerCase() === 'off') return null
+
+  const match = value.trim().match(/^(\d+)\s*\/\s*(\d+(?:\.\d+)?)$/)
+  if (!match || Number(match[1]) < 1 || Number(match[2]) <= 0) {
+    throw new Error(`Invalid rate limit "${value}" (expected "<requests>/<seconds>" or "off")`)
+  }
+
+  const capacity = Number(match[1])
+  return { capacity, refillPerSecond: capacity / Number(match[2]) }
+}
+
+/**
+ * Limits for each scope from the environment
+ */
+export function getRateLimitRules(env: Record<string, string | undefined> = process.env): RateLimitRules {
+  const rules: RateLimitRules = {}
+  const settings: Record<RateLimitScope, string | undefined> = {
+    ip: env.RATE_LIMIT_IP,
+    user: env.RATE_LIMIT_USER,
+    agent: env.RATE_LIMIT_AGENT,
+  }
+
+  for (const scope of Object.keys(settings) as RateLimitScope[]) {
+    const rule = parseRateLimitRule(settings[scope] || DEFAULT_RULES[scope])
+    if (rule) rules[scope] = rule
+  }
+  return rules
+}
+
+/**
+ * Client IP as seen by the proxies in front of the app. Clients can put
+ * anything in X-Forwarded-For, so only what trusted proxies set is used:
+ * - CLIENT_IP_HEADER: a header the platform sets itself, e.g.
+ *   x-nf-client-connection-ip on Netlify
+ * - otherwise the X-Forwarded-For entry added by the outermost of
+ *   TRUSTED_PROXY_HOPS proxies (default 1), counted from the right
+ */
+export function getClientIp(request: Request, env: Record<string, string | undefined> = process.env): string {
+  const platformHeader = env.CLIENT_IP_HEADER?.trim()
+  if (platformHeader) {
+    const ip = request.headers.get(platformHeader)?.trim()
+    if (ip) return ip
+  }
+
+  const hops = env.TRUSTED_PROXY_HOPS === undefined ? 1 : Number(env.TRUSTED_PROXY_HOPS)
+  if (!Number.isInteger(hops) || hops < 0) {
+    throw new Error(`Invalid TRUSTED_PROXY_HOPS "${env.TRUSTED_PROXY_HOPS}" (expected a whole number)`)
+  }
+
+  const forwarded = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+  if (hops === 0 || forwarded.length === 0) return 'unknown'
+  // Fewer entries than proxies: the leftmost one was added by a trusted proxy
+  return forwarded[Math.max(0, forwarded.length - hops)]
+}
+
+export function createRateLimiter(options: { rules: RateLimitRules; store: RateLimitStore }) {
+  const { rules, store } = options
+
+  return {
+    /**
+     * Take a token from every bucket the request belongs to, or from none
+     * if one of them is empty
+     */
+    async check(identity: {
+      ip: string
+      /** Server-verified visitor ID; without one, the caller is the IP in the user scope too */
+      visitor_id?: string
+      agent_id: string
+    }): Promise<RateLimitResult> {
+      const keys: Record<RateLimitScope, string | undefined> = {
+        ip: identity.ip,
+        user: identity.visitor_id ? `visitor:${identity.visitor_id}` : `ip:${identity.ip}`,
+        agent: identity.agent_id,
+      }
+
+      const scopes: RateLimitScope[] = []
+      const buckets: BucketRequest[] = []
+      for (const scope of Object.keys(keys) as RateLimitScope[]) {
+        const rule = rules[scope]
+        const key = keys[scope]
+        if (!rule || !key) continue
+        scopes.push(scope)
+        buckets.push({ key: `${scope}:${key}`, rule })
+      }
+      if (buckets.length === 0) return { allowed: true }
+
+      const result = await store.take(buckets, Date.now())
+      if (result.allowed) return { allowed: true }
+      return {
+        allowed: false,
+        scope: scopes[result.rejected],
+        retryAfterSeconds: Math.max(1, Math.ceil(result.retryAfterMs / 1000)),
+      }
+    },
+  }
+}
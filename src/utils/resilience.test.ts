@@ -0,0 +1,183 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  CircuitOpenError,
+  TimeoutError,
+  backoffDelay,
+  createCircuitBreaker,
+  getCircuitBreaker,
+  resetCircuitBreakers,
+  retry,
+  withTimeout,
+} from './resilience'
+
+const fail = () => Promise.reject(new Error('upstream down'))
+
+describe('withTimeout', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('resolves a task that finishes in time, leaving its signal alive', async () => {
+    let signal!: AbortSignal
+
+    const result = await withTimeout(async taskSignal => {
+      signal = taskSignal
+      return 'done'
+    }, 1000)
+
+    expect(result).toBe('done')
+    expect(signal.aborted).toBe(false)
+  })
+
+  it('aborts the task and rejects with TimeoutError at the deadline', async () => {
+    vi.useFakeTimers()
+    let signal!: AbortSignal
+    const task = withTimeout(taskSignal => {
+      signal = taskSignal
+      return new Promise(() => {})
+    }, 1000)
+    const outcome = expect(task).rejects.toThrow(TimeoutError)
+
+    await vi.advanceTimersByTimeAsync(1000)
+
+    await outcome
+    expect(signal.aborted).toBe(true)
+  })
+})
+
+describe('retry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('retries failures it should, with a jittered delay before each attempt', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5)
+    const sleep = vi.fn(async () => {})
+    const task = vi.fn(async (attempt: number) => {
+      if (attempt < 2) throw new Error('busy')
+      return 'ok'
+    })
+
+    expect(await retry(task, { retries: 3, baseDelayMs: 100, shouldRetry: () => true, sleep })).toBe('ok')
+
+    expect(task).toHaveBeenCalledTimes(3)
+    expect(sleep.mock.calls).toEqual([[50], [100]])
+  })
+
+  it('gives up after the retry budget or on a failure it should not retry', async () => {
+    const sleep = async () => {}
+    const task = vi.fn(fail)
+
+    await expect(retry(task, { retries: 2, shouldRetry: () => true, sleep })).rejects.toThrow('upstream down')
+    expect(task).toHaveBeenCalledTimes(3)
+
+    task.mockClear()
+    await expect(retry(task, { retries: 2, shouldRetry: () => false, sleep })).rejects.toThrow('upstream down')
+    expect(task).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps backoff delays between 0 and the capped exponential ceiling', () => {
+    const random = vi.spyOn(Math, 'random')
+
+    random.mockReturnValue(0)
+    expect(backoffDelay(3, 100, 500)).toBe(0)
+    random.mockReturnValue(0.999)
+    expect(backoffDelay(0, 100, 500)).toBe(100)
+    expect(backoffDelay(1, 100, 500)).toBe(200)
+    expect(backoffDelay(3, 100, 500)).toBe(500)
+  })
+})
+
+describe('createCircuitBreaker', () => {
+  function breakerAt(time: { now: number }, options = {}) {
+    return createCircuitBreaker('test', { failureThreshold: 2, resetTimeoutMs: 1000, now: () => time.now, ...options })
+  }
+
+  it('opens after consecutive failures and fails fast until the reset timeout', async () => {
+    const time = { now: 0 }
+    const breaker = breakerAt(time)
+    const task = vi.fn(fail)
+
+    await expect(breaker.execute(task)).rejects.toThrow('upstream down')
+    expect(breaker.state()).toBe('closed')
+    await expect(breaker.execute(task)).rejects.toThrow('upstream down')
+    expect(breaker.state()).toBe('open')
+
+    time.now = 400
+    await expect(breaker.execute(task)).rejects.toMatchObject({ name: 'CircuitOpenError', retryAfterMs: 600 })
+    expect(task).toHaveBeenCalledTimes(2)
+  })
+
+  it('lets one trial through when half-open and closes when it succeeds', async () => {
+    const time = { now: 0 }
+    const breaker = breakerAt(time, { failureThreshold: 1 })
+    await expect(breaker.execute(fail)).rejects.toThrow()
+
+    time.now = 1000
+    expect(breaker.state()).toBe('half-open')
+    let finish!: (value: string) => void
+    const trial = breaker.execute(() => new Promise<string>(resolve => (finish = resolve)))
+
+    // Only the trial goes through while it runs
+    await expect(breaker.execute(async () => 'second')).rejects.toThrow(CircuitOpenError)
+    finish('ok')
+
+    expect(await trial).toBe('ok')
+    expect(breaker.state()).toBe('closed')
+    expect(await breaker.execute(async () => 'next')).toBe('next')
+  })
+
+  it('re-opens when the trial fails', async () => {
+    const time = { now: 0 }
+    const breaker = breakerAt(time)
+    await expect(breaker.execute(fail)).rejects.toThrow()
+    await expect(breaker.execute(fail)).rejects.toThrow()
+
+    time.now = 1000
+    await expect(breaker.execute(fail)).rejects.toThrow('upstream down')
+
+    expect(breaker.state()).toBe('open')
+    time.now = 1999
+    expect(breaker.state()).toBe('open')
+    time.now = 2000
+    expect(breaker.state()).toBe('half-open')
+  })
+
+  it("doesn't count errors that say nothing about the upstream", async () => {
+    const time = { now: 0 }
+    const breaker = breakerAt(time, { isFailure: (error: unknown) => (error as Error).message !== 'bad request' })
+    const badRequest = () => Promise.reject(new Error('bad request'))
+
+    for (let i = 0; i < 3; i++) await expect(breaker.execute(badRequest)).rejects.toThrow()
+
+    expect(breaker.state()).toBe('closed')
+  })
+
+  it('settles a call begun by hand once', () => {
+    const time = { now: 0 }
+    const breaker = breakerAt(time, { failureThreshold: 1 })
+
+    const settle = breaker.begin()
+    settle(new Error('stream cut off'))
+    settle()
+
+    expect(breaker.state()).toBe('open')
+    expect(() => breaker.begin()).toThrow(CircuitOpenError)
+  })
+})
+
+describe('getCircuitBreaker', () => {
+  afterEach(() => {
+    resetCircuitBreakers()
+  })
+
+  it('shares one breaker per key until reset', () => {
+    const breaker = getCircuitBreaker('lyzr')
+
+    expect(getCircuitBreaker('lyzr')).toBe(breaker)
+    expect(getCircuitBreaker('openai')).not.toBe(breaker)
+    resetCircuitBreakers()
+    expect(getCircuitBreaker('lyzr')).not.toBe(breaker)
+  })
+})
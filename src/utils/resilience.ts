@@ -0,0 +1,208 @@
+/**
+ * Resilience helpers for upstream calls: timeouts, retries with jittered
+ * backoff, and circuit breakers.
+ *
+ * @example
+ * ```ts
+ * const breaker = getCircuitBreaker('lyzr')
+ * const reply = await breaker.execute(() =>
+ *   retry(() => withTimeout(signal => fetch(url, { signal }), 20_000), { retries: 2, shouldRetry })
+ * )
+ * ```
+ */
+
+export class TimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Timed out after ${ms}ms`)
+    this.name = 'TimeoutError'
+  }
+}
+
+export class CircuitOpenError extends Error {
+  /** Time until the breaker lets a trial request through */
+  retryAfterMs: number
+
+  constructor(key: string, retryAfterMs: number) {
+    super(`Circuit "${key}" is open - upstream marked unhealthy`)
+    this.name = 'CircuitOpenError'
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+/**
+ * Run an abortable task with a deadline. The signal is aborted if the
+ * deadline passes; a task that settles in time keeps its signal alive
+ * (so a streamed body can still be read afterwards).
+ */
+export async function withTimeout<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  ms: number,
+  controller: AbortController = new AbortController()
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort()
+      reject(new TimeoutError(ms))
+    }, ms)
+  })
+
+  try {
+    return await Promise.race([task(controller.signal), deadline])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+export interface RetryOptions {
+  /** Extra attempts after the first (0 = no retry) */
+  retries: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+  /** Whether a failure is worth another attempt */
+  shouldRetry: (error: unknown) => boolean
+  /** Injectable for tests */
+  sleep?: (ms: number) => Promise<void>
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms))
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and
+ * min(maxDelayMs, baseDelayMs * 2^attempt)
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt)
+  return Math.round(Math.random() * ceiling)
+}
+
+/**
+ * Run a task, retrying failures that `shouldRetry` accepts
+ */
+export async function retry<T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  const { retries, baseDelayMs = 200, maxDelayMs = 2000, shouldRetry, sleep = defaultSleep } = options
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task(attempt)
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error)) throw error
+      await sleep(backoffDelay(attempt, baseDelayMs, maxDelayMs))
+    }
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold?: number
+  /** How long the circuit stays open before a trial request */
+  resetTimeoutMs?: number
+  /** Which errors count against upstream health (default: all) */
+  isFailure?: (error: unknown) => boolean
+  now?: () => number
+}
+
+export interface CircuitBreaker {
+  execute<T>(task: () => Promise<T>): Promise<T>
+  /**
+   * Let one call through (or throw CircuitOpenError) and return the function
+   * that reports how it ended: with its error, or nothing on success. For
+   * calls that finish after a promise resolves, e.g. a streamed reply.
+   */
+  begin(): (error?: unknown) => void
+  state(): CircuitState
+}
+
+/**
+ * Circuit breaker: after `failureThreshold` consecutive failures, calls fail
+ * fast with CircuitOpenError for `resetTimeoutMs`. Then one trial call is let
+ * through (half-open); success closes the circuit, failure re-opens it.
+ */
+export function createCircuitBreaker(key: string, options: CircuitBreakerOptions = {}): CircuitBreaker {
+  const {
+    failureThreshold = 5,
+    resetTimeoutMs = 30_000,
+    isFailure = () => true,
+    now = Date.now,
+  } = options
+
+  let failures = 0
+  let openedAt: number | null = null
+  let trialInFlight = false
+
+  const state = (): CircuitState => {
+    if (openedAt === null) return 'closed'
+    return now() - openedAt >= resetTimeoutMs ? 'half-open' : 'open'
+  }
+
+  const begin = () => {
+    const current = state()
+    if (current === 'open' || (current === 'half-open' && trialInFlight)) {
+      const retryAfterMs = Math.max(0, (openedAt as number) + resetTimeoutMs - now())
+      throw new CircuitOpenError(key, retryAfterMs || resetTimeoutMs)
+    }
+
+    const isTrial = current === 'half-open'
+    if (isTrial) trialInFlight = true
+    let settled = false
+
+    return (error?: unknown) => {
+      if (settled) return
+      settled = true
+      if (isTrial) trialInFlight = false
+
+      if (error === undefined) {
+        failures = 0
+        openedAt = null
+      } else if (isFailure(error)) {
+        failures++
+        if (isTrial || failures >= failureThreshold) openedAt = now()
+      } else if (isTrial) {
+        // The upstream answered - it's healthy even if the request was bad
+        failures = 0
+        openedAt = null
+      }
+    }
+  }
+
+  return {
+    state,
+    begin,
+
+    async execute(task) {
+      const settle = begin()
+      try {
+        const result = await task()
+        settle()
+        return result
+      } catch (error) {
+        settle(error)
+        throw error
+      }
+    },
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>()
+
+/**
+ * Shared breaker for a key, created on first use
+ */
+export function getCircuitBreaker(key: string, options?: CircuitBreakerOptions): CircuitBreaker {
+  let breaker = breakers.get(key)
+  if (!breaker) {
+    breaker = createCircuitBreaker(key, options)
+    breakers.set(key, breaker)
+  }
+  return breaker
+}
+
+/**
+ * Forget all shared breakers (tests, config reloads)
+ */
+export function resetCircuitBreakers(): void {
+  breakers.clear()
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import {
+  createResponsePipeline,
+  directStage,
+  lenientStage,
+  stripFencesStage,
+  unescapeStage,
+  type PipelineState,
+  type ResponseStage,
+} from './responsePipeline'
+
+const state = (text: string, extra: Partial<PipelineState> = {}): PipelineState => ({
+  raw: text,
+  text,
+  warnings: [],
+  ...extra,
+})
+
+describe('stages', () => {
+  it('rewrite text for the next stage', () => {
+    expect(unescapeStage.run(state('a\\nb\\tc'))).toEqual({ text: 'a\nb\tc' })
+    expect(stripFencesStage.run(state('```json\n{"a": 1}\n```\n'))).toEqual({ text: '{"a": 1}' })
+  })
+
+  it('leave escapes inside strings alone', () => {
+    const reply = '{\\n  "a": "a\\\\nb",\\n  "b": "line\\nbreak"\\n}'
+
+    expect(unescapeStage.run(state(reply))).toEqual({ text: '{\n  "a": "a\\\\nb",\n  "b": "line\\nbreak"\n}' })
+    expect(createResponsePipeline().run('{"a": "a\\\\nb"}').response).toEqual({ a: 'a\\nb' })
+  })
+
+  it('finish with a result or pass on why they could not', () => {
+    expect(directStage.run(state('{"a": 1}'))).toMatchObject({ done: true, response: { a: 1 } })
+    expect(directStage.run(state("{a: 1}"))).toBeUndefined()
+    expect(lenientStage.run(state('{a: 1,}'))).toMatchObject({
+      done: true,
+      parse: { strategy: 'direct', repairs: ['unquoted-keys', 'trailing-commas'] },
+    })
+    expect(lenientStage.run(state('just words'))).toEqual({ warnings: [], error: 'No valid JSON found in the response' })
+  })
+})
+
+describe('createResponsePipeline', () => {
+  it('runs the default stages in order', () => {
+    const pipeline = createResponsePipeline()
+
+    expect(pipeline.run('```json\\n{"answer": 1}\\n```')).toMatchObject({ response: { answer: 1 }, stage: 'direct' })
+    expect(pipeline.run({ answer: 1 })).toMatchObject({ response: { answer: 1 }, stage: 'object' })
+    expect(pipeline.run('Sure: {answer: 1}')).toMatchObject({ stage: 'lenient', parse: { strategy: 'boundary' } })
+  })
+
+  it('prefers a value that matches the schema', () => {
+    const schema = z.object({ answer: z.number() })
+    const result = createResponsePipeline().run('{"draft": true} {"answer": "2"}', { schema })
+
+    expect(result).toMatchObject({ response: { answer: 2 }, stage: 'schema', parse: { validated: true } })
+  })
+
+  it('keeps the reply as text when no stage produces a value', () => {
+    expect(createResponsePipeline().run('Hello there')).toEqual({
+      response: 'Hello there',
+      parse: { structured: false, repairs: [], warnings: [], error: 'No valid JSON found in the response' },
+    })
+    expect(createResponsePipeline().run(42).parse.error).toBe('Reply was a number')
+  })
+
+  it('reads replies in the format the agent declares', () => {
+    const schema = z.object({ answer: z.string(), confidence: z.number() })
+    const pipeline = createResponsePipeline()
+
+    expect(pipeline.run('<answer>Yes</answer>\\n<confidence>0.8</confidence>', { schema, format: 'tags' })).toMatchObject({
+      response: { answer: 'Yes', confidence: 0.8 },
+      stage: 'structured',
+      parse: { format: 'tags', validated: true, coercions: [{ kind: 'string-to-number', path: 'confidence' }] },
+    })
+    expect(pipeline.run('answer: Yes', { schema, format: 'yaml' })).toMatchObject({
+      response: { answer: 'Yes' },
+      parse: { format: 'yaml', validated: false },
+    })
+    // JSON agents skip the stage
+    expect(pipeline.run('{"answer": "Yes"}', { format: 'json' }).stage).toBe('direct')
+  })
+
+  it('accepts a per-agent list of named and custom stages', () => {
+    const upper: ResponseStage = { name: 'upper', run: ({ text }) => ({ text: text.toUpperCase() }) }
+    const pipeline = createResponsePipeline(['unescape', upper, 'direct'])
+
+    expect(pipeline.stages.map(stage => stage.name)).toEqual(['unescape', 'upper', 'direct'])
+    expect(pipeline.run('{"a": 1}').response).toEqual({ A: 1 })
+    expect(pipeline.run('{a: 1}').parse.structured).toBe(false)
+  })
+})
@@ -0,0 +1,249 @@
+/**
+ * Agent reply normalization pipeline
+ *
+ * Turns a raw upstream reply into the `response` /api/agent returns: a
+ * structured object when one can be found, otherwise the reply unchanged,
+ * plus `parse` diagnostics saying how it got there.
+ *
+ * The work is split into ordered stages. Each stage either finishes with a
+ * result or passes (possibly rewritten) text on to the next one, so stages can
+ * be tested on their own and agents can choose their own list. Nothing here is
+ * server-only - client code can run a `raw_response` through the same steps.
+ *
+ * @example
+ * ```ts
+ * const pipeline = createResponsePipeline(agent.pipeline)
+ * const { response, parse } = pipeline.run(rawReply, { schema: SALES_OUTPUT.schema })
+ *
+ * // Client side, e.g. re-reading a reply callAIAgent kept as text
+ * const result = await callAIAgent(message, 'sales')
+ * const { response } = createResponsePipeline().run(result.raw_response)
+ * ```
+ */
+import type { z } from 'zod'
+import type { ParseDiagnostics } from '@/utils/agentContract'
+import { formatIssues } from '@/utils/agentContract'
+import parseLLMJson, { parseLLMJsonDetailed } from '@/utils/jsonParser'
+import { coerceToSchema } from '@/utils/schemaCoercion'
+import { parseLLMStructured, type StructuredFormat } from '@/utils/structuredParser'
+
+export interface PipelineState {
+  /** The reply as received */
+  raw: unknown
+  /** The reply text as rewritten by earlier stages */
+  text: string
+  /** What the agent is supposed to reply with, if known */
+  schema?: z.ZodType
+  /** Format the agent declares it replies in, if not JSON */
+  format?: StructuredFormat
+  warnings: string[]
+  /** Why the latest parsing stage found nothing */
+  error?: string
+}
+
+export interface PipelineResult {
+  response: unknown
+  parse: ParseDiagnostics
+  /** Stage that produced the result; undefined when the reply was kept as text */
+  stage?: string
+}
+
+/**
+ * What a stage returns: a finished result, changes for the next stage, or
+ * nothing to move on unchanged
+ */
+export type StageOutcome =
+  | { done: true; response: unknown; parse: ParseDiagnostics }
+  | { done?: false; text?: string; warnings?: string[]; error?: string }
+  | void
+
+export interface ResponseStage {
+  name: string
+  run: (state: Readonly<PipelineState>) => StageOutcome
+}
+
+export type ResponseStageName = 'object' | 'unescape' | 'structured' | 'strip-fences' | 'schema' | 'direct' | 'lenient'
+
+/**
+ * Built-in stages
+ */
+
+/** Replies that are already objects are used as-is */
+export const objectStage: ResponseStage = {
+  name: 'object',
+  run: ({ raw }) => {
+    if (typeof raw !== 'object' || raw === null) return
+    return { done: true, response: raw, parse: { structured: true, strategy: 'object', repairs: [], warnings: [] } }
+  },
+}
+
+const UNESCAPED: Record<string, string> = { n: '\n', r: '\r', t: '\t' }
+
+/**
+ * Turn literal \n, \r and \t escape sequences into the characters, outside
+ * double-quoted strings - inside them they are JSON escapes and stay as sent
+ */
+export const unescapeStage: ResponseStage = {
+  name: 'unescape',
+  run: ({ text }) => {
+    let result = ''
+    let inString = false
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+      if (char === '\\') {
+        const next = text[i + 1] ?? ''
+        result += !inString && UNESCAPED[next] ? UNESCAPED[next] : char + next
+        i++
+      } else {
+        if (char === '"') inString = !inString
+        result += char
+      }
+    }
+    return { text: result }
+  },
+}
+
+/**
+ * Replies in the agent's declared non-JSON format (YAML, tagged sections or a
+ * table), checked against the output schema after coercing near-misses.
+ * A value that doesn't match is still returned, marked as not validated.
+ */
+export const structuredStage: ResponseStage = {
+  name: 'structured',
+  run: ({ text, schema, format }) => {
+    if (!format || format === 'json') return
+    const result = parseLLMStructured(text, { expect: format })
+    if (!result.ok) return { warnings: result.warnings, error: result.error }
+
+    const { strategy, warnings } = result
+    const parse = { structured: true, strategy, format, repairs: [], warnings }
+    if (!schema) return { done: true, response: result.value, parse }
+
+    const { value, coercions } = coerceToSchema(result.value, schema)
+    const validation = schema.safeParse(value)
+    if (validation.success) {
+      return { done: true, response: validation.data, parse: { ...parse, validated: true, coercions } }
+    }
+    const problems = Object.entries(formatIssues(validation.error)).map(([field, messages]) => `${field}: ${messages.join(', ')}`)
+    return {
+      done: true,
+      response: value,
+      parse: { ...parse, warnings: [...warnings, `Reply does not match the output schema (${problems.join('; ')})`], validated: false, coercions },
+    }
+  },
+}
+
+/** Remove markdown code fence lines (```json, ```) and surrounding whitespace */
+export const stripFencesStage: ResponseStage = {
+  name: 'strip-fences',
+  run: ({ text }) => ({
+    text: text
+      .replace(/^```(?:json|JSON)?\s*\n?/gm, '')
+      .replace(/\n?```\s*$/gm, '')
+      .trim(),
+  }),
+}
+
+/** The first JSON value that matches the agent's output schema, after coercing near-misses */
+export const schemaStage: ResponseStage = {
+  name: 'schema',
+  run: ({ text, schema }) => {
+    if (!schema) return
+    const result = parseLLMJson(text, schema)
+    if (!result.ok) return
+    const { strategy, repairs, warnings, coercions } = result
+    return {
+      done: true,
+      response: result.value,
+      parse: { structured: true, strategy, repairs, warnings, validated: true, coercions },
+    }
+  },
+}
+
+/** Plain JSON.parse, for well-formed replies */
+export const directStage: ResponseStage = {
+  name: 'direct',
+  run: ({ text }) => {
+    try {
+      const parsed = JSON.parse(text)
+      if (parsed && typeof parsed === 'object') {
+        return { done: true, response: parsed, parse: { structured: true, strategy: 'direct', repairs: [], warnings: [] } }
+      }
+    } catch {
+      // Not strict JSON
+    }
+  },
+}
+
+/** parseLLMJsonDetailed: extraction from mixed text plus the lenient parser */
+export const lenientStage: ResponseStage = {
+  name: 'lenient',
+  run: ({ text }) => {
+    const result = parseLLMJsonDetailed(text, { attemptFix: true, maxBlocks: 5, preferFirst: true, allowPartial: false })
+    if (result.ok && result.value && typeof result.value === 'object') {
+      const { strategy, repairs, warnings } = result
+      return { done: true, response: result.value, parse: { structured: true, strategy, repairs, warnings } }
+    }
+    return { warnings: result.warnings, error: result.ok ? 'Parsed value is not an object' : result.error }
+  },
+}
+
+export const RESPONSE_STAGES: Record<ResponseStageName, ResponseStage> = {
+  object: objectStage,
+  unescape: unescapeStage,
+  structured: structuredStage,
+  'strip-fences': stripFencesStage,
+  schema: schemaStage,
+  direct: directStage,
+  lenient: lenientStage,
+}
+
+export const DEFAULT_RESPONSE_STAGES: ResponseStageName[] = [
+  'object',
+  'unescape',
+  'structured',
+  'strip-fences',
+  'schema',
+  'direct',
+  'lenient',
+]
+
+/**
+ * Build a pipeline from stage names (see RESPONSE_STAGES) or custom stages.
+ * The reply is kept as text when no stage produces a result.
+ */
+export function createResponsePipeline(stages: Array<ResponseStageName | ResponseStage> = DEFAULT_RESPONSE_STAGES) {
+  const resolved = stages.map(stage => (typeof stage === 'string' ? RESPONSE_STAGES[stage] : stage))
+
+  return {
+    stages: resolved,
+
+    run(raw: unknown, options: { schema?: z.ZodType; format?: StructuredFormat } = {}): PipelineResult {
+      const state: PipelineState = {
+        raw,
+        // Non-string replies leave the text stages nothing to work on
+        text: typeof raw === 'string' ? raw : '',
+        schema: options.schema,
+        format: options.format,
+        warnings: [],
+      }
+
+      for (const stage of resolved) {
+        const outcome = stage.run(state)
+        if (!outcome) continue
+        if (outcome.done) {
+          return { response: outcome.response, parse: outcome.parse, stage: stage.name }
+        }
+        if (outcome.text !== undefined) state.text = outcome.text
+        if (outcome.warnings) state.warnings = outcome.warnings
+        if (outcome.error) state.error = outcome.error
+      }
+
+      const error = typeof raw === 'string' ? state.error || 'No stage produced a structured value' : `Reply was a ${typeof raw}`
+      return { response: raw, parse: { structured: false, repairs: [], warnings: state.warnings, error } }
+    },
+  }
+}
+
+export type ResponsePipeline = ReturnType<typeof createResponsePipeline>
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import { coerceToSchema, snakeToCamel } from './schemaCoercion'
+
+describe('coerceToSchema', () => {
+  it('coerces nested values through optional, nullable and array schemas', () => {
+    const schema = z.object({
+      items: z.array(z.object({ qty: z.number(), unitPrice: z.number().nullable() })).optional(),
+    })
+    const input = { items: [{ qty: '2', unit_price: ' 3.5 ' }] }
+    const { value, coercions } = coerceToSchema(input, schema)
+
+    expect(value).toEqual({ items: [{ qty: 2, unitPrice: 3.5 }] })
+    expect(coercions.map(c => `${c.kind} ${c.path}`)).toEqual([
+      'snake-to-camel-key items[0].unitPrice',
+      'string-to-number items[0].qty',
+      'string-to-number items[0].unitPrice',
+    ])
+    expect(input.items[0]).toEqual({ qty: '2', unit_price: ' 3.5 ' })
+  })
+
+  it('leaves values it cannot safely fix alone', () => {
+    const schema = z.object({ score: z.number(), tags: z.array(z.string()), user_id: z.string() })
+    const { value, coercions } = coerceToSchema({ score: '12abc', tags: 3, user_id: 'u1' }, schema)
+
+    expect(value).toEqual({ score: '12abc', tags: 3, user_id: 'u1' })
+    expect(coercions).toEqual([])
+  })
+
+  it('coerces into the first union option that then validates', () => {
+    const schema = z.union([z.object({ kind: z.literal('a'), n: z.number() }), z.string()])
+    expect(coerceToSchema({ kind: 'a', n: '1' }, schema).value).toEqual({ kind: 'a', n: 1 })
+  })
+
+  it('sees through defaults, pipes, lazy schemas, records and intersections', () => {
+    const schema = z.object({
+      count: z.int().default(0),
+      total: z.number().transform(n => n * 100),
+      tags: z.lazy(() => z.array(z.string())),
+      prices: z.record(z.string(), z.number()),
+      item: z.intersection(z.object({ id: z.number() }), z.object({ qty: z.number() })),
+      reply: z.discriminatedUnion('kind', [z.object({ kind: z.literal('score'), score: z.number() })]),
+    })
+    const input = {
+      count: '3',
+      total: '1.5',
+      tags: 'urgent',
+      prices: { basic: '9' },
+      item: { id: '1', qty: '2' },
+      reply: { kind: 'score', score: '0.9' },
+    }
+
+    expect(coerceToSchema(input, schema).value).toEqual({
+      count: 3,
+      total: 1.5,
+      tags: ['urgent'],
+      prices: { basic: 9 },
+      item: { id: 1, qty: 2 },
+      reply: { kind: 'score', score: 0.9 },
+    })
+  })
+})
+
+describe('snakeToCamel', () => {
+  it('converts snake_case keys', () => {
+    expect(snakeToCamel('sales_guidance')).toBe('salesGuidance')
+    expect(snakeToCamel('item_2_price')).toBe('item2Price')
+    expect(snakeToCamel('already')).toBe('already')
+  })
+})
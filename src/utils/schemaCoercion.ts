@@ -0,0 +1,141 @@
+/**
+ * Schema-guided coercion of parsed LLM output
+ *
+ * Models often return nearly the right shape: `"42"` for a number, one
+ * string where a list is expected, or `snake_case` keys for a camelCase
+ * schema. coerceToSchema() walks a zod schema alongside the value and fixes
+ * exactly those near-misses, recording each one, so the result can then be
+ * validated normally. Nothing else is changed and the input is not mutated.
+ *
+ * @example
+ * ```ts
+ * const { value, coercions } = coerceToSchema({ unit_price: '9.5' }, z.object({ unitPrice: z.number() }))
+ * // value: { unitPrice: 9.5 }
+ * // coercions: [{ kind: 'snake-to-camel-key', path: 'unitPrice', from: 'unit_price' },
+ * //             { kind: 'string-to-number', path: 'unitPrice' }]
+ * ```
+ */
+import { z } from 'zod'
+import { childPath, type JsonPath } from '@/utils/jsonPath'
+
+export type JsonCoercionKind = 'string-to-number' | 'string-to-array' | 'snake-to-camel-key'
+
+export interface JsonCoercion {
+  kind: JsonCoercionKind
+  /** Path of the coerced value, e.g. `items[0].unitPrice`; the root is '' */
+  path: JsonPath
+  /** Original key, for renamed keys */
+  from?: string
+}
+
+const NUMERIC_STRING = /^\s*[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?\s*$/
+
+/**
+ * The schema a wrapper validates its value with, e.g. T for T.optional()
+ */
+function unwrap(schema: z.core.$ZodType): z.core.$ZodType | undefined {
+  if (
+    schema instanceof z.ZodOptional ||
+    schema instanceof z.ZodNullable ||
+    schema instanceof z.ZodDefault ||
+    schema instanceof z.ZodPrefault ||
+    schema instanceof z.ZodNonOptional ||
+    schema instanceof z.ZodCatch ||
+    schema instanceof z.ZodReadonly ||
+    schema instanceof z.ZodPromise ||
+    schema instanceof z.ZodLazy
+  ) {
+    return schema.unwrap()
+  }
+  if (schema instanceof z.ZodPipe) return schema.in
+  return undefined
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function snakeToCamel(key: string): string {
+  return key.replace(/_+([a-z\d])/g, (_, char: string) => char.toUpperCase())
+}
+
+function coerce(value: unknown, schema: z.core.$ZodType, path: JsonPath, coercions: JsonCoercion[]): unknown {
+  const inner = unwrap(schema)
+  if (inner) return coerce(value, inner, path, coercions)
+  if (value === undefined || value === null) return value
+
+  if (schema instanceof z.ZodNumber) {
+    if (typeof value === 'string' && NUMERIC_STRING.test(value)) {
+      coercions.push({ kind: 'string-to-number', path })
+      return Number(value)
+    }
+    return value
+  }
+
+  if (schema instanceof z.ZodArray) {
+    let items = value
+    if (typeof value === 'string') {
+      coercions.push({ kind: 'string-to-array', path })
+      items = [value]
+    }
+    if (!Array.isArray(items)) return value
+    return items.map((item, index) => coerce(item, schema.element, childPath(path, index), coercions))
+  }
+
+  if (schema instanceof z.ZodObject) {
+    if (!isPlainObject(value)) return value
+    const result: Record<string, unknown> = { ...value }
+    const shape: Record<string, z.core.$ZodType> = schema.shape
+
+    for (const key of Object.keys(value)) {
+      const camel = snakeToCamel(key)
+      if (camel !== key && camel in shape && !(key in shape) && !(camel in result)) {
+        coercions.push({ kind: 'snake-to-camel-key', path: childPath(path, camel), from: key })
+        result[camel] = result[key]
+        delete result[key]
+      }
+    }
+
+    for (const key of Object.keys(shape)) {
+      if (key in result) result[key] = coerce(result[key], shape[key], childPath(path, key), coercions)
+    }
+    return result
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    if (!isPlainObject(value)) return value
+    const result: Record<string, unknown> = {}
+    for (const key of Object.keys(value)) {
+      result[key] = coerce(value[key], schema.valueType, childPath(path, key), coercions)
+    }
+    return result
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    // First option that validates after coercion wins; otherwise leave the value alone
+    for (const option of schema.options) {
+      const attempt: JsonCoercion[] = []
+      const coerced = coerce(value, option, path, attempt)
+      if (z.safeParse(option, coerced).success) {
+        coercions.push(...attempt)
+        return coerced
+      }
+    }
+    return value
+  }
+
+  if (schema instanceof z.ZodIntersection) {
+    return coerce(coerce(value, schema.def.left, path, coercions), schema.def.right, path, coercions)
+  }
+
+  return value
+}
+
+/**
+ * Fix near-misses in `value` so it has a chance of matching `schema`.
+ * The result still needs validating - only listed coercions are applied.
+ */
+export function coerceToSchema(value: unknown, schema: z.ZodType): { value: unknown; coercions: JsonCoercion[] } {
+  const coercions: JsonCoercion[] = []
+  return { value: coerce(value, schema, '', coercions), coercions }
+}
@@ -0,0 +1,84 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { resolveSession, signSessionToken, verifySessionToken } from './sessions'
+
+const env = { SESSION_SECRET: 'test-secret' }
+
+describe('session tokens', () => {
+  it('verifies a token for the agent it was issued to', () => {
+    const token = signSessionToken('support-1', 'support', env)
+
+    expect(verifySessionToken(token, 'support', env)).toBe('support-1')
+    expect(verifySessionToken(token, 'sales', env)).toBeNull()
+    expect(verifySessionToken(token, 'support', { SESSION_SECRET: 'other-secret' })).toBeNull()
+  })
+
+  it('requires SESSION_SECRET in production', () => {
+    expect(() => signSessionToken('support-1', 'support', { NODE_ENV: 'production' })).toThrow('SESSION_SECRET')
+  })
+
+  it('rejects tokens that were altered or are malformed', () => {
+    const [payload, signature] = signSessionToken('support-1', 'support', env).split('.')
+    const forged = Buffer.from(JSON.stringify({ sid: 'support-2', aid: 'support', iat: Date.now() })).toString('base64url')
+
+    expect(verifySessionToken(`${forged}.${signature}`, 'support', env)).toBeNull()
+    expect(verifySessionToken(payload, 'support', env)).toBeNull()
+    expect(verifySessionToken(`${payload}.${signature}.extra`, 'support', env)).toBeNull()
+  })
+})
+
+describe('resolveSession', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('starts a new session with a signed token', () => {
+    const session = resolveSession({ agent_id: 'support' }, env)
+
+    expect(session.session_id).toMatch(/^support-/)
+    expect(verifySessionToken(session.session_token, 'support', env)).toBe(session.session_id)
+  })
+
+  it('continues the session of a valid token', () => {
+    const first = resolveSession({ agent_id: 'support' }, env)
+    const next = resolveSession({ agent_id: 'support', session_token: first.session_token }, env)
+
+    expect(next.session_id).toBe(first.session_id)
+    expect(verifySessionToken(next.session_token, 'support', env)).toBe(first.session_id)
+  })
+
+  it('reissues the token every turn so active sessions do not expire', () => {
+    const day = 24 * 60 * 60 * 1000
+    vi.useFakeTimers()
+    const started = resolveSession({ agent_id: 'support' }, env)
+
+    let session = started
+    for (let turn = 0; turn < 3; turn++) {
+      vi.advanceTimersByTime(20 * day)
+      session = resolveSession({ agent_id: 'support', session_token: session.session_token }, env)
+    }
+    expect(session.session_id).toBe(started.session_id)
+
+    vi.advanceTimersByTime(31 * day)
+    expect(resolveSession({ agent_id: 'support', session_token: session.session_token }, env).session_id).not.toBe(
+      started.session_id
+    )
+  })
+
+  it('starts over when the token is invalid', () => {
+    const first = resolveSession({ agent_id: 'support' }, env)
+    const next = resolveSession({ agent_id: 'support', session_token: `${first.session_token}x` }, env)
+
+    expect(next.session_id).not.toBe(first.session_id)
+  })
+
+  it('never signs a session id the client chose', () => {
+    const existing = resolveSession({ agent_id: 'support' }, env)
+    const request = { agent_id: 'support', session_id: existing.session_id }
+
+    const session = resolveSession(request, env)
+
+    expect(session.session_id).not.toBe(existing.session_id)
+    expect(verifySessionToken(session.session_token, 'support', env)).toBe(session.session_id)
+  })
+})
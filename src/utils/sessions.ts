@@ -0,0 +1,115 @@
+/**
+ * Conversation sessions (server-side)
+ *
+ * The route issues each widget conversation a session_id plus a signed
+ * session_token. Clients send the token back with every message, so the
+ * upstream keeps one session (and its memory) per conversation and agent.
+ * Tokens are bound to the agent they were issued for and cannot be forged
+ * without SESSION_SECRET. Only ids the server generated are signed: a
+ * session_id is continued through its token alone, so a client can't pick an
+ * existing session and get a token for it. Every turn gets a freshly signed
+ * token, so a conversation only expires after 30 days without messages.
+ * SESSION_SECRET is required in production.
+ *
+ * @example
+ * ```ts
+ * const { session_id, session_token } = resolveSession({ agent_id, session_token: body.session_token })
+ * ```
+ */
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000 // 30 days
+
+export interface AgentSession {
+  session_id: string
+  session_token: string
+}
+
+interface SessionClaims {
+  sid: string
+  aid: string
+  iat: number
+}
+
+let fallbackSecret: string | null = null
+
+/**
+ * SESSION_SECRET from the environment, or a per-process secret in
+ * development (sessions then reset when the server restarts)
+ * @throws In production when SESSION_SECRET is not set
+ */
+function getSessionSecret(env: Record<string, string | undefined>): string {
+  if (env.SESSION_SECRET) return env.SESSION_SECRET
+  if (env.NODE_ENV === 'production') {
+    // A per-process secret would drop every session on restart and differ between instances
+    throw new Error('SESSION_SECRET must be set in production')
+  }
+
+  if (!fallbackSecret) {
+    console.warn('SESSION_SECRET not configured - using a temporary secret, sessions reset on restart')
+    fallbackSecret = randomBytes(32).toString('hex')
+  }
+  return fallbackSecret
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url')
+}
+
+/**
+ * Create a signed token for a session
+ */
+export function signSessionToken(
+  session_id: string,
+  agent_id: string,
+  env: Record<string, string | undefined> = process.env
+): string {
+  const claims: SessionClaims = { sid: session_id, aid: agent_id, iat: Date.now() }
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url')
+  return `${payload}.${sign(payload, getSessionSecret(env))}`
+}
+
+/**
+ * Check a session token and return its session_id
+ * @returns The session_id, or null if the token is invalid, expired or for another agent
+ */
+export function verifySessionToken(
+  token: string,
+  agent_id: string,
+  env: Record<string, string | undefined> = process.env
+): string | null {
+  const [payload, signature, ...rest] = token.split('.')
+  if (!payload || !signature || rest.length > 0) return null
+
+  const expected = Buffer.from(sign(payload, getSessionSecret(env)))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  try {
+    const claims: SessionClaims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+    if (claims.aid !== agent_id || typeof claims.sid !== 'string') return null
+    if (Date.now() - claims.iat > SESSION_MAX_AGE_MS) return null
+    return claims.sid
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Pick the session for a request: a valid session_token continues its
+ * session with a reissued token, otherwise a new one is started
+ */
+export function resolveSession(
+  request: { agent_id: string; session_token?: string },
+  env: Record<string, string | undefined> = process.env
+): AgentSession {
+  const { agent_id, session_token } = request
+
+  if (session_token) {
+    const session_id = verifySessionToken(session_token, agent_id, env)
+    if (session_id) return { session_id, session_token: signSessionToken(session_id, agent_id, env) }
+  }
+
+  const session_id = `${agent_id}-${randomUUID()}`
+  return { session_id, session_token: signSessionToken(session_id, agent_id, env) }
+}
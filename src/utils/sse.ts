@@ -0,0 +1,111 @@
+/**
+ * Server-Sent Events helpers
+ *
+ * Used on both sides of the /api/agent streaming mode: the route encodes
+ * events for the browser, and readers decode the upstream or route stream.
+ *
+ * @example
+ * ```ts
+ * import { readSSE } from '@/utils/sse'
+ *
+ * for await (const message of readSSE(response.body!)) {
+ *   if (message.event === 'token') console.log(JSON.parse(message.data).delta)
+ * }
+ * ```
+ */
+
+export interface SSEMessage {
+  event: string
+  data: string
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+}
+
+/**
+ * Encode one event in the text/event-stream wire format
+ * @param event - Event name (e.g. 'token', 'final', 'error')
+ * @param data - Payload, serialized as JSON
+ */
+export function encodeSSE(event: string, data: unknown): string {
+  const payload = JSON.stringify(data)
+  return `event: ${event}\ndata: ${payload}\n\n`
+}
+
+/**
+ * Check whether a request asked for a text/event-stream response
+ */
+export function acceptsEventStream(request: Request): boolean {
+  const accept = request.headers.get('accept') || ''
+  return accept.toLowerCase().includes('text/event-stream')
+}
+
+/**
+ * Decode a text/event-stream body into messages as they arrive
+ *
+ * Chunk boundaries can fall anywhere (mid-line, mid-character), so the
+ * reader buffers until a blank line closes each event.
+ *
+ * @param body - The response body stream
+ */
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let event = 'message'
+  let dataLines: string[] = []
+
+  const flush = (): SSEMessage | null => {
+    const message = dataLines.length > 0 ? { event, data: dataLines.join('\n') } : null
+    event = 'message'
+    dataLines = []
+    return message
+  }
+
+  // Returns a message when the line is the blank line that closes an event
+  const processLine = (line: string): SSEMessage | null => {
+    if (line === '') return flush()
+    if (line.startsWith(':')) return null // comment / keep-alive
+
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    let value = colon === -1 ? '' : line.slice(colon + 1)
+    if (value.startsWith(' ')) value = value.slice(1)
+
+    if (field === 'event') event = value
+    else if (field === 'data') dataLines.push(value)
+    return null
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      let newline = buffer.search(/\r\n|\r|\n/)
+      // A trailing \r may be the first half of a \r\n split across chunks
+      while (newline !== -1 && (done || newline < buffer.length - 1 || buffer[newline] !== '\r')) {
+        const line = buffer.slice(0, newline)
+        const width = buffer.startsWith('\r\n', newline) ? 2 : 1
+        buffer = buffer.slice(newline + width)
+
+        const message = processLine(line)
+        if (message) yield message
+
+        newline = buffer.search(/\r\n|\r|\n/)
+      }
+
+      if (done) break
+    }
+
+    // A stream may end without the blank line that closes the last event
+    if (buffer) processLine(buffer)
+    const last = flush()
+    if (last) yield last
+  } finally {
+    reader.releaseLock()
+  }
+}
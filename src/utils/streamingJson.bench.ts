@@ -0,0 +1,45 @@
+/**
+ * Run with `npm run bench`. Each input is streamed in small chunks, the way
+ * replies arrive, and read after every chunk. Times should grow linearly with
+ * input size: a push costs what it adds, not what came before it.
+ */
+import { bench, describe } from 'vitest'
+import { createStreamingJsonParser } from './streamingJson'
+
+const KB = 1024
+
+function chunk(text: string, size: number): string[] {
+  const chunks: string[] = []
+  for (let i = 0; i < text.length; i += size) chunks.push(text.slice(i, i + size))
+  return chunks
+}
+
+const item = (i: number) => ({ id: i, name: `Item ${i}`, tags: ['a', 'b'], meta: { score: i / 10, ok: true } })
+
+const INPUTS: Record<string, string> = {
+  // One long answer in a single string field
+  'long string': JSON.stringify({ response: 'All good. '.repeat((200 * KB) / 10) }),
+  // A long list whose items keep arriving
+  'long list': JSON.stringify({ items: Array.from({ length: 2000 }, (_, i) => item(i)) }),
+  // Deep nesting, each level holding a long string
+  'deep nesting': JSON.stringify(
+    Array.from({ length: 50 }).reduce<unknown>(inner => ({ text: 'x'.repeat(2 * KB), inner }), null)
+  ),
+  // Prose full of brackets that turn out not to start JSON, before the reply
+  'bracketed prose': 'See [1], {placeholders} and [here]. '.repeat((100 * KB) / 36) + JSON.stringify({ a: 1 }),
+}
+
+const options = { time: 200, iterations: 3, warmupIterations: 1 }
+
+for (const [name, text] of Object.entries(INPUTS)) {
+  describe(`${name} (${Math.round(text.length / KB)} KB)`, () => {
+    for (const size of [8, 256]) {
+      const chunks = chunk(text, size)
+      bench(`${size}-character chunks`, () => {
+        const parser = createStreamingJsonParser()
+        for (const piece of chunks) parser.push(piece)
+        parser.end()
+      }, options)
+    }
+  })
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import { createStreamingJsonParser } from './streamingJson'
+
+const REPLY = JSON.stringify({
+  sales_guidance: {
+    main_response: 'Lead with "compliance" savings\nthen ROI.',
+    suggested_questions: ['What does it cost?', 'How long is onboarding?'],
+  },
+  confidence: 0.9,
+  metadata: { topic: 'pitch', escaped: 'é\\' },
+})
+
+describe('createStreamingJsonParser', () => {
+  it('ends with the same value as JSON.parse, whatever the chunking', () => {
+    for (const size of [1, 2, 3, 7, 64]) {
+      const parser = createStreamingJsonParser()
+      for (let i = 0; i < REPLY.length; i += size) parser.push(REPLY.slice(i, i + size))
+      const result = parser.end()
+
+      expect(result.value).toEqual(JSON.parse(REPLY))
+      expect(result.done).toBe(true)
+      expect(result.error).toBeUndefined()
+    }
+  })
+
+  it('shows strings while they are still arriving, closing every level', () => {
+    const parser = createStreamingJsonParser()
+    const { value, completedPaths } = parser.push('{"sales_guidance": {"main_response": "Lead with compl')
+
+    expect(value).toEqual({ sales_guidance: { main_response: 'Lead with compl' } })
+    expect(completedPaths).toEqual([])
+  })
+
+  it('reports completed paths as values finish', () => {
+    const parser = createStreamingJsonParser()
+    parser.push('{"guidance": {"text": "Hi", "questions": ["A", "B')
+
+    expect(parser.snapshot().value).toEqual({ guidance: { text: 'Hi', questions: ['A', 'B'] } })
+    expect(parser.snapshot().completedPaths).toEqual(['guidance.text', 'guidance.questions[0]'])
+    expect(parser.isComplete('guidance.questions')).toBe(false)
+
+    parser.push('"]')
+    expect(parser.isComplete('guidance.questions')).toBe(true)
+    expect(parser.isComplete('guidance')).toBe(false)
+
+    parser.push('}}')
+    expect(parser.snapshot().completedPaths.slice(-2)).toEqual(['guidance', ''])
+    expect(parser.snapshot().done).toBe(true)
+  })
+
+  it('holds numbers and literals back until they are complete', () => {
+    const parser = createStreamingJsonParser()
+
+    expect(parser.push('{"confidence": 0.9').value).toEqual({})
+    expect(parser.push('5, "ok": tr').value).toEqual({ confidence: 0.95 })
+    expect(parser.push('ue}').value).toEqual({ confidence: 0.95, ok: true })
+  })
+
+  it('skips prose and fences before the JSON and ignores what follows it', () => {
+    const parser = createStreamingJsonParser()
+    parser.push('Sure!\n```json\n{"a": 1}\n```\nMore {"b": 2}')
+
+    expect(parser.snapshot()).toMatchObject({ value: { a: 1 }, done: true })
+  })
+
+  it('skips citations and bracketed prose before the JSON', () => {
+    const parser = createStreamingJsonParser()
+    for (const char of 'As noted [1], see [here] or {placeholders}: {"a": [1, 2]}') parser.push(char)
+
+    expect(parser.end()).toMatchObject({ value: { a: [1, 2] }, completedPaths: ['a[0]', 'a[1]', 'a', ''], done: true })
+    expect(parser.end().error).toBeUndefined()
+  })
+
+  it('keeps a list of numbers when nothing follows it', () => {
+    const parser = createStreamingJsonParser()
+    parser.push('[0, 1]')
+
+    expect(parser.snapshot().value).toBeUndefined()
+    expect(parser.end()).toMatchObject({ value: [0, 1], completedPaths: ['[0]', '[1]', ''], done: true })
+  })
+
+  it('shares the finished parts of the value between snapshots', () => {
+    const parser = createStreamingJsonParser()
+    const first = parser.push('{"items": [{"id": 1}, {"id": 2}], "text": "Hel')
+    const second = parser.push('lo')
+
+    expect(second.value).toEqual({ items: [{ id: 1 }, { id: 2 }], text: 'Hello' })
+    expect(second.value.items).toBe(first.value.items)
+    expect(second.value).not.toBe(first.value)
+    expect(first.value.text).toBe('Hel')
+  })
+
+  it('copies only the open containers that changed', () => {
+    const parser = createStreamingJsonParser()
+    const first = parser.push('{"done": {"a": 1}, "open": {"b": [1, 2], "c": "x')
+    const second = parser.push('y')
+
+    expect(second.value.open).not.toBe(first.value.open)
+    expect(second.value.open.b).toBe(first.value.open.b)
+    expect(first.value.open.c).toBe('x')
+
+    // Nothing changed: the same value again
+    expect(parser.snapshot().value).toBe(second.value)
+
+    // Earlier snapshots keep the paths they had
+    parser.push('"}}')
+    expect(first.completedPaths).toEqual(['done.a', 'done', 'open.b[0]', 'open.b[1]', 'open.b'])
+  })
+
+  it('accepts lenient syntax split across chunks', () => {
+    const parser = createStreamingJsonParser()
+    const text = "{answer: 'it\\'s fine', // note\n done: True, list: [1, 2, ...,], ..., /* end */}"
+    for (const char of text) parser.push(char)
+
+    expect(parser.end()).toMatchObject({ value: { answer: "it's fine", done: true, list: [1, 2] }, done: true })
+  })
+
+  it('keeps what was read when the input stops being JSON', () => {
+    const parser = createStreamingJsonParser()
+    const result = parser.push('{"a": 1, "b": <oops>}')
+
+    expect(result.value).toEqual({ a: 1 })
+    expect(result.error).toMatch(/Unexpected "<" at position 14/)
+  })
+
+  it('settles a trailing number at the end of input', () => {
+    const parser = createStreamingJsonParser()
+    parser.push('[1, 2')
+
+    expect(parser.snapshot().value).toEqual([1])
+    expect(parser.end().value).toEqual([1, 2])
+  })
+})
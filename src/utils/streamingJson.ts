@@ -0,0 +1,528 @@
+/**
+ * Incremental JSON parser for streamed LLM output
+ *
+ * Push chunks as they arrive and read a best-effort value after each one:
+ * unfinished strings show what has arrived so far, and unclosed arrays and
+ * objects are closed at whatever depth the stream has reached. Paths whose
+ * values are final are reported, so callers can tell a finished
+ * `suggested_followups` list from one that is still growing.
+ *
+ * Text before the JSON (prose, a ```json fence) is skipped, and the lenient
+ * syntax of @/utils/lenientJson is accepted: single quotes, unquoted keys,
+ * comments, trailing commas and Python literals. A `{` or `[` in the prose
+ * that turns out not to start JSON - a citation such as `[1]`, or `[here]` -
+ * is dropped and the search goes on after it. A list of numbers is only a
+ * citation if JSON follows it: when the input ends first, it is the value.
+ *
+ * Snapshots share the parts of the value that are complete, and each one
+ * only copies the open containers that changed since the last (and those
+ * holding them); treat values as read-only. A push costs what it adds, not
+ * what came before it.
+ *
+ * Paths are those of @/utils/jsonPath, e.g. `sales_guidance.main_response`
+ * or `suggested_followups[0]`; the root is ''.
+ *
+ * @example
+ * ```ts
+ * const parser = createStreamingJsonParser()
+ * for await (const chunk of chunks) {
+ *   const { value, completedPaths } = parser.push(chunk)
+ *   render(value?.response, completedPaths.includes('suggested_followups'))
+ * }
+ * ```
+ */
+import { childPath, type JsonPath, type JsonPathSegment } from '@/utils/jsonPath'
+import { setJsonKey } from '@/utils/lenientJson'
+
+export interface StreamingJsonSnapshot<T = any> {
+  /** Best-effort value so far; undefined until the first `{` or `[` */
+  value: T | undefined
+  /** Paths whose values are final, in the order they completed */
+  completedPaths: JsonPath[]
+  /** The root value has closed - anything after it is ignored */
+  done: boolean
+  /** Set when the input stopped being JSON; the value keeps what was read */
+  error?: string
+}
+
+export interface StreamingJsonParser<T = any> {
+  /** Feed the next chunk and get the updated snapshot */
+  push(chunk: string): StreamingJsonSnapshot<T>
+  /** The input has ended: settle a trailing number or literal */
+  end(): StreamingJsonSnapshot<T>
+  snapshot(): StreamingJsonSnapshot<T>
+  isComplete(path: JsonPath): boolean
+}
+
+type Container = Record<string, unknown> | unknown[]
+
+interface Frame {
+  container: Container
+  path: JsonPath
+  /** Where the container sits in its parent */
+  at?: JsonPathSegment
+  /** What the object/array expects next */
+  expect: 'key' | 'colon' | 'value' | 'comma'
+  /** Object key for the value being read */
+  key?: string
+  /** The container as the last snapshot showed it */
+  copy?: Container
+  /** Changed since the last snapshot */
+  changed: boolean
+}
+
+type Mode =
+  | 'seek' // before the root value
+  | 'trivia' // between tokens
+  | 'string'
+  | 'scalar' // number, literal or unquoted key
+  | 'slash' // saw '/', maybe a comment
+  | 'line-comment'
+  | 'block-comment'
+  | 'done'
+  | 'error'
+
+const LITERALS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+  True: true,
+  False: false,
+  None: null,
+  undefined: null,
+  NaN: NaN,
+  Infinity: Infinity,
+  '-Infinity': -Infinity,
+}
+
+const ESCAPES: Record<string, string> = {
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  v: '\v',
+  '0': '\0',
+}
+
+const NUMBER_PATTERN = /^[+-]?(?:0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)$/
+const SCALAR_END = /[\s,:}\]\/#]/
+
+function shallowCopy(container: Container): Container {
+  if (Array.isArray(container)) return container.slice()
+  const copy: Record<string, unknown> = {}
+  for (const key of Object.keys(container)) setJsonKey(copy, key, container[key])
+  return copy
+}
+
+function place(container: Container, at: string | number, value: unknown) {
+  if (Array.isArray(container)) container[at as number] = value
+  else setJsonKey(container, at as string, value)
+}
+
+/**
+ * A root that closed holding only numbers, e.g. a `[1]` or `[2, 3]` citation
+ */
+function isCitation(root: Container): boolean {
+  return Array.isArray(root) && root.length > 0 && root.every(item => typeof item === 'number')
+}
+
+function parseScalar(token: string): { ok: true; value: unknown } | { ok: false } {
+  if (Object.prototype.hasOwnProperty.call(LITERALS, token)) return { ok: true, value: LITERALS[token] }
+  if (NUMBER_PATTERN.test(token)) {
+    if (/^[+-]?0[xX]/.test(token)) {
+      const sign = token.startsWith('-') ? -1 : 1
+      return { ok: true, value: sign * parseInt(token.replace(/^[+-]/, ''), 16) }
+    }
+    return { ok: true, value: Number(token) }
+  }
+  return { ok: false }
+}
+
+/**
+ * Copies completedPaths from the parser's list only when read: most snapshots
+ * are replaced by the next push before anyone looks
+ */
+class Snapshot<T> implements StreamingJsonSnapshot<T> {
+  private readonly count: number
+  private paths?: JsonPath[]
+
+  constructor(
+    readonly value: T | undefined,
+    private readonly completed: JsonPath[],
+    readonly done: boolean,
+    readonly error?: string
+  ) {
+    this.count = completed.length
+  }
+
+  get completedPaths(): JsonPath[] {
+    return (this.paths ??= this.completed.slice(0, this.count))
+  }
+}
+
+export function createStreamingJsonParser<T = any>(): StreamingJsonParser<T> {
+  let mode: Mode = 'seek'
+  let root: Container | undefined
+  const stack: Frame[] = []
+  // Only ever appended to; restart() starts a new list, so snapshots can keep
+  // a prefix of it
+  let completed: JsonPath[] = []
+  const completedSet = new Set<string>()
+  let error: string | undefined
+  let offset = 0
+  // Input read since the root opened, until it is known to be JSON (null once it is)
+  let tentative: string | null = null
+  let rootOffset = 0
+  // The last number list skipped as a citation, kept in case nothing follows it
+  let citation: { root: Container; completed: string[] } | undefined
+
+  // Length of the string still arriving, as the last snapshot showed it. A
+  // different string only starts after something settled, which marks the
+  // frame as changed anyway
+  let shownLength = -1
+
+  // Token being read
+  let buffer = ''
+  let quote = ''
+  let escape: '' | '\\' | 'u' | 'x' = ''
+  let hex = ''
+  let stringIsKey = false
+
+  const top = () => stack[stack.length - 1]
+
+  const fail = (message: string) => {
+    error = `${message} at position ${offset}`
+    mode = 'error'
+  }
+
+  const complete = (path: JsonPath) => {
+    if (!completedSet.has(path)) {
+      completedSet.add(path)
+      completed.push(path)
+    }
+  }
+
+  /**
+   * Index or key of the value a frame is reading
+   */
+  const slot = (frame: Frame): string | number =>
+    Array.isArray(frame.container) ? frame.container.length : (frame.key as string)
+
+  /**
+   * Forget a root that wasn't JSON and look for the next one
+   */
+  const restart = () => {
+    root = undefined
+    stack.length = 0
+    completed = []
+    completedSet.clear()
+    error = undefined
+    mode = 'seek'
+    buffer = ''
+    escape = ''
+    tentative = null
+  }
+
+  /**
+   * A value finished: store it in its parent and move on
+   */
+  const settle = (value: unknown) => {
+    const frame = top()
+    const at = slot(frame)
+    place(frame.container, at, value)
+    frame.changed = true
+    complete(childPath(frame.path, at))
+    frame.expect = 'comma'
+    // Anything but numbers in a list shows the root isn't a citation
+    if (!Array.isArray(frame.container) || typeof value !== 'number') tentative = null
+  }
+
+  const open = (container: Container) => {
+    if (!root) {
+      root = container
+      tentative = ''
+      rootOffset = offset
+      stack.push({ container, path: '', expect: Array.isArray(container) ? 'value' : 'key', changed: true })
+      return
+    }
+    const frame = top()
+    const at = slot(frame)
+    place(frame.container, at, container)
+    frame.changed = true
+    tentative = null
+    stack.push({
+      container,
+      path: childPath(frame.path, at),
+      at,
+      expect: Array.isArray(container) ? 'value' : 'key',
+      changed: true,
+    })
+  }
+
+  const close = () => {
+    const frame = stack.pop() as Frame
+    complete(frame.path)
+    if (stack.length > 0) {
+      // Shows the container itself from now on, not its last copy
+      top().changed = true
+      top().expect = 'comma'
+    } else if (tentative !== null && isCitation(frame.container)) {
+      citation = { root: frame.container, completed }
+      restart()
+    } else {
+      mode = 'done'
+      tentative = null
+    }
+  }
+
+  /**
+   * End of a number, literal or unquoted key
+   */
+  const finishScalar = () => {
+    const token = buffer
+    const frame = top()
+    buffer = ''
+    mode = 'trivia'
+
+    // Elided elements are skipped
+    if (token === '...' || token === '…') {
+      frame.expect = 'comma'
+      return
+    }
+
+    if (frame.expect === 'key') {
+      frame.key = token
+      frame.expect = 'colon'
+      return
+    }
+
+    const parsed = parseScalar(token)
+    if (parsed.ok) settle(parsed.value)
+    else fail(`Unexpected "${token}"`)
+  }
+
+  const finishString = () => {
+    const frame = top()
+    const value = buffer
+    buffer = ''
+    mode = 'trivia'
+
+    if (stringIsKey) {
+      frame.key = value
+      frame.expect = 'colon'
+    } else {
+      settle(value)
+    }
+  }
+
+  const readTrivia = (char: string) => {
+    const frame = top()
+
+    if (/\s/.test(char)) return
+    if (char === '/') {
+      mode = 'slash'
+      return
+    }
+    if (char === '#') {
+      mode = 'line-comment'
+      return
+    }
+
+    switch (frame.expect) {
+      case 'colon':
+        if (char === ':') frame.expect = 'value'
+        else fail('Expected ":"')
+        return
+
+      case 'comma':
+        if (char === ',') frame.expect = Array.isArray(frame.container) ? 'value' : 'key'
+        else if (char === (Array.isArray(frame.container) ? ']' : '}')) close()
+        else fail('Expected ","')
+        return
+
+      case 'key':
+        if (char === '}') return close()
+        if (char === '"' || char === "'") {
+          quote = char
+          stringIsKey = true
+          mode = 'string'
+          return
+        }
+        buffer = char
+        mode = 'scalar'
+        return
+
+      case 'value':
+        if (char === ']' && Array.isArray(frame.container)) return close()
+        if (char === '{') return open({})
+        if (char === '[') return open([])
+        if (char === '"' || char === "'") {
+          quote = char
+          stringIsKey = false
+          mode = 'string'
+          return
+        }
+        if (/[\w+.\-$…]/.test(char)) {
+          buffer = char
+          mode = 'scalar'
+          return
+        }
+        fail(`Unexpected "${char}"`)
+    }
+  }
+
+  const readString = (char: string) => {
+    if (escape === 'u' || escape === 'x') {
+      hex += char
+      const length = escape === 'u' ? 4 : 2
+      if (!/^[0-9a-fA-F]*$/.test(hex)) {
+        // Not a real escape - keep the characters
+        buffer += escape + hex
+        escape = ''
+        hex = ''
+      } else if (hex.length === length) {
+        buffer += String.fromCharCode(parseInt(hex, 16))
+        escape = ''
+        hex = ''
+      }
+      return
+    }
+
+    if (escape === '\\') {
+      escape = ''
+      if (char === 'u' || char === 'x') {
+        escape = char
+        hex = ''
+      } else if (char !== '\n' && char !== '\r') {
+        buffer += ESCAPES[char] ?? char
+      }
+      return
+    }
+
+    if (char === '\\') escape = '\\'
+    else if (char === quote) finishString()
+    else buffer += char
+  }
+
+  const step = (char: string) => {
+    switch (mode) {
+      case 'seek':
+        if (char === '{') open({})
+        else if (char === '[') open([])
+        if (root) mode = 'trivia'
+        return
+
+      case 'trivia':
+        return readTrivia(char)
+
+      case 'string':
+        return readString(char)
+
+      case 'scalar':
+        if (SCALAR_END.test(char)) {
+          finishScalar()
+          // The delimiter is the next token, unless the scalar was invalid
+          if ((mode as Mode) === 'trivia') readTrivia(char)
+        } else {
+          buffer += char
+        }
+        return
+
+      case 'slash':
+        if (char === '/') mode = 'line-comment'
+        else if (char === '*') mode = 'block-comment'
+        else fail('Unexpected "/"')
+        return
+
+      case 'line-comment':
+        if (char === '\n') mode = 'trivia'
+        return
+
+      case 'block-comment':
+        if (char === '/' && buffer === '*') {
+          buffer = ''
+          mode = 'trivia'
+        } else {
+          buffer = char === '*' ? '*' : ''
+        }
+        return
+    }
+  }
+
+  const snapshot = (): StreamingJsonSnapshot<T> => {
+    // Show the string that is still arriving
+    const arriving = mode === 'string' && !stringIsKey && stack.length > 0 ? buffer : undefined
+    if (arriving !== undefined && arriving.length !== shownLength) top().changed = true
+    shownLength = arriving === undefined ? -1 : arriving.length
+
+    // Closed containers never change again. Open ones are copied when they
+    // changed, or when something inside them did; the rest keep their copy
+    let changed = false
+    for (let depth = stack.length - 1; depth >= 0; depth--) {
+      const frame = stack[depth]
+      changed = changed || frame.changed || !frame.copy
+      if (!changed) continue
+
+      const copy = shallowCopy(frame.container)
+      if (depth + 1 < stack.length) place(copy, stack[depth + 1].at as JsonPathSegment, stack[depth + 1].copy)
+      else if (arriving !== undefined) place(copy, slot(frame), arriving)
+      frame.copy = copy
+      frame.changed = false
+    }
+
+    const value = stack.length > 0 ? stack[0].copy : root
+    return new Snapshot<T>(value as T | undefined, completed, mode === 'done', error)
+  }
+
+  const feed = (chunk: string) => {
+    // Text left to read, the next one last
+    const pending = [chunk]
+    while (pending.length > 0) {
+      const text = pending.pop() as string
+      let read = 0
+      for (const char of text) {
+        if (mode === 'done' || mode === 'error') return
+        step(char)
+        offset += char.length
+        read += char.length
+        if (tentative === null) continue
+        tentative += char
+        // The root wasn't JSON after all: search again from just after its bracket
+        if ((mode as Mode) === 'error') {
+          const replay = tentative.slice(1)
+          offset = rootOffset + 1
+          restart()
+          pending.push(text.slice(read), replay)
+          break
+        }
+      }
+    }
+  }
+
+  return {
+    push(chunk) {
+      feed(chunk)
+      return snapshot()
+    },
+
+    end() {
+      if (mode === 'scalar') finishScalar()
+      // e.g. a closing "[see" - prose, not a reply that broke off
+      if (mode === 'error' && tentative !== null) restart()
+      // Nothing came after the number list, so it was the reply
+      if (!root && citation) {
+        root = citation.root
+        citation.completed.forEach(complete)
+        mode = 'done'
+      }
+      return snapshot()
+    },
+
+    snapshot,
+
+    isComplete(path) {
+      return completedSet.has(path)
+    },
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import { parseLLMStructured } from './structuredParser'
+
+describe('parseLLMStructured', () => {
+  it('reads YAML front-matter and fenced YAML', () => {
+    const frontMatter = parseLLMStructured('---\nanswer: Yes\nconfidence: 0.8\n---\nAnything else I can help with?')
+    expect(frontMatter).toMatchObject({
+      ok: true,
+      format: 'yaml',
+      strategy: 'front-matter',
+      value: { answer: 'Yes', confidence: 0.8 },
+      text: 'Anything else I can help with?',
+    })
+
+    const fenced = parseLLMStructured('Here you go:\n```yaml\nfollowups:\n  - Pricing?\n  - Integrations?\n```')
+    expect(fenced).toMatchObject({ ok: true, format: 'yaml', strategy: 'yaml-fence', value: { followups: ['Pricing?', 'Integrations?'] } })
+  })
+
+  it('only reads a bare reply as YAML when YAML is expected', () => {
+    expect(parseLLMStructured('stage: negotiation\nrisk: low').ok).toBe(false)
+    expect(parseLLMStructured('stage: negotiation\nrisk: low', { expect: 'yaml' })).toMatchObject({
+      ok: true,
+      strategy: 'yaml-document',
+      value: { stage: 'negotiation', risk: 'low' },
+    })
+    expect(parseLLMStructured('Just a sentence.', { expect: 'yaml' }).ok).toBe(false)
+  })
+
+  it('reads tagged sections, nesting and repeats', () => {
+    const reply = [
+      'Thinking it over.',
+      '<answer>Amadeo &amp; your core banking</answer>',
+      '<followup>Pricing?</followup>',
+      '<followup>Integrations?</followup>',
+      '<meta topic="sales"><confidence>0.9</confidence></meta>',
+    ].join('\n')
+
+    expect(parseLLMStructured(reply)).toMatchObject({
+      ok: true,
+      format: 'tags',
+      value: {
+        answer: 'Amadeo & your core banking',
+        followup: ['Pricing?', 'Integrations?'],
+        meta: { confidence: '0.9' },
+      },
+      text: 'Thinking it over.',
+    })
+  })
+
+  it('keeps tag contents with text around inner tags as a string', () => {
+    const result = parseLLMStructured('<answer>Use <b>bold</b> sparingly</answer>')
+    expect(result).toMatchObject({ ok: true, value: { answer: 'Use <b>bold</b> sparingly' } })
+  })
+
+  it('reads long tag-heavy replies', () => {
+    const items = Array.from({ length: 5000 }, (_, i) => `<item><id>${i}</id><note>Unclosed <b>tag</note></item>`)
+    const result = parseLLMStructured(`<list>${items.join('\n')}</list>`, { expect: 'tags' })
+
+    const { list } = (result.ok ? result.value : {}) as { list: { item: unknown[] } }
+    expect(list.item).toHaveLength(5000)
+    expect(list.item[4999]).toEqual({ id: '4999', note: 'Unclosed <b>tag' })
+  })
+
+  it('reads a markdown table into one object per row', () => {
+    const reply = 'Feature status:\n\n| Feature | Status | Notes |\n|:--|:-:|---|\n| KYC | GA | a \\| b |\n| AML | Beta |\n\nMore soon.'
+
+    expect(parseLLMStructured(reply)).toMatchObject({
+      ok: true,
+      format: 'table',
+      value: [
+        { Feature: 'KYC', Status: 'GA', Notes: 'a | b' },
+        { Feature: 'AML', Status: 'Beta', Notes: '' },
+      ],
+      text: 'Feature status:\n\n\n\nMore soon.',
+    })
+  })
+
+  it('uses the first of several tables unless told otherwise', () => {
+    const reply = '| a |\n|---|\n| 1 |\n\n| b |\n|---|\n| 2 |'
+
+    expect(parseLLMStructured(reply)).toMatchObject({ value: [{ a: '1' }], warnings: ['Found 2 tables; used table 1'] })
+    expect(parseLLMStructured(reply, { preferLast: true })).toMatchObject({ value: [{ b: '2' }] })
+  })
+
+  it('reports JSON as JSON', () => {
+    expect(parseLLMStructured('Sure: {"answer": "yes"}')).toMatchObject({
+      ok: true,
+      format: 'json',
+      strategy: 'boundary',
+      value: { answer: 'yes' },
+    })
+  })
+
+  it('only looks for the expected formats, in order', () => {
+    const reply = '<answer>{"a": 1}</answer>'
+
+    expect(parseLLMStructured(reply)).toMatchObject({ format: 'json', value: { a: 1 } })
+    expect(parseLLMStructured(reply, { expect: ['tags', 'json'] })).toMatchObject({ format: 'tags', value: { answer: '{"a": 1}' } })
+    expect(parseLLMStructured(reply, { expect: 'table' })).toEqual({
+      ok: false,
+      error: 'No table found in the response',
+      warnings: ['table: No markdown table found'],
+    })
+  })
+
+  it('never throws on bad input', () => {
+    expect(parseLLMStructured(null)).toMatchObject({ ok: false, error: 'Expected a string, got null' })
+    expect(parseLLMStructured('   ')).toMatchObject({ ok: false, error: 'Empty response' })
+    expect(parseLLMStructured('```yaml\nkey: [unclosed\n```', { expect: 'yaml' }).ok).toBe(false)
+    expect(parseLLMStructured('<a><a>x</a>', { expect: 'tags' })).toMatchObject({ ok: true, value: { a: 'x' } })
+  })
+})
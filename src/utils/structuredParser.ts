@@ -0,0 +1,366 @@
+/**
+ * Structured LLM replies beyond JSON
+ *
+ * Some agents are better at YAML, tagged sections or markdown tables than at
+ * JSON. parseLLMStructured() finds any of these in a reply, converts it into
+ * plain objects and reports which format it found, so an agent config can
+ * declare the format it expects (`format` in @/utils/agentRegistry) and
+ * anything else can be told apart.
+ *
+ * - json: anything parseLLMJsonDetailed finds
+ * - yaml: front-matter (`---` ... `---`), a ```yaml fence, or - only when
+ *   YAML is expected - the whole reply
+ * - tags: `<answer>...</answer>` style sections, keyed by tag name; nested
+ *   tags become nested objects and repeated tags become lists
+ * - table: a markdown pipe table, as one object per row keyed by the header
+ *
+ * Without `expect`, formats are tried in that order. Table cells and tag
+ * contents stay strings - pass the value through coerceToSchema() for numbers.
+ *
+ * @example
+ * ```ts
+ * const result = parseLLMStructured('<answer>Yes</answer>\n<confidence>0.8</confidence>')
+ * // { ok: true, format: 'tags', value: { answer: 'Yes', confidence: '0.8' }, strategy: 'tags', ... }
+ *
+ * parseLLMStructured(reply, { expect: 'table' })
+ * // [{ Feature: 'KYC', Status: 'GA' }, { Feature: 'AML', Status: 'Beta' }]
+ * ```
+ */
+import { parseDocument } from 'yaml'
+import { parseLLMJsonDetailed, type JsonStrategy, type ParseLLMJsonOptions } from '@/utils/jsonParser'
+import { setJsonKey } from '@/utils/lenientJson'
+
+export type StructuredFormat = 'json' | 'yaml' | 'tags' | 'table'
+
+/**
+ * Where the value was found: a JsonStrategy for JSON, otherwise
+ * - front-matter: a `---` delimited YAML block at the start of the reply
+ * - yaml-fence: a ```yaml / ```yml fenced block
+ * - yaml-document: the whole reply read as YAML
+ * - tags: tagged sections
+ * - table: a markdown pipe table
+ */
+export type StructuredStrategy = JsonStrategy | 'front-matter' | 'yaml-fence' | 'yaml-document' | 'tags' | 'table'
+
+export type ParseLLMStructuredResult =
+  | {
+      ok: true
+      format: StructuredFormat
+      value: any
+      strategy: StructuredStrategy
+      /** Offsets of the structured part in the response text */
+      span: { start: number; end: number }
+      /** The reply with the structured part taken out, trimmed */
+      text: string
+      warnings: string[]
+    }
+  | {
+      ok: false
+      error: string
+      warnings: string[]
+    }
+
+export interface ParseLLMStructuredOptions extends ParseLLMJsonOptions {
+  /** Format(s) to look for, in order (default: all of STRUCTURED_FORMATS) */
+  expect?: StructuredFormat | StructuredFormat[]
+}
+
+export const STRUCTURED_FORMATS: StructuredFormat[] = ['json', 'yaml', 'tags', 'table']
+
+type Found = Omit<Extract<ParseLLMStructuredResult, { ok: true }>, 'ok' | 'format' | 'text'>
+
+function isContainer(value: unknown): value is object {
+  return typeof value === 'object' && value !== null
+}
+
+/**
+ * YAML
+ */
+
+const FRONT_MATTER = /^\s*---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/
+const YAML_FENCE = /```[ \t]*(?:yaml|yml)[ \t]*\r?\n([\s\S]*?)```/gi
+
+function readYaml(source: string): { ok: true; value: any; warnings: string[] } | { ok: false; error: string } {
+  const document = parseDocument(source)
+  if (document.errors.length > 0) return { ok: false, error: document.errors[0].message }
+  const value = document.toJS()
+  if (!isContainer(value)) return { ok: false, error: `YAML is a ${value === null ? 'null' : typeof value}, not a mapping or list` }
+  return { ok: true, value, warnings: document.warnings.map(warning => warning.message) }
+}
+
+function findYaml(text: string, options: ParseLLMStructuredOptions, documentAllowed: boolean): Found | string {
+  const frontMatter = FRONT_MATTER.exec(text)
+  if (frontMatter) {
+    const result = readYaml(frontMatter[1])
+    if (result.ok) {
+      const end = frontMatter.index + frontMatter[0].length
+      return { value: result.value, strategy: 'front-matter', span: { start: frontMatter.index, end }, warnings: result.warnings }
+    }
+  }
+
+  const fences = [...text.matchAll(YAML_FENCE)]
+  const parsed = fences
+    .map(fence => ({ fence, result: readYaml(fence[1]) }))
+    .filter(entry => entry.result.ok)
+  if (parsed.length > 0) {
+    const index = options.preferLast || options.preferFirst === false ? parsed.length - 1 : 0
+    const { fence, result } = parsed[index]
+    const warnings = result.ok ? [...result.warnings] : []
+    if (parsed.length > 1) warnings.push(`Found ${parsed.length} YAML blocks; used block ${index + 1}`)
+    return {
+      value: result.ok ? result.value : undefined,
+      strategy: 'yaml-fence',
+      span: { start: fence.index!, end: fence.index! + fence[0].length },
+      warnings,
+    }
+  }
+
+  // A bare reply is only read as YAML on request: most prose is valid YAML too
+  if (documentAllowed) {
+    const result = readYaml(text)
+    if (result.ok) return { value: result.value, strategy: 'yaml-document', span: { start: 0, end: text.length }, warnings: result.warnings }
+    return result.error
+  }
+
+  return 'No YAML front-matter or ```yaml block found'
+}
+
+/**
+ * Tagged sections
+ */
+
+const TAG = /<(\/?)([A-Za-z][\w.-]*)(\s[^<>]*)?>/g
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(lt|gt|amp|quot|apos);/g, (_, name: string) => ENTITIES[name])
+}
+
+interface TagSection {
+  name: string
+  /** Offsets of the opening and closing tags */
+  start: number
+  end: number
+  /** Offsets of the content between them */
+  from: number
+  to: number
+  sections: TagSection[]
+}
+
+/**
+ * Pair up tags in one pass. A closing tag closes the nearest open tag of its
+ * name, dropping tags opened since that were never closed; the sections
+ * inside those belong to the enclosing section. Self-closing and stray
+ * closing tags are ignored.
+ * @returns The top-level sections, in order
+ */
+function scanTags(text: string): TagSection[] {
+  // Closed sections not yet claimed by an enclosing one
+  const closed: TagSection[] = []
+  const stack: { name: string; start: number; from: number; firstSection: number }[] = []
+  const openCount = new Map<string, number>()
+  const tag = new RegExp(TAG.source, 'g')
+
+  for (let match = tag.exec(text); match; match = tag.exec(text)) {
+    const [source, closing, name, attributes = ''] = match
+
+    if (!closing) {
+      if (attributes.trim().endsWith('/')) continue
+      stack.push({ name, start: match.index, from: match.index + source.length, firstSection: closed.length })
+      openCount.set(name, (openCount.get(name) ?? 0) + 1)
+      continue
+    }
+    if (!openCount.get(name)) continue
+
+    // Everything opened after the matching tag stays unclosed
+    let open = stack.pop()
+    while (open) {
+      openCount.set(open.name, (openCount.get(open.name) as number) - 1)
+      if (open.name === name) break
+      open = stack.pop()
+    }
+    if (!open) continue
+
+    const sections = closed.splice(open.firstSection)
+    closed.push({ name, start: open.start, end: match.index + source.length, from: open.from, to: match.index, sections })
+  }
+  return closed
+}
+
+/**
+ * Only whitespace around the sections, between `from` and `to`
+ */
+function onlySections(text: string, from: number, to: number, sections: TagSection[]): boolean {
+  let position = from
+  for (const section of [...sections, { start: to, end: to }]) {
+    for (let i = position; i < section.start; i++) {
+      if (!/\s/.test(text[i])) return false
+    }
+    position = section.end
+  }
+  return true
+}
+
+/**
+ * Sections keyed by tag name; a name used more than once holds a list
+ */
+function sectionValues(text: string, sections: TagSection[]): Record<string, unknown> {
+  const value: Record<string, unknown> = {}
+  // Names seen more than once, now holding a list (as opposed to a section that holds a list)
+  const repeated = new Set<string>()
+
+  for (const section of sections) {
+    const { name, from, to } = section
+    const content =
+      section.sections.length > 0 && onlySections(text, from, to, section.sections)
+        ? sectionValues(text, section.sections)
+        : decodeEntities(text.slice(from, to).trim())
+
+    if (!Object.prototype.hasOwnProperty.call(value, name)) setJsonKey(value, name, content)
+    else if (repeated.has(name)) (value[name] as unknown[]).push(content)
+    else {
+      setJsonKey(value, name, [value[name], content])
+      repeated.add(name)
+    }
+  }
+  return value
+}
+
+function findTags(text: string): Found | string {
+  const sections = scanTags(text)
+  if (sections.length === 0) return 'No tagged sections found'
+  return {
+    value: sectionValues(text, sections),
+    strategy: 'tags',
+    span: { start: sections[0].start, end: sections[sections.length - 1].end },
+    warnings: [],
+  }
+}
+
+/**
+ * Markdown tables
+ */
+
+const TABLE_ROW = /^\s*\|?.*\|.*$/
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/
+
+/**
+ * Cells of a `| a | b |` row; `\|` is a literal pipe
+ */
+function splitRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '')
+  return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'))
+}
+
+interface Table {
+  rows: Record<string, string>[]
+  start: number
+  end: number
+}
+
+function readTables(text: string): Table[] {
+  const lines = text.split('\n')
+  const offsets: number[] = []
+  let offset = 0
+  for (const line of lines) {
+    offsets.push(offset)
+    offset += line.length + 1
+  }
+
+  const tables: Table[] = []
+  for (let i = 0; i + 1 < lines.length; i++) {
+    if (!TABLE_ROW.test(lines[i]) || !TABLE_SEPARATOR.test(lines[i + 1])) continue
+    const header = splitRow(lines[i])
+    if (splitRow(lines[i + 1]).length !== header.length) continue
+
+    const columns = header.map((name, index) => name || `column${index + 1}`)
+    const rows: Record<string, string>[] = []
+    let last = i + 1
+    for (let j = i + 2; j < lines.length && TABLE_ROW.test(lines[j]) && lines[j].trim(); j++) {
+      const cells = splitRow(lines[j])
+      const row: Record<string, string> = {}
+      columns.forEach((column, index) => setJsonKey(row, column, cells[index] ?? ''))
+      rows.push(row)
+      last = j
+    }
+
+    tables.push({ rows, start: offsets[i], end: offsets[last] + lines[last].length })
+    i = last
+  }
+  return tables
+}
+
+function findTable(text: string, options: ParseLLMStructuredOptions): Found | string {
+  const tables = readTables(text)
+  if (tables.length === 0) return 'No markdown table found'
+
+  const index = options.preferLast || options.preferFirst === false ? tables.length - 1 : 0
+  const table = tables[index]
+  const warnings = tables.length > 1 ? [`Found ${tables.length} tables; used table ${index + 1}`] : []
+  return { value: table.rows, strategy: 'table', span: { start: table.start, end: table.end }, warnings }
+}
+
+/**
+ * JSON
+ */
+
+function findJson(text: string, options: ParseLLMStructuredOptions): Found | string {
+  const { expect: _expect, ...jsonOptions } = options
+  const result = parseLLMJsonDetailed(text, jsonOptions)
+  if (!result.ok) return result.error
+  if (!isContainer(result.value)) return 'Parsed JSON is not an object or array'
+  const { value, strategy, span, warnings } = result
+  return { value, strategy, span, warnings }
+}
+
+/**
+ * Find YAML, tagged sections, a markdown table or JSON in an LLM reply and
+ * convert it into plain objects. Never throws.
+ */
+export function parseLLMStructured(
+  response: unknown,
+  options: ParseLLMStructuredOptions = {}
+): ParseLLMStructuredResult {
+  if (typeof response !== 'string') {
+    return { ok: false, error: `Expected a string, got ${response === null ? 'null' : typeof response}`, warnings: [] }
+  }
+  if (!response.trim()) return { ok: false, error: 'Empty response', warnings: [] }
+
+  const expected = options.expect === undefined ? STRUCTURED_FORMATS : [options.expect].flat()
+  const errors: string[] = []
+
+  for (const format of expected) {
+    let found: Found | string
+    try {
+      switch (format) {
+        case 'json':
+          found = findJson(response, options)
+          break
+        case 'yaml':
+          found = findYaml(response, options, options.expect !== undefined)
+          break
+        case 'tags':
+          found = findTags(response)
+          break
+        case 'table':
+          found = findTable(response, options)
+          break
+        default:
+          found = `Unknown format "${format}"`
+      }
+    } catch (error) {
+      found = error instanceof Error ? error.message : String(error)
+    }
+
+    if (typeof found === 'string') {
+      errors.push(`${format}: ${found}`)
+      continue
+    }
+
+    const text = (response.slice(0, found.span.start) + response.slice(found.span.end)).trim()
+    return { ok: true, format, ...found, text }
+  }
+
+  return { ok: false, error: `No ${expected.join(', ')} found in the response`, warnings: errors }
+}